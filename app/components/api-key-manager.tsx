@@ -17,6 +17,7 @@ const API_KEY_SERVICES: Array<{
   { key: "flow", label: "Flow", provider: "AllThatNode" },
   { key: "polkadot", label: "Polkadot", provider: "AllThatNode" },
   { key: "mintscan", label: "Osmosis/Mintscan", provider: "Mintscan" },
+  { key: "coingecko", label: "USD Prices", provider: "CoinGecko" },
 ];
 
 export function ApiKeyManager() {
@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Database, ChevronDown, Trash2, RotateCw } from "lucide-react";
+import { ChainId } from "../types";
+import { CHAIN_CONFIGS } from "../config/chains";
+import { getChainAdapter } from "../services/registry";
+import {
+  StoredWalletSummary,
+  deleteStoredWallets,
+  listStoredWallets,
+} from "../utils/transactionStore";
+
+interface CachedWalletsProps {
+  // Fetch the wallet again from scratch; its cache entry is already purged
+  onRefresh: (chain: ChainId, address: string) => void;
+  disabled?: boolean;
+}
+
+function formatAge(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} ago`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Collapsible list of wallets cached in the browser, with their age and size
+ * and buttons to purge or force-refresh them
+ */
+export function CachedWallets({ onRefresh, disabled }: CachedWalletsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [wallets, setWallets] = useState<StoredWalletSummary[]>([]);
+
+  const reload = () => {
+    listStoredWallets().then(setWallets);
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const handlePurge = async (key?: string) => {
+    await deleteStoredWallets(key);
+    reload();
+  };
+
+  const handleRefresh = async (wallet: StoredWalletSummary) => {
+    await deleteStoredWallets(wallet.key);
+    reload();
+    onRefresh(wallet.chain, wallet.address);
+  };
+
+  const totalSize = wallets.reduce((sum, w) => sum + w.sizeBytes, 0);
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          <Database className="w-4 h-4 text-orange-500" />
+          <span className="font-medium text-gray-300">Cached Wallets</span>
+          {wallets.length > 0 && (
+            <span className="text-xs bg-orange-500/20 text-orange-400 px-2 py-0.5 rounded-full">
+              {wallets.length} cached • {formatSize(totalSize)}
+            </span>
+          )}
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-400">
+            Fetched wallets are kept in this browser so the next export only
+            downloads new transactions. Refresh a wallet to fetch its full
+            history again.
+          </p>
+
+          {wallets.length === 0 ? (
+            <p className="text-sm text-gray-500">No cached wallets yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {wallets.map((wallet) => {
+                const chain = CHAIN_CONFIGS[wallet.chain];
+                const isOutdated =
+                  getChainAdapter(wallet.chain)?.version !==
+                  wallet.adapterVersion;
+
+                return (
+                  <div
+                    key={wallet.key}
+                    className="flex items-center justify-between bg-[#1a1a1a] rounded-lg px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-300">
+                          {chain?.name || wallet.chain}
+                        </span>
+                        <span className="text-xs text-gray-500 font-mono truncate">
+                          {wallet.address.slice(0, 10)}...
+                          {wallet.address.slice(-6)}
+                        </span>
+                        {isOutdated && (
+                          <span className="text-xs bg-yellow-500/20 text-yellow-400 px-2 py-0.5 rounded-full">
+                            Outdated
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {wallet.transactionCount} transactions •{" "}
+                        {formatSize(wallet.sizeBytes)} • synced{" "}
+                        {formatAge(wallet.updatedAt)} • up to block{" "}
+                        {wallet.syncCursor.block}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleRefresh(wallet)}
+                        disabled={disabled}
+                        className="text-gray-500 hover:text-orange-400 disabled:opacity-50 transition-colors"
+                        title="Purge and fetch the full history again"
+                      >
+                        <RotateCw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handlePurge(wallet.key)}
+                        className="text-gray-500 hover:text-red-400 transition-colors"
+                        title="Purge cached wallet"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {wallets.length > 0 && (
+            <button
+              onClick={() => handlePurge()}
+              className="text-sm text-gray-400 hover:text-red-400 transition-colors"
+            >
+              Purge all cached wallets
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
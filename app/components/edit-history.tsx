@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ChevronDown, History } from "lucide-react";
+import {
+  EditLogEntry,
+  ParsedTransaction,
+  TransactionOverrides,
+} from "../types";
+import { getTransactionDiff, getTransactionKey } from "../utils/labels";
+
+// Audit entries listed in the panel, latest first
+const MAX_ENTRIES = 100;
+
+interface EditHistoryProps {
+  transactions: ParsedTransaction[]; // Loaded rows before any edit
+  overrides: TransactionOverrides;
+  log: EditLogEntry[];
+}
+
+/**
+ * Collapsible list of the edited rows next to their parsed values, and the
+ * audit trail of every edit
+ */
+export function EditHistory({ transactions, overrides, log }: EditHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const edited = useMemo(
+    () =>
+      transactions
+        .map((tx) => ({
+          tx,
+          diff: getTransactionDiff(tx, overrides[getTransactionKey(tx)]),
+        }))
+        .filter(({ diff }) => diff.length > 0),
+    [transactions, overrides],
+  );
+  const manualRows = transactions.filter((tx) => tx.manual).length;
+
+  if (edited.length === 0 && manualRows === 0 && log.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-orange-500" />
+          <span className="font-medium text-gray-300">Edits</span>
+          <span className="text-xs text-gray-500">
+            {edited.length} edited • {manualRows} manual • {log.length} log
+            entries
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {edited.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-1 pr-4 font-normal">Transaction</th>
+                  <th className="py-1 pr-4 font-normal">Field</th>
+                  <th className="py-1 pr-4 font-normal">Original</th>
+                  <th className="py-1 font-normal">Edited</th>
+                </tr>
+              </thead>
+              <tbody>
+                {edited.flatMap(({ tx, diff }) =>
+                  diff.map((d, i) => (
+                    <tr
+                      key={`${getTransactionKey(tx)}:${d.field}`}
+                      className={i === 0 ? "border-t border-gray-800" : ""}
+                    >
+                      <td className="py-1 pr-4 text-gray-500 font-mono text-xs">
+                        {i === 0 && `${tx.hash.slice(0, 12)}...`}
+                      </td>
+                      <td className="py-1 pr-4 text-gray-400">{d.field}</td>
+                      <td className="py-1 pr-4 text-red-400">{d.original}</td>
+                      <td className="py-1 text-green-400">{d.edited}</td>
+                    </tr>
+                  )),
+                )}
+              </tbody>
+            </table>
+          )}
+
+          {log.length > 0 && (
+            <div>
+              <h3 className="text-sm text-gray-400 mb-1">Audit trail</h3>
+              <ul className="text-xs space-y-1">
+                {log
+                  .slice(-MAX_ENTRIES)
+                  .reverse()
+                  .map((entry, i) => (
+                    <li key={`${entry.at}:${i}`} className="text-gray-400">
+                      <span className="text-gray-500">
+                        {entry.at.replace("T", " ").slice(0, 19)}
+                      </span>{" "}
+                      <span className="text-orange-400">{entry.action}</span>{" "}
+                      <span className="font-mono">{entry.key}</span>
+                      {entry.detail && ` — ${entry.detail}`}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useState } from "react";
+import { ChevronDown, CheckCircle2, AlertTriangle } from "lucide-react";
+import { FeeReportEntry } from "../types";
+import { CHAIN_CONFIGS } from "../config/chains";
+
+interface FeeReportProps {
+  entries: FeeReportEntry[];
+}
+
+/**
+ * Collapsible check that every fee of the export is charged once: exported
+ * totals per chain next to the sum of one fee per transaction hash
+ */
+export function FeeReport({ entries }: FeeReportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  if (entries.length === 0) return null;
+
+  const mismatches = entries.filter((entry) => !entry.matches).length;
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          {mismatches === 0 ? (
+            <CheckCircle2 className="w-4 h-4 text-green-500" />
+          ) : (
+            <AlertTriangle className="w-4 h-4 text-yellow-500" />
+          )}
+          <span className="font-medium text-gray-300">
+            {mismatches === 0
+              ? "Fees verified"
+              : `${mismatches} fee total${mismatches === 1 ? "" : "s"} do not match`}
+          </span>
+          <span className="text-xs text-gray-500">
+            Each transaction fee is charged once
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="py-1 pr-4 font-normal">Chain</th>
+                <th className="py-1 pr-4 font-normal text-right">
+                  Transactions
+                </th>
+                <th className="py-1 pr-4 font-normal text-right">Exported</th>
+                <th className="py-1 pr-4 font-normal text-right">Expected</th>
+                <th className="py-1 font-normal">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr
+                  key={`${entry.chain}:${entry.currency}`}
+                  className="border-t border-gray-800"
+                >
+                  <td className="py-1 pr-4 text-gray-300">
+                    {CHAIN_CONFIGS[entry.chain]?.name || entry.chain}
+                  </td>
+                  <td className="py-1 pr-4 text-right text-gray-300">
+                    {entry.transactionCount}
+                  </td>
+                  <td className="py-1 pr-4 text-right text-gray-300 font-mono">
+                    {entry.exportedTotal} {entry.currency}
+                  </td>
+                  <td className="py-1 pr-4 text-right text-gray-300 font-mono">
+                    {entry.expectedTotal} {entry.currency}
+                  </td>
+                  <td className="py-1">
+                    {entry.matches ? (
+                      <span className="text-green-400">Match</span>
+                    ) : (
+                      <span className="text-yellow-400">Mismatch</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useState } from "react";
+import { ChevronDown, CheckCircle2, AlertTriangle } from "lucide-react";
+import { FetchMetadata } from "../types";
+
+interface FetchSummaryProps {
+  metadata: FetchMetadata;
+  title?: string; // Names the wallet when several summaries are shown
+}
+
+/**
+ * Collapsible breakdown of a fetch: per-source counts, pages, timing and
+ * whether the history is complete
+ */
+export function FetchSummary({ metadata, title }: FetchSummaryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isComplete = !metadata.truncated;
+  const seconds = (metadata.timings.durationMs / 1000).toFixed(1);
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          {isComplete ? (
+            <CheckCircle2 className="w-4 h-4 text-green-500" />
+          ) : (
+            <AlertTriangle className="w-4 h-4 text-yellow-500" />
+          )}
+          <span className="font-medium text-gray-300">
+            {title && `${title} • `}
+            {isComplete ? "Complete history" : "History may be incomplete"}
+          </span>
+          <span className="text-xs text-gray-500">
+            {metadata.sources.length} source
+            {metadata.sources.length === 1 ? "" : "s"} •{" "}
+            {metadata.pagesFetched} pages • {seconds}s
+            {metadata.since && (
+              <>
+                {" "}• {metadata.newTransactions ?? 0} new since block{" "}
+                {metadata.since.block}
+              </>
+            )}
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          {metadata.warnings.length > 0 && (
+            <ul className="space-y-1">
+              {metadata.warnings.map((warning, idx) => (
+                <li key={idx} className="text-sm text-yellow-400">
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="py-1 pr-4 font-normal">Source</th>
+                <th className="py-1 pr-4 font-normal text-right">Items</th>
+                <th className="py-1 pr-4 font-normal text-right">Pages</th>
+                <th className="py-1 font-normal">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metadata.sources.map((source) => (
+                <tr key={source.source} className="border-t border-gray-800">
+                  <td className="py-1 pr-4 text-gray-300">{source.label}</td>
+                  <td className="py-1 pr-4 text-right font-mono">
+                    {source.count}
+                  </td>
+                  <td className="py-1 pr-4 text-right font-mono">
+                    {source.pagesFetched}
+                  </td>
+                  <td className="py-1">
+                    {source.truncated ? (
+                      <span className="text-yellow-400">
+                        {source.truncationReason === "page_limit"
+                          ? "Stopped at page limit"
+                          : "Stopped on error"}
+                      </span>
+                    ) : (
+                      <span className="text-green-400">Complete</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useState } from "react";
+import { ChevronDown, PlusCircle } from "lucide-react";
+import { ParsedTransaction, PortfolioWallet, TransactionType } from "../types";
+import { CHAIN_CONFIGS } from "../config/chains";
+import { getReportingCurrency } from "../utils/fx";
+import { TRANSACTION_TYPES } from "../utils/labels";
+import { parseDateTime } from "../utils/timeZone";
+
+interface ManualTransactionFormProps {
+  wallets: PortfolioWallet[];
+  timeZone: string; // Zone the date and time are entered in
+  onAdd: (wallet: PortfolioWallet, tx: ParsedTransaction) => void;
+}
+
+const inputClass =
+  "bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-orange-500";
+
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+const EMPTY_FORM = {
+  day: "",
+  time: "00:00",
+  type: "swap" as TransactionType,
+  amount: "",
+  currency: "",
+  amount2: "",
+  currency2: "",
+  fee: "",
+  feeCurrency: "",
+  fiatAmount: "",
+  counterparty: "",
+  memo: "",
+};
+
+/**
+ * Collapsible form for a row the chain data does not have, such as an OTC
+ * trade; for a swap the first leg is sent and the second received
+ */
+export function ManualTransactionForm({
+  wallets,
+  timeZone,
+  onAdd,
+}: ManualTransactionFormProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [walletIndex, setWalletIndex] = useState(0);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  if (wallets.length === 0) return null;
+  const wallet = wallets[Math.min(walletIndex, wallets.length - 1)];
+
+  const set = (field: keyof typeof EMPTY_FORM, value: string) =>
+    setForm({ ...form, [field]: value });
+
+  const handleAdd = () => {
+    const amounts = [form.amount, form.amount2, form.fee, form.fiatAmount];
+    if (!form.day || !form.amount || !form.currency.trim()) {
+      setError("Date, amount and currency are required");
+      return;
+    }
+    if (amounts.some((a) => a && !AMOUNT_PATTERN.test(a))) {
+      setError("Amounts must be plain decimal numbers");
+      return;
+    }
+
+    const incoming = form.type === "receive" || form.type === "claim_rewards";
+    const counterparty = form.counterparty.trim();
+    onAdd(wallet, {
+      hash: `manual-${Date.now()}`,
+      timestamp: parseDateTime(form.day, form.time, timeZone),
+      height: 0,
+      type: form.type,
+      from: incoming ? counterparty : wallet.address,
+      to: incoming ? wallet.address : counterparty,
+      amount: form.amount,
+      currency: form.currency.trim(),
+      amount2: form.amount2 || undefined,
+      currency2: form.currency2.trim() || undefined,
+      fee: form.fee,
+      feeCurrency: form.fee ? form.feeCurrency.trim() : "",
+      fiatAmount: form.fiatAmount || undefined,
+      fiatCurrency: form.fiatAmount ? getReportingCurrency() : undefined,
+      memo: form.memo || `Manual ${form.type}`,
+      status: "success",
+      chain: wallet.chain,
+      manual: true,
+    });
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          <PlusCircle className="w-4 h-4 text-orange-500" />
+          <span className="font-medium text-gray-300">Add transaction</span>
+          <span className="text-xs text-gray-500">
+            OTC trades and other rows missing from the chain data
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            {wallets.length > 1 && (
+              <select
+                value={walletIndex}
+                onChange={(e) => setWalletIndex(parseInt(e.target.value, 10))}
+                className={inputClass}
+              >
+                {wallets.map((w, i) => (
+                  <option key={`${w.chain}:${w.address}`} value={i}>
+                    {CHAIN_CONFIGS[w.chain]?.name || w.chain}{" "}
+                    {w.address.slice(0, 10)}...
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="date"
+              value={form.day}
+              onChange={(e) => set("day", e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="time"
+              value={form.time}
+              onChange={(e) => set("time", e.target.value)}
+              title={`Time in ${timeZone}`}
+              className={inputClass}
+            />
+            <select
+              value={form.type}
+              onChange={(e) => set("type", e.target.value)}
+              className={inputClass}
+            >
+              {TRANSACTION_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={form.amount}
+              onChange={(e) => set("amount", e.target.value)}
+              placeholder="Amount"
+              className={`${inputClass} w-32 font-mono`}
+            />
+            <input
+              value={form.currency}
+              onChange={(e) => set("currency", e.target.value)}
+              placeholder="Currency"
+              className={`${inputClass} w-24`}
+            />
+            <input
+              value={form.amount2}
+              onChange={(e) => set("amount2", e.target.value)}
+              placeholder={form.type === "swap" ? "Received" : "Amount 2"}
+              className={`${inputClass} w-32 font-mono`}
+            />
+            <input
+              value={form.currency2}
+              onChange={(e) => set("currency2", e.target.value)}
+              placeholder="Currency 2"
+              className={`${inputClass} w-24`}
+            />
+            <input
+              value={form.fiatAmount}
+              onChange={(e) => set("fiatAmount", e.target.value)}
+              placeholder="Fiat value"
+              className={`${inputClass} w-28 font-mono`}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={form.fee}
+              onChange={(e) => set("fee", e.target.value)}
+              placeholder="Fee"
+              className={`${inputClass} w-28 font-mono`}
+            />
+            <input
+              value={form.feeCurrency}
+              onChange={(e) => set("feeCurrency", e.target.value)}
+              placeholder="Fee currency"
+              className={`${inputClass} w-28`}
+            />
+            <input
+              value={form.counterparty}
+              onChange={(e) => set("counterparty", e.target.value)}
+              placeholder="Counterparty address"
+              className={`${inputClass} flex-1 font-mono`}
+            />
+            <input
+              value={form.memo}
+              onChange={(e) => set("memo", e.target.value)}
+              placeholder="Notes"
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              onClick={handleAdd}
+              className="text-sm bg-orange-600 hover:bg-orange-700 text-white px-3 py-1 rounded-lg transition-colors"
+            >
+              Add
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
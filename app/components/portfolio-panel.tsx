@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useState } from "react";
+import Image from "next/image";
+import { Wallet, ChevronDown, Trash2, Plus } from "lucide-react";
+import { PortfolioWallet } from "../types";
+import { CHAIN_CONFIGS } from "../config/chains";
+
+interface PortfolioPanelProps {
+  wallets: PortfolioWallet[];
+  canAdd: boolean; // The chain and address in the form form a new, valid wallet
+  onAdd: () => void;
+  onRemove: (wallet: PortfolioWallet) => void;
+  onFetch: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Collapsible list of portfolio wallets across chains, fetched together into
+ * one merged table
+ */
+export function PortfolioPanel({
+  wallets,
+  canAdd,
+  onAdd,
+  onRemove,
+  onFetch,
+  disabled,
+}: PortfolioPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          <Wallet className="w-4 h-4 text-orange-500" />
+          <span className="font-medium text-gray-300">Portfolio</span>
+          {wallets.length > 0 && (
+            <span className="text-xs bg-orange-500/20 text-orange-400 px-2 py-0.5 rounded-full">
+              {wallets.length} wallet{wallets.length === 1 ? "" : "s"}
+            </span>
+          )}
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-400">
+            Add wallets on any supported chain to view them in one table and
+            export a combined CSV or a zip with one CSV per wallet.
+          </p>
+
+          <button
+            onClick={onAdd}
+            disabled={!canAdd}
+            className="flex items-center text-sm bg-gray-800 hover:bg-gray-700 disabled:bg-gray-900 disabled:text-gray-600 disabled:cursor-not-allowed text-gray-300 px-3 py-2 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" /> Add the wallet above
+          </button>
+
+          {wallets.length > 0 && (
+            <div className="space-y-1">
+              {wallets.map((wallet) => {
+                const chain = CHAIN_CONFIGS[wallet.chain];
+                return (
+                  <div
+                    key={`${wallet.chain}:${wallet.address}`}
+                    className="flex items-center justify-between bg-[#1a1a1a] rounded-lg px-3 py-2"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      {chain && (
+                        <div className="w-5 h-5 relative flex-shrink-0">
+                          <Image
+                            src={chain.icon}
+                            alt={chain.name}
+                            fill
+                            className="rounded-full"
+                          />
+                        </div>
+                      )}
+                      <span className="text-sm font-medium text-gray-300">
+                        {chain?.name || wallet.chain}
+                      </span>
+                      <span className="text-xs text-gray-500 font-mono truncate">
+                        {wallet.address.slice(0, 10)}...
+                        {wallet.address.slice(-6)}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => onRemove(wallet)}
+                      className="text-gray-500 hover:text-red-400 transition-colors flex-shrink-0"
+                      title="Remove from portfolio"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {wallets.length > 0 && (
+            <button
+              onClick={onFetch}
+              disabled={disabled}
+              className="w-full bg-orange-600 hover:bg-orange-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white py-2 px-4 rounded-lg transition-colors"
+            >
+              View Portfolio ({wallets.length} wallet
+              {wallets.length === 1 ? "" : "s"})
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { DollarSign, ChevronDown, Upload, Trash2 } from "lucide-react";
+import { FiatCurrency } from "../types";
+import {
+  PriceTableSummary,
+  clearPriceTable,
+  getPriceTableSummary,
+  importPriceCSV,
+} from "../utils/priceTable";
+import {
+  FIAT_CURRENCIES,
+  FxTableSummary,
+  clearFxRates,
+  getFxTableSummary,
+  getReportingCurrency,
+  importFxCSV,
+  saveReportingCurrency,
+} from "../utils/fx";
+
+/**
+ * Collapsible view of the local USD price table and FX rates, with CSV import
+ * so exports can be priced without a price API, and the reporting currency
+ */
+export function PriceTable() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [summary, setSummary] = useState<PriceTableSummary | null>(null);
+  const [fxSummary, setFxSummary] = useState<FxTableSummary | null>(null);
+  const [currency, setCurrency] = useState<FiatCurrency>(() =>
+    getReportingCurrency(),
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const fxFileInput = useRef<HTMLInputElement>(null);
+
+  const reload = () => {
+    getPriceTableSummary().then(setSummary);
+    getFxTableSummary().then(setFxSummary);
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const handleCurrencyChange = (value: FiatCurrency) => {
+    setCurrency(value);
+    saveReportingCurrency(value);
+    setMessage(
+      value === "USD" || fxSummary?.currencies.includes(value)
+        ? `Fetches now report in ${value}`
+        : `Fetches now report in ${value}; import ${value} rates to fill the fiat columns`,
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const result = await importPriceCSV(await file.text());
+      setMessage(
+        `Imported ${result.imported} prices` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} lines` : ""),
+      );
+    } catch (err: unknown) {
+      setMessage(err instanceof Error ? err.message : "Import failed");
+    }
+    reload();
+  };
+
+  const handleFxImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const result = await importFxCSV(await file.text());
+      setMessage(
+        `Imported ${result.imported} FX rates` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} lines` : ""),
+      );
+    } catch (err: unknown) {
+      setMessage(err instanceof Error ? err.message : "Import failed");
+    }
+    reload();
+  };
+
+  const handleClear = async () => {
+    await clearPriceTable();
+    setMessage(null);
+    reload();
+  };
+
+  const handleClearFx = async () => {
+    await clearFxRates();
+    setMessage(null);
+    reload();
+  };
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          <DollarSign className="w-4 h-4 text-orange-500" />
+          <span className="font-medium text-gray-300">Prices</span>
+          <span className="text-xs bg-orange-500/20 text-orange-400 px-2 py-0.5 rounded-full">
+            {currency}
+            {summary && summary.count > 0 &&
+              ` • ${summary.count} prices • ${summary.assets} assets`}
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-400">
+            Exports fill the fiat columns from daily USD closes stored in this
+            browser. Import a CSV with the columns{" "}
+            <code className="text-gray-300">date,symbol,close</code> (a{" "}
+            <code className="text-gray-300">contract</code> column is optional)
+            or add a CoinGecko API key to fetch missing prices automatically.
+          </p>
+
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="reporting-currency" className="text-gray-400">
+              Reporting currency
+            </label>
+            <select
+              id="reporting-currency"
+              value={currency}
+              onChange={(e) =>
+                handleCurrencyChange(e.target.value as FiatCurrency)
+              }
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-300"
+            >
+              {FIAT_CURRENCIES.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="text-sm text-gray-400">
+            Other currencies are converted from USD with daily rates imported
+            as a CSV with the columns{" "}
+            <code className="text-gray-300">date,currency,rate</code> (units
+            per 1 USD). A day without a rate uses the last rate of the week
+            before; values with no rate at all are left empty.
+          </p>
+
+          {summary && summary.count > 0 && (
+            <p className="text-sm text-gray-500">
+              {summary.count} daily closes for {summary.assets} assets from{" "}
+              {summary.firstDate} to {summary.lastDate}
+            </p>
+          )}
+          {fxSummary && fxSummary.count > 0 && (
+            <p className="text-sm text-gray-500">
+              {fxSummary.count} FX rates for {fxSummary.currencies.join(", ")}
+            </p>
+          )}
+
+          {message && <p className="text-sm text-gray-300">{message}</p>}
+
+          <div className="flex items-center gap-4">
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="flex items-center text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-2 rounded-lg transition-colors"
+            >
+              <Upload className="w-4 h-4 mr-2" /> Import price CSV
+            </button>
+            {summary && summary.count > 0 && (
+              <button
+                onClick={handleClear}
+                className="flex items-center text-sm text-gray-400 hover:text-red-400 transition-colors"
+              >
+                <Trash2 className="w-4 h-4 mr-2" /> Clear prices
+              </button>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4">
+            <input
+              ref={fxFileInput}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFxImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => fxFileInput.current?.click()}
+              className="flex items-center text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-2 rounded-lg transition-colors"
+            >
+              <Upload className="w-4 h-4 mr-2" /> Import FX rate CSV
+            </button>
+            {fxSummary && fxSummary.count > 0 && (
+              <button
+                onClick={handleClearFx}
+                className="flex items-center text-sm text-gray-400 hover:text-red-400 transition-colors"
+              >
+                <Trash2 className="w-4 h-4 mr-2" /> Clear FX rates
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
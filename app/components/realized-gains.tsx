@@ -0,0 +1,314 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ChevronDown, Download, TrendingUp } from "lucide-react";
+import {
+  CostBasisMethod,
+  ParsedTransaction,
+  RealizedGain,
+  TaxLot,
+} from "../types";
+import {
+  COST_BASIS_METHODS,
+  LotSelections,
+  buildGainsRows,
+  calculateGains,
+  getCostBasisMethod,
+  getLotSelections,
+  saveCostBasisMethod,
+  saveLotSelections,
+} from "../utils/costBasis";
+import { downloadCSV, generateCSVContent } from "../utils/csvExport";
+import { formatDisplayAmount } from "../utils/units";
+import { formatDay } from "../utils/timeZone";
+
+// Disposals listed in the panel; the CSV has all of them
+const MAX_ROWS = 100;
+
+interface RealizedGainsProps {
+  wallets: Array<{ address: string; transactions: ParsedTransaction[] }>;
+  // Export the trading format with its P&L column filled from these gains
+  onExportTrading?: (gains: RealizedGain[]) => void;
+  timeZone: string;
+}
+
+/**
+ * Collapsible gains report: realized gains per disposal and open positions
+ * under the chosen cost-basis method, with a CSV export
+ */
+export function RealizedGains({
+  wallets,
+  onExportTrading,
+  timeZone,
+}: RealizedGainsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [method, setMethod] = useState<CostBasisMethod>(() =>
+    getCostBasisMethod(),
+  );
+  const [selections, setSelections] = useState<LotSelections>(() =>
+    getLotSelections(),
+  );
+
+  const report = useMemo(
+    () => calculateGains(wallets, method, selections),
+    [wallets, method, selections],
+  );
+
+  const lotsByAsset = useMemo(() => {
+    const lots = new Map<string, TaxLot[]>();
+    for (const lot of report.lots) {
+      if (!lots.has(lot.asset)) lots.set(lot.asset, []);
+      lots.get(lot.asset)!.push(lot);
+    }
+    return lots;
+  }, [report.lots]);
+
+  if (report.realized.length === 0 && report.positions.length === 0) {
+    return null;
+  }
+
+  const handleMethodChange = (value: CostBasisMethod) => {
+    setMethod(value);
+    saveCostBasisMethod(value);
+  };
+
+  const handleSelectLot = (disposalId: string, lotId: string) => {
+    const next = { ...selections };
+    if (lotId) {
+      next[disposalId] = [lotId];
+    } else {
+      delete next[disposalId];
+    }
+    setSelections(next);
+    saveLotSelections(next);
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().split("T")[0];
+    downloadCSV(
+      generateCSVContent(buildGainsRows(report, timeZone)),
+      `realized-gains-${method}-${date}.csv`,
+    );
+  };
+
+  const day = (date: Date | null) => (date ? formatDay(date, timeZone) : "—");
+
+  const totalGain =
+    parseFloat(report.shortTermGain) + parseFloat(report.longTermGain);
+  const rows = report.realized.slice(0, MAX_ROWS);
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-orange-500" />
+          <span className="font-medium text-gray-300">Realized gains</span>
+          <span
+            className={`text-xs font-mono ${
+              totalGain < 0 ? "text-red-400" : "text-green-400"
+            }`}
+          >
+            {totalGain.toFixed(2)} {report.currency}
+          </span>
+          <span className="text-xs text-gray-500">
+            {method.toUpperCase()} • {report.realized.length} disposals
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={method}
+              onChange={(e) =>
+                handleMethodChange(e.target.value as CostBasisMethod)
+              }
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-300"
+            >
+              {COST_BASIS_METHODS.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleExport}
+              className="flex items-center text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-2 rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4 mr-2" /> Gains CSV
+            </button>
+            {onExportTrading && (
+              <button
+                onClick={() => onExportTrading(report.realized)}
+                className="flex items-center text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-2 rounded-lg transition-colors"
+              >
+                <Download className="w-4 h-4 mr-2" /> Trading CSV with P&L
+              </button>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-400">
+            Proceeds {report.proceeds} • Cost basis {report.costBasis} •
+            Short-term {report.shortTermGain} • Long-term{" "}
+            {report.longTermGain} {report.currency}
+          </p>
+          {(report.unpricedDisposals > 0 || report.unmatchedDisposals > 0) && (
+            <p className="text-sm text-yellow-500">
+              {report.unpricedDisposals > 0 &&
+                `${report.unpricedDisposals} disposals have no fiat value and are left out of the totals. `}
+              {report.unmatchedDisposals > 0 &&
+                `${report.unmatchedDisposals} disposals exceed the holdings in the history and use a cost basis of 0.`}
+            </p>
+          )}
+
+          {report.positions.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-1 pr-4 font-normal">Open position</th>
+                  <th className="py-1 pr-4 font-normal text-right">
+                    Quantity
+                  </th>
+                  <th className="py-1 pr-4 font-normal text-right">
+                    Cost basis
+                  </th>
+                  <th className="py-1 font-normal text-right">Lots</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.positions.map((position) => (
+                  <tr
+                    key={position.asset}
+                    className="border-t border-gray-800"
+                  >
+                    <td className="py-1 pr-4 text-gray-300">
+                      {position.asset}
+                    </td>
+                    <td
+                      className="py-1 pr-4 text-right text-gray-300 font-mono"
+                      title={position.quantity}
+                    >
+                      {formatDisplayAmount(position.quantity, 6)}
+                    </td>
+                    <td className="py-1 pr-4 text-right text-gray-300 font-mono">
+                      {position.costBasis} {report.currency}
+                    </td>
+                    <td className="py-1 text-right text-gray-300">
+                      {position.lots.length}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {rows.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-1 pr-4 font-normal">Sold</th>
+                  <th className="py-1 pr-4 font-normal">Asset</th>
+                  <th className="py-1 pr-4 font-normal text-right">
+                    Quantity
+                  </th>
+                  <th className="py-1 pr-4 font-normal">Acquired</th>
+                  <th className="py-1 pr-4 font-normal text-right">
+                    Proceeds
+                  </th>
+                  <th className="py-1 pr-4 font-normal text-right">
+                    Cost basis
+                  </th>
+                  <th className="py-1 font-normal text-right">Gain</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((gain, i) => {
+                  const firstOfDisposal =
+                    i === 0 || rows[i - 1].disposalId !== gain.disposalId;
+                  const candidates = (lotsByAsset.get(gain.asset) || []).filter(
+                    (lot) => lot.acquiredAt <= gain.disposedAt,
+                  );
+                  return (
+                    <tr
+                      key={`${gain.disposalId}:${gain.lotId ?? "none"}`}
+                      className="border-t border-gray-800"
+                    >
+                      <td className="py-1 pr-4 text-gray-300">
+                        {day(gain.disposedAt)}
+                      </td>
+                      <td className="py-1 pr-4 text-gray-300">
+                        {gain.asset}
+                        {gain.fee && (
+                          <span className="text-xs text-gray-500"> fee</span>
+                        )}
+                      </td>
+                      <td
+                        className="py-1 pr-4 text-right text-gray-300 font-mono"
+                        title={gain.quantity}
+                      >
+                        {formatDisplayAmount(gain.quantity, 6)}
+                      </td>
+                      <td className="py-1 pr-4 text-gray-300">
+                        {method === "specific" && firstOfDisposal ? (
+                          <select
+                            value={selections[gain.disposalId]?.[0] || ""}
+                            onChange={(e) =>
+                              handleSelectLot(gain.disposalId, e.target.value)
+                            }
+                            className="bg-gray-800 border border-gray-700 rounded px-1 text-xs text-gray-300"
+                          >
+                            <option value="">FIFO</option>
+                            {candidates.map((lot) => (
+                              <option key={lot.id} value={lot.id}>
+                                {day(lot.acquiredAt)} •{" "}
+                                {formatDisplayAmount(lot.quantity, 4)}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          day(gain.acquiredAt)
+                        )}
+                      </td>
+                      <td className="py-1 pr-4 text-right text-gray-300 font-mono">
+                        {gain.priced ? gain.proceeds : "—"}
+                      </td>
+                      <td className="py-1 pr-4 text-right text-gray-300 font-mono">
+                        {gain.costBasis}
+                      </td>
+                      <td
+                        className={`py-1 text-right font-mono ${
+                          !gain.priced
+                            ? "text-gray-500"
+                            : parseFloat(gain.gain) < 0
+                              ? "text-red-400"
+                              : "text-green-400"
+                        }`}
+                      >
+                        {gain.priced ? gain.gain : "—"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+          {report.realized.length > MAX_ROWS && (
+            <p className="text-xs text-gray-500">
+              Showing the first {MAX_ROWS} of {report.realized.length} rows;
+              the gains CSV has all of them.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
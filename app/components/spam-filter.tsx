@@ -0,0 +1,93 @@
+"use client";
+
+import React, { useState } from "react";
+import { ChevronDown, ShieldAlert, X } from "lucide-react";
+import { SpamLists, SpamReason } from "../types";
+import { SPAM_REASONS, unmarkToken } from "../utils/spam";
+
+interface SpamFilterProps {
+  spam: Map<string, SpamReason>; // Flagged rows of the loaded wallets
+  lists: SpamLists;
+  onChange: (lists: SpamLists) => void;
+}
+
+/**
+ * Collapsible summary of the rows flagged as spam by reason, and the tokens
+ * marked as spam or not spam from the results table
+ */
+export function SpamFilter({ spam, lists, onChange }: SpamFilterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (spam.size === 0 && lists.allow.length === 0 && lists.deny.length === 0) {
+    return null;
+  }
+
+  const counts = new Map<SpamReason, number>();
+  spam.forEach((reason) => counts.set(reason, (counts.get(reason) || 0) + 1));
+
+  const renderList = (title: string, ids: string[]) =>
+    ids.length > 0 && (
+      <div>
+        <h3 className="text-sm text-gray-400 mb-1">{title}</h3>
+        <ul className="flex flex-wrap gap-2">
+          {ids.map((id) => (
+            <li
+              key={id}
+              className="flex items-center gap-1 bg-gray-800 rounded-lg px-2 py-1 text-xs font-mono text-gray-300"
+            >
+              {id}
+              <button
+                onClick={() => onChange(unmarkToken(lists, id))}
+                className="text-gray-500 hover:text-red-400 transition-colors"
+                title="Remove"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="w-4 h-4 text-orange-500" />
+          <span className="font-medium text-gray-300">Spam filter</span>
+          <span className="text-xs text-gray-500">
+            {spam.size} rows hidden and not exported
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {counts.size > 0 && (
+            <ul className="text-sm space-y-1">
+              {Array.from(counts).map(([reason, count]) => (
+                <li key={reason} className="text-gray-400">
+                  {SPAM_REASONS[reason]}:{" "}
+                  <span className="text-white">{count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {renderList("Marked as spam", lists.deny)}
+          {renderList("Marked as not spam", lists.allow)}
+          <p className="text-xs text-gray-500">
+            Mark a token from the shield button of any row in the table.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
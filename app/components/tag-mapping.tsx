@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useState } from "react";
+import { ChevronDown, Plus, Tags, Trash2 } from "lucide-react";
+import { TagMapping, TagRule, TransactionType } from "../types";
+import { DEFAULT_TAGS, KNOWN_TAGS, TRANSACTION_TYPES } from "../utils/labels";
+
+interface TagMappingPanelProps {
+  mapping: TagMapping;
+  onChange: (mapping: TagMapping) => void;
+}
+
+const TAG_LIST_ID = "awaken-tags";
+
+const inputClass =
+  "bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-orange-500";
+
+/**
+ * Collapsible editor of the Awaken tags of the standard CSV: a tag per
+ * transaction type and rules by contract address or method
+ */
+export function TagMappingPanel({ mapping, onChange }: TagMappingPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const changedTypes = Object.keys(mapping.types).length;
+
+  const handleTypeChange = (type: TransactionType, tag: string) => {
+    const types = { ...mapping.types };
+    if (tag === DEFAULT_TAGS[type]) {
+      delete types[type];
+    } else {
+      types[type] = tag;
+    }
+    onChange({ ...mapping, types });
+  };
+
+  const handleRuleChange = (id: string, changes: Partial<TagRule>) => {
+    onChange({
+      ...mapping,
+      rules: mapping.rules.map((rule) =>
+        rule.id === id ? { ...rule, ...changes } : rule,
+      ),
+    });
+  };
+
+  const handleAddRule = () => {
+    onChange({
+      ...mapping,
+      rules: [
+        ...mapping.rules,
+        { id: String(Date.now()), contract: "", method: "", tag: "" },
+      ],
+    });
+  };
+
+  const handleRemoveRule = (id: string) => {
+    onChange({
+      ...mapping,
+      rules: mapping.rules.filter((rule) => rule.id !== id),
+    });
+  };
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          <Tags className="w-4 h-4 text-orange-500" />
+          <span className="font-medium text-gray-300">Tag mapping</span>
+          <span className="text-xs text-gray-500">
+            {changedTypes} types changed • {mapping.rules.length} rules
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <datalist id={TAG_LIST_ID}>
+            {KNOWN_TAGS.map((tag) => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+
+          <div>
+            <h3 className="text-sm text-gray-400 mb-2">By transaction type</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {TRANSACTION_TYPES.map((type) => (
+                <label
+                  key={type}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <span className="text-gray-300">{type}</span>
+                  <input
+                    list={TAG_LIST_ID}
+                    value={mapping.types[type] ?? DEFAULT_TAGS[type]}
+                    onChange={(e) => handleTypeChange(type, e.target.value)}
+                    placeholder="no tag"
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm text-gray-400 mb-2">
+              Rules (checked first; contract matches the counterparty or
+              token, method matches text in the memo)
+            </h3>
+            <div className="space-y-2">
+              {mapping.rules.map((rule) => (
+                <div key={rule.id} className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={rule.contract || ""}
+                    onChange={(e) =>
+                      handleRuleChange(rule.id, { contract: e.target.value })
+                    }
+                    placeholder="Contract address"
+                    className={`${inputClass} flex-1 font-mono`}
+                  />
+                  <input
+                    value={rule.method || ""}
+                    onChange={(e) =>
+                      handleRuleChange(rule.id, { method: e.target.value })
+                    }
+                    placeholder="Method"
+                    className={inputClass}
+                  />
+                  <input
+                    list={TAG_LIST_ID}
+                    value={rule.tag}
+                    onChange={(e) =>
+                      handleRuleChange(rule.id, { tag: e.target.value })
+                    }
+                    placeholder="Tag"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => handleRemoveRule(rule.id)}
+                    className="text-gray-500 hover:text-red-400 transition-colors"
+                    title="Remove rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={handleAddRule}
+              className="mt-2 flex items-center text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1 rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" /> Add rule
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
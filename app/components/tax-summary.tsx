@@ -0,0 +1,255 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ChevronDown, Download, FileText, Printer } from "lucide-react";
+import { AssetTotal, ParsedTransaction } from "../types";
+import {
+  buildTaxSummaryHTML,
+  buildTaxSummaryRows,
+  buildTaxYearSummary,
+  getTaxYears,
+} from "../utils/taxSummary";
+import {
+  downloadBlob,
+  downloadCSV,
+  generateCSVContent,
+} from "../utils/csvExport";
+import { formatDisplayAmount } from "../utils/units";
+
+interface TaxSummaryProps {
+  wallets: Array<{ address: string; transactions: ParsedTransaction[] }>;
+  ownAddresses?: string[];
+  timeZone: string; // Zone the year boundaries are taken in
+}
+
+const ALL_WALLETS = "all";
+
+function AssetList({
+  totals,
+  currency,
+}: {
+  totals: AssetTotal[];
+  currency: string;
+}) {
+  if (totals.length === 0) {
+    return <p className="text-sm text-gray-500">None</p>;
+  }
+  return (
+    <ul className="text-sm space-y-1">
+      {totals.map((total) => (
+        <li key={total.currency} className="flex justify-between gap-4">
+          <span className="text-gray-300" title={total.quantity}>
+            {formatDisplayAmount(total.quantity, 6)} {total.currency}
+          </span>
+          <span className="text-gray-400 font-mono">
+            {total.fiatAmount} {currency}
+            {total.unpricedRows > 0 && (
+              <span className="text-yellow-500"> ({total.unpricedRows} unpriced)</span>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Collapsible one-page summary of a tax year per wallet, exportable as CSV
+ * and printable HTML
+ */
+export function TaxSummary({
+  wallets,
+  ownAddresses = [],
+  timeZone,
+}: TaxSummaryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [wallet, setWallet] = useState(ALL_WALLETS);
+  const [year, setYear] = useState<number | null>(null);
+
+  const selected = useMemo(
+    () =>
+      wallet === ALL_WALLETS
+        ? wallets
+        : wallets.filter((w) => w.address === wallet),
+    [wallets, wallet],
+  );
+
+  const years = useMemo(
+    () =>
+      getTaxYears(
+        selected.flatMap((w) => w.transactions),
+        timeZone,
+      ),
+    [selected, timeZone],
+  );
+  const taxYear = year !== null && years.includes(year) ? year : years[0];
+
+  const summary = useMemo(
+    () =>
+      taxYear === undefined
+        ? null
+        : buildTaxYearSummary(selected, taxYear, timeZone, ownAddresses),
+    [selected, taxYear, timeZone, ownAddresses],
+  );
+
+  if (!summary) return null;
+
+  const filename = (extension: string) => {
+    const suffix = summary.address ? `-${summary.address.slice(0, 8)}` : "";
+    return `tax-summary-${summary.year}${suffix}.${extension}`;
+  };
+
+  const handleExportCSV = () => {
+    downloadCSV(
+      generateCSVContent(buildTaxSummaryRows(summary)),
+      filename("csv"),
+    );
+  };
+
+  const handleExportHTML = () => {
+    downloadBlob(
+      new Blob([buildTaxSummaryHTML(summary)], { type: "text/html" }),
+      filename("html"),
+    );
+  };
+
+  const handlePrint = () => {
+    const page = window.open("", "_blank");
+    if (!page) return;
+    page.document.write(buildTaxSummaryHTML(summary));
+    page.document.close();
+    page.focus();
+    page.print();
+  };
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2">
+          <FileText className="w-4 h-4 text-orange-500" />
+          <span className="font-medium text-gray-300">Tax-year summary</span>
+          <span className="text-xs text-gray-500">
+            {summary.year} • {summary.transactionCount} transactions •{" "}
+            {summary.timeZone}
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={summary.year}
+              onChange={(e) => setYear(parseInt(e.target.value, 10))}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-300"
+            >
+              {years.map((y) => (
+                <option key={y} value={y}>
+                  {y}
+                </option>
+              ))}
+            </select>
+            {wallets.length > 1 && (
+              <select
+                value={wallet}
+                onChange={(e) => setWallet(e.target.value)}
+                className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-300"
+              >
+                <option value={ALL_WALLETS}>All wallets</option>
+                {wallets.map((w) => (
+                  <option key={w.address} value={w.address}>
+                    {w.address.slice(0, 10)}...
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={handleExportCSV}
+              className="flex items-center bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1 rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4 mr-2" /> CSV
+            </button>
+            <button
+              onClick={handleExportHTML}
+              className="flex items-center bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1 rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4 mr-2" /> HTML
+            </button>
+            <button
+              onClick={handlePrint}
+              className="flex items-center bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1 rounded-lg transition-colors"
+            >
+              <Printer className="w-4 h-4 mr-2" /> Print
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <h3 className="text-sm text-gray-400 mb-1">Staking income</h3>
+              <AssetList
+                totals={summary.income}
+                currency={summary.fiatCurrency}
+              />
+            </div>
+            <div>
+              <h3 className="text-sm text-gray-400 mb-1">
+                Disposals ({summary.disposalCount})
+              </h3>
+              <AssetList
+                totals={summary.disposals}
+                currency={summary.fiatCurrency}
+              />
+            </div>
+            <div>
+              <h3 className="text-sm text-gray-400 mb-1">Fees</h3>
+              <AssetList totals={summary.fees} currency={summary.fiatCurrency} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <h3 className="text-sm text-gray-400 mb-1">
+                Transactions by type
+              </h3>
+              <ul className="text-sm space-y-1">
+                {Object.entries(summary.countsByType).map(([type, count]) => (
+                  <li key={type} className="flex justify-between">
+                    <span className="text-gray-300">{type}</span>
+                    <span className="text-gray-400">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h3 className="text-sm text-gray-400 mb-1">Top counterparties</h3>
+              {summary.topCounterparties.length === 0 ? (
+                <p className="text-sm text-gray-500">None</p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {summary.topCounterparties.map((c) => (
+                    <li key={c.address} className="flex justify-between gap-4">
+                      <span className="text-gray-300 font-mono truncate">
+                        {c.address}
+                      </span>
+                      <span className="text-gray-400 whitespace-nowrap">
+                        {c.sent} sent • {c.received} received
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
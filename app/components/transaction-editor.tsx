@@ -0,0 +1,242 @@
+"use client";
+
+import React, { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  ParsedTransaction,
+  TransactionOverride,
+  TransactionSplit,
+  TransactionType,
+} from "../types";
+import {
+  KNOWN_TAGS,
+  TRANSACTION_TYPES,
+  getTransactionDiff,
+} from "../utils/labels";
+
+interface TransactionEditorProps {
+  tx: ParsedTransaction; // The transaction as parsed
+  override?: TransactionOverride;
+  tag: string; // Tag the export would use without an edit
+  onSave: (override: TransactionOverride) => void;
+  onCancel: () => void;
+  onDelete?: () => void; // Only for manual rows
+}
+
+const inputClass =
+  "bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-orange-500";
+
+const LEG_FIELDS = ["amount", "currency", "amount2", "currency2"] as const;
+
+/**
+ * Edit with the fields that match the parsed transaction dropped, so an
+ * unchanged amount keeps its fiat value
+ */
+function cleanDraft(
+  tx: ParsedTransaction,
+  draft: TransactionOverride,
+): TransactionOverride {
+  const cleaned: TransactionOverride = { ...draft };
+  for (const field of LEG_FIELDS) {
+    if (cleaned[field] === (tx[field] || "")) delete cleaned[field];
+  }
+  if (cleaned.type === tx.type) delete cleaned.type;
+  cleaned.splits = draft.splits?.filter((s) => s.amount && s.currency);
+  return cleaned;
+}
+
+/**
+ * Inline form for how one transaction is exported: excluded, edited or split
+ * into several rows, with the changes against the parsed transaction
+ */
+export function TransactionEditor({
+  tx,
+  override,
+  tag,
+  onSave,
+  onCancel,
+  onDelete,
+}: TransactionEditorProps) {
+  const [draft, setDraft] = useState<TransactionOverride>(() => ({
+    ...override,
+  }));
+  const diff = getTransactionDiff(tx, cleanDraft(tx, draft));
+  const splits = draft.splits || [];
+
+  const setSplits = (next: TransactionSplit[]) =>
+    setDraft({ ...draft, splits: next });
+
+  const handleAddSplit = () => {
+    const empty = { amount: "", currency: tx.currency };
+    setSplits(
+      splits.length > 0
+        ? [...splits, empty]
+        : [
+            {
+              amount: draft.amount ?? tx.amount,
+              currency: draft.currency ?? tx.currency,
+              amount2: draft.amount2 ?? tx.amount2,
+              currency2: draft.currency2 ?? tx.currency2,
+            },
+            empty,
+          ],
+    );
+  };
+
+  const handleSplitChange = (index: number, changes: Partial<TransactionSplit>) =>
+    setSplits(splits.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={!!draft.excluded}
+            onChange={(e) => setDraft({ ...draft, excluded: e.target.checked })}
+            className="accent-orange-500"
+          />
+          Exclude from export
+        </label>
+        <select
+          value={draft.type || ""}
+          onChange={(e) =>
+            setDraft({
+              ...draft,
+              type: (e.target.value as TransactionType) || undefined,
+            })
+          }
+          className={inputClass}
+        >
+          <option value="">{tx.type} (parsed)</option>
+          {TRANSACTION_TYPES.filter((t) => t !== tx.type).map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <input
+          list="transaction-tags"
+          value={draft.tag ?? ""}
+          onChange={(e) => setDraft({ ...draft, tag: e.target.value })}
+          placeholder={tag || "Tag"}
+          className={inputClass}
+        />
+        <datalist id="transaction-tags">
+          {KNOWN_TAGS.map((t) => (
+            <option key={t} value={t} />
+          ))}
+        </datalist>
+        <input
+          value={draft.notes ?? ""}
+          onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+          placeholder="Notes"
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+        />
+      </div>
+
+      {splits.length === 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {LEG_FIELDS.map((field) => (
+            <input
+              key={field}
+              value={draft[field] ?? tx[field] ?? ""}
+              onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+              placeholder={field}
+              className={`${inputClass} w-32 ${
+                field.startsWith("amount") ? "font-mono" : ""
+              }`}
+            />
+          ))}
+        </div>
+      )}
+
+      {splits.map((split, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-500 w-12">Row {i + 1}</span>
+          <select
+            value={split.type || ""}
+            onChange={(e) =>
+              handleSplitChange(i, {
+                type: (e.target.value as TransactionType) || undefined,
+              })
+            }
+            className={inputClass}
+          >
+            <option value="">{draft.type || tx.type}</option>
+            {TRANSACTION_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+          {LEG_FIELDS.map((field) => (
+            <input
+              key={field}
+              value={split[field] ?? ""}
+              onChange={(e) => handleSplitChange(i, { [field]: e.target.value })}
+              placeholder={field}
+              className={`${inputClass} w-28 ${
+                field.startsWith("amount") ? "font-mono" : ""
+              }`}
+            />
+          ))}
+          <button
+            onClick={() => setSplits(splits.filter((_, j) => j !== i))}
+            className="text-gray-500 hover:text-red-400 transition-colors"
+            title="Remove row"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {diff.length > 0 && (
+        <ul className="text-xs space-y-0.5">
+          {diff.map((d) => (
+            <li key={d.field} className="text-gray-400">
+              {d.field}:{" "}
+              <span className="text-red-400 line-through">{d.original}</span>{" "}
+              → <span className="text-green-400">{d.edited}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onSave(cleanDraft(tx, draft))}
+          className="text-sm bg-orange-600 hover:bg-orange-700 text-white px-3 py-1 rounded-lg transition-colors"
+        >
+          Save
+        </button>
+        <button
+          onClick={handleAddSplit}
+          className="flex items-center text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-1" /> Split row
+        </button>
+        <button
+          onClick={() => onSave({})}
+          className="text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1 rounded-lg transition-colors"
+        >
+          Reset
+        </button>
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="text-sm bg-gray-800 hover:bg-gray-700 text-red-400 px-3 py-1 rounded-lg transition-colors"
+          >
+            Delete manual row
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          className="text-sm text-gray-400 hover:text-white px-2 py-1 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
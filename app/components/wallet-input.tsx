@@ -13,7 +13,8 @@ import {
 } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ChainId } from "../types";
-import { CHAIN_CONFIGS, ENABLED_CHAINS } from "../config/chains";
+import { CHAIN_CONFIGS } from "../config/chains";
+import { getEnabledChains } from "../services/registry";
 
 interface WalletInputProps {
   onSubmit: (address: string) => void;
@@ -68,7 +69,7 @@ export function WalletInput({
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* Chain Selector */}
           <div className="flex gap-2 justify-center flex-wrap">
-            {ENABLED_CHAINS.map((chain) => (
+            {getEnabledChains().map((chain) => (
               <button
                 key={chain.id}
                 type="button"
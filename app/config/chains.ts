@@ -27,8 +27,7 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 6,
     nativeDenom: "uosmo",
     nativeSymbol: "OSMO",
-    enabled: false,
-    description: "Cosmos DEX and DeFi hub (Coming soon)",
+    description: "Cosmos DEX and DeFi hub (via public LCD endpoints)",
   },
   babylon: {
     id: "babylon",
@@ -53,8 +52,7 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 6,
     nativeDenom: "ubbn",
     nativeSymbol: "BABY",
-    enabled: false,
-    description: "Bitcoin staking protocol on Cosmos (Coming soon)",
+    description: "Bitcoin staking protocol on Cosmos (via AllThatNode)",
   },
   // Placeholders for future chains
   near: {
@@ -70,6 +68,7 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     testAddress: "alice.near",
     rpcEndpoints: [
       "https://near-mainnet.g.allthatnode.com/full/json_rpc/edb5b9348fb34b33855da007fcafebae",
+      "https://rpc.mainnet.near.org",
     ],
     apiEndpoints: ["https://api.pikespeak.ai"],
     explorerUrl: "https://nearblocks.io/txns",
@@ -77,8 +76,7 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 24,
     nativeDenom: "",
     nativeSymbol: "NEAR",
-    enabled: false,
-    description: "Scalable L1 blockchain with fast transactions (Coming soon)",
+    description: "Scalable L1 blockchain with fast transactions (via Pikespeak)",
   },
   polkadot: {
     id: "polkadot",
@@ -100,7 +98,6 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 10,
     nativeDenom: "",
     nativeSymbol: "DOT",
-    enabled: false, // Coming soon
     description: "Multi-chain network (Coming soon)",
   },
   celo: {
@@ -121,7 +118,6 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 18,
     nativeDenom: "",
     nativeSymbol: "CELO",
-    enabled: true,
     description: "Mobile-first blockchain for DeFi (via Etherscan v2 API)",
   },
   fantom: {
@@ -142,7 +138,6 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 18,
     nativeDenom: "",
     nativeSymbol: "FTM",
-    enabled: false,
     description: "High-performance EVM chain (Coming soon)",
   },
   flow: {
@@ -165,7 +160,6 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 8,
     nativeDenom: "",
     nativeSymbol: "FLOW",
-    enabled: false, // Coming soon
     description: "NFT and gaming chain (Coming soon)",
   },
   ronin: {
@@ -186,7 +180,6 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 18,
     nativeDenom: "",
     nativeSymbol: "RON",
-    enabled: true,
     description: "Gaming-focused EVM chain (Axie Infinity)",
   },
   celestia: {
@@ -207,7 +200,6 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 6,
     nativeDenom: "utia",
     nativeSymbol: "TIA",
-    enabled: true,
     description: "Data availability layer for modular blockchains",
   },
   tezos: {
@@ -228,15 +220,10 @@ export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
     decimals: 6,
     nativeDenom: "mutez",
     nativeSymbol: "XTZ",
-    enabled: true,
     description: "Self-amending blockchain with on-chain governance (via TzKT API)",
   },
 };
 
-export const ENABLED_CHAINS = Object.values(CHAIN_CONFIGS).filter(
-  (c) => c.enabled,
-);
-
 export function getChainConfig(chainId: ChainId): ChainConfig {
   const config = CHAIN_CONFIGS[chainId];
   if (!config) {
@@ -245,8 +232,4 @@ export function getChainConfig(chainId: ChainId): ChainConfig {
   return config;
 }
 
-export function isChainEnabled(chainId: ChainId): boolean {
-  return CHAIN_CONFIGS[chainId]?.enabled ?? false;
-}
-
-export const DEFAULT_CHAIN: ChainId = "osmosis";
+export const DEFAULT_CHAIN: ChainId = "celo";
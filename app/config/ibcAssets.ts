@@ -0,0 +1,142 @@
+import { ChainId, IbcDenomTrace } from "../types";
+
+// Bundled IBC asset list
+// Traces of the IBC assets most held on each Cosmos chain, so they resolve
+// offline and before any trace lookup. Keyed by the hash of "ibc/<hash>",
+// the SHA-256 of "<path>/<base denom>".
+export const IBC_ASSETS: Partial<Record<ChainId, Record<string, IbcDenomTrace>>> = {
+  osmosis: {
+    "27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2": {
+      path: "transfer/channel-0",
+      baseDenom: "uatom",
+      symbol: "ATOM",
+      decimals: 6,
+    },
+    "498A0751C798A0D9A389AA3691123DADA57DAA4FE165D5C75894505B876BA6E4": {
+      path: "transfer/channel-750",
+      baseDenom: "uusdc",
+      symbol: "USDC",
+      decimals: 6,
+    },
+    D189335C6E4A68B513C10AB227BF1C1D38C746766278BA3EEB4FB14124F1D858: {
+      path: "transfer/channel-208",
+      baseDenom: "uusdc",
+      symbol: "USDC.axl",
+      decimals: 6,
+    },
+    "4ABBEF4C8926DDDB320AE5188CFD63267ABBCEFC0583E4AE05D6E5AA2401DDAB": {
+      path: "transfer/channel-143",
+      baseDenom: "erc20/tether/usdt",
+      symbol: "USDT",
+      decimals: 6,
+    },
+    D79E7D83AB399BFFF93433E54FAA480C191248FC556924A2A8351AE2638B3877: {
+      path: "transfer/channel-6994",
+      baseDenom: "utia",
+      symbol: "TIA",
+      decimals: 6,
+    },
+    EA1D43981D5C9A1C4AAEA9C23BB1D4FA126BA9BC7020A25E0AE4AA841EA25DC5: {
+      path: "transfer/channel-208",
+      baseDenom: "weth-wei",
+      symbol: "WETH.axl",
+      decimals: 18,
+    },
+    D1542AA8762DB13087D8364F3EA6509FD6F009A34F00426AF9E4F9FA85CBBF1F: {
+      path: "transfer/channel-208",
+      baseDenom: "wbtc-satoshi",
+      symbol: "WBTC.axl",
+      decimals: 8,
+    },
+    "0CD3A0285E1341859B5E86B6AB7682F023D03E97607CCC1DC95706411D866DF7": {
+      path: "transfer/channel-208",
+      baseDenom: "dai-wei",
+      symbol: "DAI.axl",
+      decimals: 18,
+    },
+    "64BA6E31FE887D66C6F8F31C7B1A80C7CA179239677B4088BB55F5EA07DBE273": {
+      path: "transfer/channel-122",
+      baseDenom: "inj",
+      symbol: "INJ",
+      decimals: 18,
+    },
+    "831F0B1BBB1D08A2B75311892876D71565478C532967545476DF4C2D7492E48C": {
+      path: "transfer/channel-6787",
+      baseDenom: "adydx",
+      symbol: "DYDX",
+      decimals: 18,
+    },
+    "6AE98883D4D5D5FF9E50D7130F1305DA2FFA0C652D1DD9C123657C6B4EB2DF8A": {
+      path: "transfer/channel-204",
+      baseDenom: "aevmos",
+      symbol: "EVMOS",
+      decimals: 18,
+    },
+    E6931F78057F7CC5DA0FD6CEF82FF39373A6E0452BF1FD76910B93292CF356C1: {
+      path: "transfer/channel-5",
+      baseDenom: "basecro",
+      symbol: "CRO",
+      decimals: 8,
+    },
+    C140AFD542AE77BD7DCC83F13FDD8C5E5BB8C4929785E6EC2F4C636F98F17901: {
+      path: "transfer/channel-326",
+      baseDenom: "stuatom",
+      symbol: "stATOM",
+      decimals: 6,
+    },
+    A8CA5EE328FA10C9519DF6057DA1F69682D28F7D0F5CCC7ECB72E3DCA2D157A4: {
+      path: "transfer/channel-326",
+      baseDenom: "ustrd",
+      symbol: "STRD",
+      decimals: 6,
+    },
+    "46B44899322F3CD854D2D46DEEF881958467CDD4B3B10086DA49296BBED94BED": {
+      path: "transfer/channel-42",
+      baseDenom: "ujuno",
+      symbol: "JUNO",
+      decimals: 6,
+    },
+    "987C17B11ABC2B20019178ACE62929FE9840202CE79498E29FE8E5CB02B7C0A4": {
+      path: "transfer/channel-75",
+      baseDenom: "ustars",
+      symbol: "STARS",
+      decimals: 6,
+    },
+    "1480B8FD20AD5FCAE81EA87584D269547DD4D436843C1D20F15E00EB64743EF4": {
+      path: "transfer/channel-1",
+      baseDenom: "uakt",
+      symbol: "AKT",
+      decimals: 6,
+    },
+    "0954E1C28EB7AF5B72D24F3BC2B47BBB2FDF91BDDFD57B74B99E133AED40972A": {
+      path: "transfer/channel-88",
+      baseDenom: "uscrt",
+      symbol: "SCRT",
+      decimals: 6,
+    },
+    BB6BCDB515050BAE97516111873CCD7BCF1FD0CCB723CC12F3C4F704D6C646CE: {
+      path: "transfer/channel-259",
+      baseDenom: "ukuji",
+      symbol: "KUJI",
+      decimals: 6,
+    },
+    "126DA09104B71B164883842B769C0E9EC1486C0887D27A9999E395C2C8FB5682": {
+      path: "transfer/channel-874",
+      baseDenom: "untrn",
+      symbol: "NTRN",
+      decimals: 6,
+    },
+    BE1BB42D4BE3C30D50B68D7C41DB4DFCE9678E8EF8C539F6E6A9345048894FCC: {
+      path: "transfer/channel-72",
+      baseDenom: "uusd",
+      symbol: "USTC",
+      decimals: 6,
+    },
+    "0EF15DF2F02480ADE0BB6E85D9EBB5DAEA2836D3860E9F97F9AADE4F57A31AA0": {
+      path: "transfer/channel-72",
+      baseDenom: "uluna",
+      symbol: "LUNC",
+      decimals: 6,
+    },
+  },
+};
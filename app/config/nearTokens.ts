@@ -0,0 +1,25 @@
+import { NearTokenMetadata } from "../types";
+
+// Bundled NEAR token list
+// ft_metadata of the NEP-141 tokens most held on NEAR, so they resolve
+// offline and before any RPC lookup. Keyed by token contract.
+export const NEAR_TOKENS: Record<string, NearTokenMetadata> = {
+  "wrap.near": { symbol: "wNEAR", decimals: 24 },
+  "usdt.tether-token.near": { symbol: "USDt", decimals: 6 },
+  "17208628f84f5d6ad33f0da3bbbeb27ffcb398eac501a31bd6ad2011e36133a1": {
+    symbol: "USDC",
+    decimals: 6,
+  },
+  "a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.factory.bridge.near": {
+    symbol: "USDC.e",
+    decimals: 6,
+  },
+  "dac17f958d2ee523a2206206994597c13d831ec7.factory.bridge.near": {
+    symbol: "USDT.e",
+    decimals: 6,
+  },
+  "meta-pool.near": { symbol: "STNEAR", decimals: 24 },
+  "linear-protocol.near": { symbol: "LiNEAR", decimals: 24 },
+  "token.v2.ref-finance.near": { symbol: "REF", decimals: 18 },
+  aurora: { symbol: "ETH", decimals: 18 },
+};
@@ -11,6 +11,7 @@ export type ApiKeyConfig = {
   flow?: string; // AllThatNode API key
   polkadot?: string; // AllThatNode API key
   mintscan?: string; // Mintscan API key
+  coingecko?: string; // CoinGecko API key
 };
 
 const STORAGE_KEY = "custom-api-keys";
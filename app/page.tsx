@@ -12,87 +12,144 @@ import {
   Check,
   ExternalLink,
   AlertCircle,
+  AlertTriangle,
+  RotateCw,
+  FileArchive,
+  Pencil,
+  ShieldAlert,
 } from "lucide-react";
-import {
-  fetchAllTransactionsClientSide as fetchCeloTransactions,
-  parseTransaction as parseCeloTransaction,
-  isValidCeloAddress,
-} from "./services/celo-client";
-import {
-  fetchAllTransactionsClientSide as fetchRoninTransactions,
-  parseTransaction as parseRoninTransaction,
-  isValidRoninAddress,
-} from "./services/ronin-client";
-import {
-  fetchAllTransactionsClientSide as fetchCelestiaTransactions,
-  parseTransaction as parseCelestiaTransaction,
-  isValidCelestiaAddress,
-} from "./services/celestia-client";
-import {
-  fetchAllTransactionsClientSide as fetchTezosTransactions,
-  parseTransaction as parseTezosTransaction,
-  isValidTezosAddress,
-} from "./services/tezos-client";
 import {
   convertToAwakenCSV,
   generateCSVContent,
   downloadCSV,
+  downloadBlob,
+  generateFilename,
 } from "./utils/csvExport";
-import { ParsedTransaction, ChainConfig } from "./types";
-import { CHAIN_CONFIGS, ENABLED_CHAINS } from "./config/chains";
+import {
+  AwakenTaxRow,
+  ParsedTransaction,
+  RealizedGain,
+  SpamLists,
+  TagMapping,
+  TransactionOverride,
+  ChainAdapter,
+  ChainId,
+  FetchMetadata,
+  PortfolioWallet,
+  WalletResult,
+} from "./types";
+import { CHAIN_CONFIGS, DEFAULT_CHAIN } from "./config/chains";
+import {
+  getChainAdapter,
+  getEnabledChains,
+  getComingSoonChains,
+} from "./services/registry";
 import { ApiKeyManager } from "./components/api-key-manager";
+import { FetchSummary } from "./components/fetch-summary";
+import { CachedWallets } from "./components/cached-wallets";
+import { PortfolioPanel } from "./components/portfolio-panel";
+import { FeeReport } from "./components/fee-report";
+import { RealizedGains } from "./components/realized-gains";
+import { TaxSummary } from "./components/tax-summary";
+import { PriceTable } from "./components/price-table";
+import { TagMappingPanel } from "./components/tag-mapping";
+import { TransactionEditor } from "./components/transaction-editor";
+import { ManualTransactionForm } from "./components/manual-transaction";
+import { EditHistory } from "./components/edit-history";
+import { SpamFilter } from "./components/spam-filter";
+import {
+  getResumeCursor,
+  mergeResumedMetadata,
+  mergeSyncedMetadata,
+} from "./utils/fetchMetadata";
+import {
+  clearCheckpoint,
+  loadCheckpoint,
+  saveCheckpointUpdate,
+} from "./utils/checkpoints";
+import {
+  loadStoredWallet,
+  mergeStoredTransactions,
+  saveStoredWallet,
+} from "./utils/transactionStore";
+import {
+  buildCombinedCSV,
+  buildPortfolioRows,
+  buildPortfolioZip,
+  getPortfolioWallets,
+  getWalletFilename,
+  isPortfolioIncomplete,
+  isSameWallet,
+  savePortfolioWallets,
+} from "./utils/portfolio";
+import { buildFeeReport } from "./utils/fees";
+import { formatDisplayAmount } from "./utils/units";
+import { filterByDateRange, parseDateRange } from "./utils/dateRange";
+import {
+  appendEditLog,
+  applyTransactionEdits,
+  describeEdit,
+  getEditLog,
+  getManualTransactions,
+  getManualWalletKey,
+  getRowKey,
+  getTag,
+  getTagMapping,
+  getTransactionKey,
+  getTransactionOverrides,
+  migrateTransactionOverrides,
+  numberLegs,
+  saveManualTransactions,
+  saveTagMapping,
+  saveTransactionOverrides,
+  setTransactionOverride,
+  withManualTransactions,
+} from "./utils/labels";
+import { getExtraMovements } from "./utils/movements";
+import {
+  formatDateTime,
+  getTimeZone,
+  getTimeZones,
+  saveTimeZone,
+} from "./utils/timeZone";
+import {
+  getFiatTotals,
+  priceTransactionOverride,
+  priceTransactions,
+} from "./utils/pricing";
+import {
+  SPAM_REASONS,
+  classifySpam,
+  getSpamLists,
+  getSpamTokenId,
+  markToken,
+  removeSpam,
+  saveSpamLists,
+} from "./utils/spam";
 import { useApiKeys } from "./hooks/useApiKeys";
 
-// Chain handlers mapping
-const chainHandlers: Record<
-  string,
-  {
-    fetch: (
-      address: string,
-      onProgress?: (count: number, page?: number) => void
-    ) => Promise<{ transactions: any[]; metadata: any }>;
-    parse: (tx: any, address: string) => ParsedTransaction;
-    isValid: (address: string) => boolean;
-    attribution: { name: string; url: string };
-  }
-> = {
-  celo: {
-    fetch: fetchCeloTransactions,
-    parse: parseCeloTransaction,
-    isValid: isValidCeloAddress,
-    attribution: { name: "Etherscan.io", url: "https://etherscan.io" },
-  },
-  ronin: {
-    fetch: fetchRoninTransactions,
-    parse: parseRoninTransaction,
-    isValid: isValidRoninAddress,
-    attribution: { name: "GoldRush (Covalent)", url: "https://goldrush.dev" },
-  },
-  celestia: {
-    fetch: fetchCelestiaTransactions,
-    parse: parseCelestiaTransaction,
-    isValid: isValidCelestiaAddress,
-    attribution: { name: "Celenium", url: "https://celenium.io" },
-  },
-  tezos: {
-    fetch: fetchTezosTransactions,
-    parse: parseTezosTransaction,
-    isValid: isValidTezosAddress,
-    attribution: { name: "TzKT", url: "https://tzkt.io" },
-  },
-};
-
 // Types for sorting and filtering
 type SortField = "date" | "type" | "amount" | "currency";
 type SortDirection = "asc" | "desc";
 type TransactionFilter = "all" | ParsedTransaction["type"];
 
+// Append resumed transactions, dropping rows already present (a resumed
+// source may re-fetch its boundary page); rows are matched by identity since
+// the existing ones are priced and the resumed ones not yet
+function mergeParsedTransactions(
+  existing: ParsedTransaction[],
+  resumed: ParsedTransaction[],
+): ParsedTransaction[] {
+  const seen = new Set(existing.map(getRowKey));
+  return [...existing, ...resumed.filter((tx) => !seen.has(getRowKey(tx)))];
+}
+
 export default function Home() {
   // API Keys management
   const { getApiKey } = useApiKeys();
 
   // UI State
-  const [selectedChain, setSelectedChain] = useState("celo");
+  const [selectedChain, setSelectedChain] = useState<ChainId>(DEFAULT_CHAIN);
   const [address, setAddress] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState({
@@ -101,7 +158,23 @@ export default function Home() {
   });
   const [transactions, setTransactions] = useState<ParsedTransaction[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [metadata, setMetadata] = useState<any>(null);
+  const [metadata, setMetadata] = useState<FetchMetadata | null>(null);
+  const [rawTransactions, setRawTransactions] = useState<unknown[]>([]);
+  const [checkpointDate, setCheckpointDate] = useState<string | null>(null);
+
+  // Portfolio State - walletResults is empty unless a portfolio is shown
+  const [portfolioWallets, setPortfolioWallets] = useState<PortfolioWallet[]>(
+    () => getPortfolioWallets(),
+  );
+  const [walletResults, setWalletResults] = useState<WalletResult[]>([]);
+  const [portfolioProgress, setPortfolioProgress] = useState<{
+    index: number;
+    wallet: PortfolioWallet;
+  } | null>(null);
+  const [chainFilter, setChainFilter] = useState<ChainId | "all">("all");
+  // Rounding of amounts in the table only; exports keep full precision
+  const [displayDecimals, setDisplayDecimals] = useState<number | null>(6);
+  const isPortfolio = walletResults.length > 0;
   const [showResults, setShowResults] = useState(false);
   const [copiedTestAddress, setCopiedTestAddress] = useState(false);
 
@@ -110,13 +183,116 @@ export default function Home() {
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
   const [filter, setFilter] = useState<TransactionFilter>("all");
   const [searchQuery, setSearchQuery] = useState("");
+  // Awaken tags per type and rule, edits of single transactions and rows
+  // added by hand, all applied on export, with the audit trail of the edits
+  const [tagMapping, setTagMapping] = useState(() => getTagMapping());
+  const [overrides, setOverrides] = useState(() => getTransactionOverrides());
+  const [manualTransactions, setManualTransactions] = useState(() =>
+    getManualTransactions(),
+  );
+  const [editLog, setEditLog] = useState(() => getEditLog());
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  // Allow and deny lists of the spam filter; spam rows are hidden unless shown
+  const [spamLists, setSpamLists] = useState(() => getSpamLists());
+  const [showSpam, setShowSpam] = useState(false);
+  // IANA zone of the table, the exported dates and the date range days
+  const [timeZone, setTimeZone] = useState(() => getTimeZone());
+  const timeZones = useMemo(() => getTimeZones(), []);
+  // Date range (YYYY-MM-DD) pushed into the fetch and applied to the table
+  // and every export
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const dateRange = useMemo(
+    () => parseDateRange(dateFrom, dateTo, timeZone),
+    [dateFrom, dateTo, timeZone],
+  );
+
+  // Loaded rows followed by the manual rows of each wallet
+  const manualResults = useMemo(
+    () =>
+      walletResults.map((result) => ({
+        ...result,
+        transactions: withManualTransactions(
+          result.transactions,
+          manualTransactions,
+          result.chain,
+          result.address,
+        ),
+      })),
+    [walletResults, manualTransactions],
+  );
+  const walletTransactions = useMemo(
+    () =>
+      isPortfolio
+        ? manualResults.flatMap((result) => result.transactions)
+        : withManualTransactions(
+            transactions,
+            manualTransactions,
+            selectedChain,
+            address,
+          ),
+    [
+      isPortfolio,
+      manualResults,
+      transactions,
+      manualTransactions,
+      selectedChain,
+      address,
+    ],
+  );
+
+  // Spam rows of each wallet, hidden from the table unless shown and left
+  // out of every export
+  const spam = useMemo(() => {
+    const wallets = isPortfolio
+      ? manualResults
+      : [{ address, transactions: walletTransactions }];
+    return new Map(
+      wallets.flatMap((wallet) =>
+        Array.from(
+          classifySpam(wallet.transactions, wallet.address, spamLists),
+        ),
+      ),
+    );
+  }, [isPortfolio, manualResults, address, walletTransactions, spamLists]);
+  const cleanResults = useMemo(
+    () =>
+      manualResults.map((result) => ({
+        ...result,
+        transactions: removeSpam(result.transactions, spam),
+      })),
+    [manualResults, spam],
+  );
+  const cleanTransactions = useMemo(
+    () => removeSpam(walletTransactions, spam),
+    [walletTransactions, spam],
+  );
+
+  // Rows inside the date range, per wallet and merged
+  const rangeResults = useMemo(
+    () =>
+      cleanResults.map((result) => ({
+        ...result,
+        transactions: filterByDateRange(result.transactions, dateRange),
+      })),
+    [cleanResults, dateRange],
+  );
+  const rangeTransactions = useMemo(
+    () => filterByDateRange(cleanTransactions, dateRange),
+    [cleanTransactions, dateRange],
+  );
+  const tableTransactions = useMemo(
+    () =>
+      showSpam ? filterByDateRange(walletTransactions, dateRange) : rangeTransactions,
+    [showSpam, walletTransactions, dateRange, rangeTransactions],
+  );
 
   // Dropdown state
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
   // Current chain config
-  const currentChain = CHAIN_CONFIGS[selectedChain as keyof typeof CHAIN_CONFIGS];
-  const handler = chainHandlers[selectedChain];
+  const currentChain = CHAIN_CONFIGS[selectedChain];
+  const adapter = getChainAdapter(selectedChain);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -139,12 +315,15 @@ export default function Home() {
 
   // Filter and sort transactions
   const processedTransactions = useMemo(() => {
-    let filtered = transactions;
+    let filtered = tableTransactions;
 
     // Apply filter
     if (filter !== "all") {
       filtered = filtered.filter((tx) => tx.type === filter);
     }
+    if (chainFilter !== "all") {
+      filtered = filtered.filter((tx) => tx.chain === chainFilter);
+    }
 
     // Apply search
     if (searchQuery) {
@@ -185,7 +364,7 @@ export default function Home() {
     });
 
     return sorted;
-  }, [transactions, filter, searchQuery, sortField, sortDirection]);
+  }, [tableTransactions, filter, chainFilter, searchQuery, sortField, sortDirection]);
 
   // Paginated transactions for display (only show current page)
   const paginatedTransactions = useMemo(() => {
@@ -197,6 +376,64 @@ export default function Home() {
   // Total pages calculation
   const totalPages = Math.ceil(processedTransactions.length / itemsPerPage);
 
+  // Rows of the export with their source transactions, for the totals
+  const exportRows = useMemo(() => {
+    if (isPortfolio) return buildPortfolioRows(rangeResults);
+    const edited = applyTransactionEdits(rangeTransactions, overrides);
+    const rows = convertToAwakenCSV(edited, address, "standard", {
+      ownAddresses: portfolioWallets.map((w) => w.address),
+      timeZone,
+      tagMapping,
+      overrides,
+    }) as AwakenTaxRow[];
+    return { transactions: edited, rows };
+    // Portfolio rows read the saved mapping and edits, saved on every change
+  }, [
+    isPortfolio,
+    rangeResults,
+    rangeTransactions,
+    address,
+    portfolioWallets,
+    timeZone,
+    tagMapping,
+    overrides,
+  ]);
+
+  // Fee totals of the export, checked against one fee per hash
+  const feeReport = useMemo(
+    () =>
+      buildFeeReport(
+        exportRows.transactions,
+        exportRows.rows,
+        isPortfolio ? portfolioWallets.map((w) => w.address) : [address],
+      ),
+    [exportRows, isPortfolio, portfolioWallets, address],
+  );
+
+  const ownAddresses = useMemo(
+    () => portfolioWallets.map((w) => w.address),
+    [portfolioWallets],
+  );
+
+  // Wallets the cost-basis engine pools lots across, as edited
+  const gainsWallets = useMemo(
+    () =>
+      (isPortfolio
+        ? cleanResults
+        : [{ address, transactions: cleanTransactions }]
+      ).map((wallet) => ({
+        address: wallet.address,
+        transactions: applyTransactionEdits(wallet.transactions, overrides),
+      })),
+    [isPortfolio, cleanResults, address, cleanTransactions, overrides],
+  );
+
+  // Fiat value of the export in the currency it was priced in
+  const fiatTotals = useMemo(
+    () => getFiatTotals(exportRows.transactions, exportRows.rows),
+    [exportRows],
+  );
+
   // Reset to page 1 when filters/sorting change
   useEffect(() => {
     setCurrentPage(1);
@@ -210,39 +447,159 @@ export default function Home() {
       setSortField(field);
       setSortDirection("desc");
     }
-  }; const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!handler || isLoading) return;
+  };
+
+  // Parse raw adapter output, skipping transactions the parser chokes on
+  const parseTransactions = (
+    chainAdapter: ChainAdapter<unknown>,
+    raw: unknown[],
+    walletAddress: string,
+  ): ParsedTransaction[] => {
+    const parsed = raw
+      .map((tx) => {
+        try {
+          return chainAdapter.parseTransaction(tx, walletAddress);
+        } catch (parseErr) {
+          console.error("[Dashboard] Error parsing transaction:", parseErr, tx);
+          return null;
+        }
+      })
+      .filter((tx): tx is ParsedTransaction => tx !== null && tx !== undefined);
+    return numberLegs(parsed);
+  };
+
+  // Move edits saved under the earlier row keys to the current keys of the
+  // loaded and manual rows
+  const migrateOverrides = (loaded: ParsedTransaction[]) => {
+    const saved = getTransactionOverrides();
+    const migrated = migrateTransactionOverrides(saved, [
+      ...loaded,
+      ...Object.values(manualTransactions).flat(),
+    ]);
+    if (migrated === saved) return;
+    setOverrides(migrated);
+    saveTransactionOverrides(migrated);
+  };
+
+  // Cache a complete history so the next fetch of this wallet only asks the
+  // API for newer transactions
+  const storeHistory = async (
+    chainAdapter: ChainAdapter<unknown>,
+    raw: unknown[],
+    parsed: ParsedTransaction[],
+    meta: FetchMetadata,
+  ) => {
+    if (meta.truncated || !meta.syncCursor) return;
+    await saveStoredWallet({
+      chain: meta.chain,
+      address: meta.address,
+      adapterVersion: chainAdapter.version,
+      syncCursor: meta.syncCursor,
+      transactions: raw,
+      parsed,
+    });
+  };
+
+  // Fetch and parse a wallet, continuing an interrupted fetch and only asking
+  // for transactions newer than the cached history unless forceRefresh is set
+  const loadWallet = async (
+    chainAdapter: ChainAdapter<unknown>,
+    chainId: ChainId,
+    addr: string,
+    forceRefresh = false,
+  ): Promise<{
+    raw: unknown[];
+    parsed: ParsedTransaction[];
+    metadata: FetchMetadata;
+  }> => {
+    if (!chainAdapter.isValidAddress(addr)) {
+      const chainConfig = CHAIN_CONFIGS[chainId];
+      throw new Error(
+        `Invalid address format for ${chainConfig?.name}. Expected format: ${chainConfig?.addressPrefix}...`
+      );
+    }
+
+    // Continue an interrupted fetch of this wallet instead of starting over
+    if (forceRefresh) {
+      await clearCheckpoint(chainId, addr);
+    }
+
+    // A cached wallet only needs the transactions after its sync cursor
+    const stored = forceRefresh
+      ? null
+      : await loadStoredWallet(chainId, addr, chainAdapter.version);
+
+    // Without a cached history a date range is pushed into the API where the
+    // adapter supports it; that partial fetch is neither checkpointed nor
+    // cached as the full history
+    const partial = !stored && !!dateRange && !!chainAdapter.supportsDateRange;
+    const checkpoint = partial ? null : await loadCheckpoint(chainId, addr);
+    setCheckpointDate(checkpoint?.updatedAt ?? null);
+
+    const result = await chainAdapter.fetchTransactions(addr, {
+      onProgress: (count, page) => {
+        setLoadingProgress({ count, page: page || 1 });
+      },
+      checkpoint: checkpoint ?? undefined,
+      onCheckpoint: partial
+        ? undefined
+        : (update) => saveCheckpointUpdate(chainId, addr, update),
+      since: stored?.syncCursor,
+      dateRange: partial ? dateRange : undefined,
+    });
+    // A truncated fetch keeps its checkpoint, the cursors to continue from
+    if (!partial && !result.metadata.truncated) {
+      await clearCheckpoint(chainId, addr);
+    }
+
+    const fetched = parseTransactions(chainAdapter, result.transactions, addr);
+    let raw = result.transactions;
+    let parsed = fetched;
+    let fetchMetadata = result.metadata;
+    if (stored) {
+      const merged = mergeStoredTransactions(raw, stored.transactions);
+      raw = merged.transactions;
+      // Histories cached before rows had legs get them here
+      parsed = mergeStoredTransactions(
+        fetched,
+        numberLegs(stored.parsed),
+      ).transactions;
+      fetchMetadata = mergeSyncedMetadata(fetchMetadata, parsed, merged.added);
+    }
+    await storeHistory(chainAdapter, raw, parsed, fetchMetadata);
+
+    return { raw, parsed, metadata: fetchMetadata };
+  };
+
+  // Show a single wallet
+  const fetchWallet = async (
+    chainId: ChainId,
+    addr: string,
+    forceRefresh = false,
+  ) => {
+    const chainAdapter = getChainAdapter(chainId);
+    if (!chainAdapter || isLoading) return;
 
     setIsLoading(true);
     setError(null);
     setTransactions([]);
+    setRawTransactions([]);
+    setWalletResults([]);
     setLoadingProgress({ count: 0, page: 1 });
     setShowResults(true);
 
     try {
-      if (!handler.isValid(address.trim())) {
-        throw new Error(
-          `Invalid address format for ${currentChain?.name}. Expected format: ${currentChain?.addressPrefix}...`
-        );
-      }
+      const { raw, parsed, metadata: fetchMetadata } = await loadWallet(
+        chainAdapter,
+        chainId,
+        addr,
+        forceRefresh,
+      );
 
-      const result = await handler.fetch(address.trim(), (count, page) => {
-        setLoadingProgress({ count, page: page || 1 });
-      });
-
-      setMetadata(result.metadata);
-      const parsed = result.transactions
-        .map((tx: any) => {
-          try {
-            return handler.parse(tx, address.trim());
-          } catch (parseErr) {
-            console.error("[Dashboard] Error parsing transaction:", parseErr, tx);
-            return null;
-          }
-        })
-        .filter((tx): tx is ParsedTransaction => tx !== null && tx !== undefined);
-      setTransactions(parsed);
+      setRawTransactions(raw);
+      setMetadata(fetchMetadata);
+      setTransactions(await priceTransactions(parsed));
+      migrateOverrides(parsed);
 
       if (parsed.length === 0) {
         setError("No transactions found for this address.");
@@ -252,25 +609,278 @@ export default function Home() {
     } finally {
       setIsLoading(false);
       setLoadingProgress({ count: 0, page: 1 });
+      setCheckpointDate(null);
+    }
+  };
+
+  // Fetch every portfolio wallet one after another into one merged table
+  // A failing wallet is reported but does not stop the others
+  const fetchPortfolio = async () => {
+    if (isLoading || portfolioWallets.length === 0) return;
+
+    setIsLoading(true);
+    setError(null);
+    setTransactions([]);
+    setRawTransactions([]);
+    setMetadata(null);
+    setWalletResults([]);
+    setShowResults(true);
+
+    const results: WalletResult[] = [];
+    try {
+      for (let i = 0; i < portfolioWallets.length; i++) {
+        const wallet = portfolioWallets[i];
+        setPortfolioProgress({ index: i + 1, wallet });
+        setLoadingProgress({ count: 0, page: 1 });
+
+        try {
+          const chainAdapter = getChainAdapter(wallet.chain);
+          if (!chainAdapter) {
+            throw new Error(`${wallet.chain} is not supported`);
+          }
+          const loaded = await loadWallet(
+            chainAdapter,
+            wallet.chain,
+            wallet.address,
+          );
+          results.push({
+            ...wallet,
+            transactions: await priceTransactions(loaded.parsed),
+            metadata: loaded.metadata,
+          });
+        } catch (err: unknown) {
+          console.error(`[Portfolio] Error fetching ${wallet.chain} ${wallet.address}:`, err);
+          results.push({
+            ...wallet,
+            transactions: [],
+            metadata: null,
+            error: err instanceof Error ? err.message : "Failed to fetch transactions",
+          });
+        }
+      }
+
+      const merged = results.flatMap((r) => r.transactions);
+      setWalletResults(results);
+      setTransactions(merged);
+      migrateOverrides(merged);
+      if (merged.length === 0) {
+        setError("No transactions found for any portfolio wallet.");
+      }
+    } finally {
+      setIsLoading(false);
+      setLoadingProgress({ count: 0, page: 1 });
+      setCheckpointDate(null);
+      setPortfolioProgress(null);
     }
   };
 
+  const handleAddToPortfolio = () => {
+    const wallet = { chain: selectedChain, address: address.trim() };
+    const wallets = [...portfolioWallets, wallet];
+    setPortfolioWallets(wallets);
+    savePortfolioWallets(wallets);
+  };
+
+  const handleRemoveFromPortfolio = (wallet: PortfolioWallet) => {
+    const wallets = portfolioWallets.filter((w) => !isSameWallet(w, wallet));
+    setPortfolioWallets(wallets);
+    savePortfolioWallets(wallets);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await fetchWallet(selectedChain, address.trim());
+  };
+
+  // Fetch a cached wallet from scratch after its cache entry was purged
+  const handleRefreshWallet = async (chainId: ChainId, addr: string) => {
+    setSelectedChain(chainId);
+    setAddress(addr);
+    await fetchWallet(chainId, addr, true);
+  };
+
+  // Continue a truncated fetch from the cursors of its truncated sources
+  const handleResume = async () => {
+    if (!adapter || !metadata || isLoading) return;
+    const resumeFrom = getResumeCursor(metadata);
+    if (!resumeFrom) return;
+
+    setIsLoading(true);
+    setError(null);
+    setLoadingProgress({ count: 0, page: 1 });
+
+    try {
+      const result = await adapter.fetchTransactions(address.trim(), {
+        onProgress: (count, page) => {
+          setLoadingProgress({ count, page: page || 1 });
+        },
+        resumeFrom,
+        since: metadata.since,
+        dateRange: metadata.dateRange,
+      });
+
+      const merged = mergeParsedTransactions(
+        transactions,
+        parseTransactions(adapter, result.transactions, address.trim()),
+      );
+      const raw = mergeStoredTransactions(
+        result.transactions,
+        rawTransactions,
+      ).transactions;
+      const resumedMetadata = mergeResumedMetadata(
+        metadata,
+        result.metadata,
+        merged,
+      );
+      await storeHistory(adapter, raw, merged, resumedMetadata);
+      if (!resumedMetadata.truncated) {
+        await clearCheckpoint(selectedChain, address.trim());
+      }
+
+      setRawTransactions(raw);
+      setTransactions(await priceTransactions(merged));
+      setMetadata(resumedMetadata);
+      migrateOverrides(merged);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to resume fetch");
+    } finally {
+      setIsLoading(false);
+      setLoadingProgress({ count: 0, page: 1 });
+    }
+  };
+
+  const handleTimeZoneChange = (zone: string) => {
+    setTimeZone(zone);
+    saveTimeZone(zone);
+  };
+
+  const handleTagMappingChange = (mapping: TagMapping) => {
+    setTagMapping(mapping);
+    saveTagMapping(mapping);
+  };
+
+  const handleSaveOverride = async (
+    tx: ParsedTransaction,
+    edit: TransactionOverride,
+  ) => {
+    const key = getTransactionKey(tx);
+    const override = await priceTransactionOverride(tx, edit);
+    const next = setTransactionOverride(overrides, key, override);
+    if (JSON.stringify(next[key]) !== JSON.stringify(overrides[key])) {
+      setEditLog(appendEditLog(describeEdit(tx, overrides[key], next[key])));
+    }
+    setOverrides(next);
+    saveTransactionOverrides(next);
+    setEditingKey(null);
+  };
+
+  const handleSpamListsChange = (lists: SpamLists) => {
+    setSpamLists(lists);
+    saveSpamLists(lists);
+  };
+
+  const handleMarkSpam = (tx: ParsedTransaction, isSpam: boolean) =>
+    handleSpamListsChange(markToken(spamLists, getSpamTokenId(tx), isSpam));
+
+  const saveManual = (next: Record<string, ParsedTransaction[]>) => {
+    setManualTransactions(next);
+    saveManualTransactions(next);
+  };
+
+  const handleAddManual = async (
+    wallet: PortfolioWallet,
+    row: ParsedTransaction,
+  ) => {
+    const walletKey = getManualWalletKey(wallet.chain, wallet.address);
+    // Priced once, by the symbol entered
+    const [tx] = await priceTransactions([row]);
+    saveManual({
+      ...manualTransactions,
+      [walletKey]: [...(manualTransactions[walletKey] || []), tx],
+    });
+    setEditLog(
+      appendEditLog({
+        key: getTransactionKey(tx),
+        action: "add",
+        detail: `${tx.type} ${tx.amount} ${tx.currency}`,
+      }),
+    );
+  };
+
+  const handleDeleteManual = (tx: ParsedTransaction) => {
+    const next: Record<string, ParsedTransaction[]> = {};
+    for (const [walletKey, rows] of Object.entries(manualTransactions)) {
+      next[walletKey] = rows.filter((row) => row.hash !== tx.hash);
+    }
+    saveManual(next);
+    setEditLog(
+      appendEditLog({
+        key: getTransactionKey(tx),
+        action: "remove",
+        detail: `${tx.type} ${tx.amount} ${tx.currency}`,
+      }),
+    );
+    setEditingKey(null);
+  };
+
   const handleExportCSV = () => {
-    if (transactions.length === 0) return;
-    const csvRows = convertToAwakenCSV(transactions, address, "standard");
+    if (rangeTransactions.length === 0) return;
+    // Transfers to the user's portfolio wallets keep their cost basis
+    const csvRows = convertToAwakenCSV(rangeTransactions, address, "standard", {
+      fetchMetadata: metadata ?? undefined,
+      ownAddresses: portfolioWallets.map((w) => w.address),
+      timeZone,
+      tagMapping,
+      overrides,
+    });
     const csvContent = generateCSVContent(csvRows);
-    const filename = `${selectedChain}-transactions-${address.slice(
-      0,
-      8
-    )}-${new Date().toISOString().split("T")[0]}.csv`;
-    downloadCSV(csvContent, filename);
+    downloadCSV(
+      csvContent,
+      getWalletFilename(selectedChain, address, metadata?.truncated),
+    );
+  };
+
+  const handleExportTradingCSV = (realizedGains: RealizedGain[]) => {
+    if (rangeTransactions.length === 0) return;
+    const csvRows = convertToAwakenCSV(rangeTransactions, address, "trading", {
+      fetchMetadata: metadata ?? undefined,
+      ownAddresses: portfolioWallets.map((w) => w.address),
+      realizedGains,
+      timeZone,
+      overrides,
+    });
+    downloadCSV(
+      generateCSVContent(csvRows),
+      generateFilename(address, "trading", metadata?.truncated),
+    );
+  };
+
+  const portfolioFilename = (extension: string) => {
+    const date = new Date().toISOString().split("T")[0];
+    const incompleteSuffix = isPortfolioIncomplete(walletResults)
+      ? "-INCOMPLETE"
+      : "";
+    return `portfolio-transactions${incompleteSuffix}-${date}.${extension}`;
+  };
+
+  const handleExportCombinedCSV = () => {
+    if (rangeTransactions.length === 0) return;
+    downloadCSV(buildCombinedCSV(rangeResults), portfolioFilename("csv"));
+  };
+
+  const handleExportZip = () => {
+    if (rangeTransactions.length === 0) return;
+    downloadBlob(buildPortfolioZip(rangeResults), portfolioFilename("zip"));
   };
 
   const handleBack = () => {
     setShowResults(false);
     setTransactions([]);
+    setRawTransactions([]);
+    setWalletResults([]);
     setError(null);
     setFilter("all");
+    setChainFilter("all");
     setSearchQuery("");
   };
 
@@ -313,7 +923,7 @@ export default function Home() {
               <ArrowLeft className="w-5 h-5 mr-2" /> Back
             </button>
             <div className="flex items-center gap-3">
-              {currentChain && (
+              {currentChain && !isPortfolio && !portfolioProgress && (
                 <div className="w-8 h-8 relative">
                   <Image
                     src={currentChain.icon}
@@ -324,13 +934,28 @@ export default function Home() {
                 </div>
               )}
               <div>
-                <h1 className="text-xl font-bold text-orange-500">
-                  {currentChain?.name} Transactions
-                </h1>
-                <p className="text-sm text-gray-400 hidden sm:block">
-                  {address.slice(0, 12)}...
-                  {address.slice(-8)}
-                </p>
+                {isPortfolio || portfolioProgress ? (
+                  <>
+                    <h1 className="text-xl font-bold text-orange-500">
+                      Portfolio Transactions
+                    </h1>
+                    <p className="text-sm text-gray-400 hidden sm:block">
+                      {portfolioWallets.length} wallets across{" "}
+                      {new Set(portfolioWallets.map((w) => w.chain)).size}{" "}
+                      chains
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <h1 className="text-xl font-bold text-orange-500">
+                      {currentChain?.name} Transactions
+                    </h1>
+                    <p className="text-sm text-gray-400 hidden sm:block">
+                      {address.slice(0, 12)}...
+                      {address.slice(-8)}
+                    </p>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -344,10 +969,24 @@ export default function Home() {
                 <p className="text-lg font-semibold mb-2">
                   Loading transactions...
                 </p>
+                {portfolioProgress && (
+                  <p className="text-gray-300 mb-1">
+                    Wallet {portfolioProgress.index} of{" "}
+                    {portfolioWallets.length}:{" "}
+                    {CHAIN_CONFIGS[portfolioProgress.wallet.chain]?.name}{" "}
+                    {portfolioProgress.wallet.address.slice(0, 10)}...
+                  </p>
+                )}
                 <p className="text-gray-400">
                   Fetched {loadingProgress.count} transactions (page{" "}
                   {loadingProgress.page})
                 </p>
+                {checkpointDate && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Continuing an interrupted fetch from{" "}
+                    {new Date(checkpointDate).toLocaleString()}
+                  </p>
+                )}
                 <div className="mt-4 w-64 mx-auto bg-gray-700 rounded-full h-2">
                   <div
                     className="bg-orange-500 h-2 rounded-full transition-all duration-300"
@@ -380,6 +1019,64 @@ export default function Home() {
 
             {transactions.length > 0 && !isLoading && (
               <div className="space-y-4">
+                {/* Incomplete history warning */}
+                {isPortfolio && isPortfolioIncomplete(walletResults) && (
+                  <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 flex items-start gap-3">
+                    <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      <p className="text-yellow-400 font-semibold">
+                        Some wallets are incomplete
+                      </p>
+                      <ul className="text-yellow-200/80 text-sm mt-1 space-y-1">
+                        {walletResults.flatMap((result) => {
+                          const label = `${CHAIN_CONFIGS[result.chain]?.name} ${result.address.slice(0, 10)}...`;
+                          const warnings = result.error
+                            ? [`Failed: ${result.error}`]
+                            : result.metadata?.truncated
+                            ? result.metadata.warnings
+                            : [];
+                          return warnings.map((warning, idx) => (
+                            <li key={`${result.chain}:${result.address}:${idx}`}>
+                              {label}: {warning}
+                            </li>
+                          ));
+                        })}
+                      </ul>
+                      <p className="text-yellow-200/60 text-xs mt-2">
+                        Exports are marked INCOMPLETE in the filename and notes.
+                        Open a wallet on its own to resume its fetch.
+                      </p>
+                    </div>
+                  </div>
+                )}
+                {!isPortfolio && metadata?.truncated && (
+                  <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 flex items-start gap-3">
+                    <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      <p className="text-yellow-400 font-semibold">
+                        This history is incomplete
+                      </p>
+                      <ul className="text-yellow-200/80 text-sm mt-1 space-y-1">
+                        {metadata.warnings.map((warning, idx) => (
+                          <li key={idx}>{warning}</li>
+                        ))}
+                      </ul>
+                      <p className="text-yellow-200/60 text-xs mt-2">
+                        Exports are marked INCOMPLETE in the filename and notes
+                        until the fetch finishes.
+                      </p>
+                    </div>
+                    {getResumeCursor(metadata) && (
+                      <button
+                        onClick={handleResume}
+                        className="flex items-center bg-yellow-700 hover:bg-yellow-600 text-white text-sm py-2 px-3 rounded-lg transition-colors flex-shrink-0"
+                      >
+                        <RotateCw className="w-4 h-4 mr-2" /> Resume fetch
+                      </button>
+                    )}
+                  </div>
+                )}
+
                 {/* Stats and Export Bar */}
                 <div className="bg-[#2a2a2a] rounded-lg p-4 border border-gray-800 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
                   <div>
@@ -391,7 +1088,7 @@ export default function Home() {
                         </span>
                       )}
                     </h2>
-                    {metadata && (
+                    {metadata?.firstTransactionDate && metadata.lastTransactionDate && (
                       <p className="text-sm text-gray-400">
                         Via {metadata.dataSource} •{" "}
                         {new Date(
@@ -403,28 +1100,131 @@ export default function Home() {
                         ).toLocaleDateString()}
                       </p>
                     )}
+                    <p className="text-sm text-gray-400">
+                      Received {fiatTotals.received} {fiatTotals.currency} •
+                      Sent {fiatTotals.sent} {fiatTotals.currency} • Fees{" "}
+                      {fiatTotals.fees} {fiatTotals.currency}
+                      {fiatTotals.unpricedRows > 0 && (
+                        <span className="text-yellow-500">
+                          {" "}
+                          ({fiatTotals.unpricedRows} rows without a price)
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-400">Dates in {timeZone}</p>
                   </div>
                   <div className="flex flex-wrap gap-2">
-                    <button
-                      onClick={handleExportCSV}
-                      className="flex items-center bg-orange-600 hover:bg-orange-700 text-white py-2 px-4 rounded-lg transition-colors"
-                    >
-                      <Download className="w-4 h-4 mr-2" /> Export CSV
-                    </button>
+                    {isPortfolio ? (
+                      <>
+                        <button
+                          onClick={handleExportCombinedCSV}
+                          className="flex items-center bg-orange-600 hover:bg-orange-700 text-white py-2 px-4 rounded-lg transition-colors"
+                        >
+                          <Download className="w-4 h-4 mr-2" /> Combined CSV
+                        </button>
+                        <button
+                          onClick={handleExportZip}
+                          className="flex items-center bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors"
+                        >
+                          <FileArchive className="w-4 h-4 mr-2" /> Zip per wallet
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={handleExportCSV}
+                        className="flex items-center bg-orange-600 hover:bg-orange-700 text-white py-2 px-4 rounded-lg transition-colors"
+                      >
+                        <Download className="w-4 h-4 mr-2" /> Export CSV
+                      </button>
+                    )}
                   </div>
                 </div>
 
+                {/* Fetch completeness */}
+                {metadata && !isPortfolio && <FetchSummary metadata={metadata} />}
+                {walletResults.map(
+                  (result) =>
+                    result.metadata && (
+                      <FetchSummary
+                        key={`${result.chain}:${result.address}`}
+                        metadata={result.metadata}
+                        title={`${CHAIN_CONFIGS[result.chain]?.name} ${result.address.slice(0, 10)}...`}
+                      />
+                    ),
+                )}
+                <FeeReport entries={feeReport} />
+                <RealizedGains
+                  wallets={gainsWallets}
+                  onExportTrading={
+                    isPortfolio ? undefined : handleExportTradingCSV
+                  }
+                  timeZone={timeZone}
+                />
+                <TaxSummary
+                  wallets={gainsWallets}
+                  ownAddresses={ownAddresses}
+                  timeZone={timeZone}
+                />
+                <TagMappingPanel
+                  mapping={tagMapping}
+                  onChange={handleTagMappingChange}
+                />
+                <ManualTransactionForm
+                  wallets={
+                    isPortfolio
+                      ? walletResults.map(({ chain, address }) => ({
+                          chain,
+                          address,
+                        }))
+                      : [{ chain: selectedChain, address }]
+                  }
+                  timeZone={timeZone}
+                  onAdd={handleAddManual}
+                />
+                <EditHistory
+                  transactions={walletTransactions}
+                  overrides={overrides}
+                  log={editLog}
+                />
+                <SpamFilter
+                  spam={spam}
+                  lists={spamLists}
+                  onChange={handleSpamListsChange}
+                />
+
                 {/* API Attribution */}
-                {handler?.attribution && (
+                {isPortfolio && (
+                  <div className="text-sm text-gray-500 bg-[#2a2a2a]/50 rounded-lg p-3 border border-gray-800">
+                    Data provided by{" "}
+                    {Array.from(new Set(walletResults.map((r) => r.chain)))
+                      .map((chainId) => getChainAdapter(chainId)?.attribution)
+                      .filter((a) => a !== undefined)
+                      .map((attribution, idx) => (
+                        <React.Fragment key={attribution.name}>
+                          {idx > 0 && ", "}
+                          <a
+                            href={attribution.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-orange-400 hover:text-orange-300 inline-flex items-center"
+                          >
+                            {attribution.name} API
+                            <ExternalLink className="w-3 h-3 ml-1" />
+                          </a>
+                        </React.Fragment>
+                      ))}
+                  </div>
+                )}
+                {!isPortfolio && adapter?.attribution && (
                   <div className="text-sm text-gray-500 bg-[#2a2a2a]/50 rounded-lg p-3 border border-gray-800">
                     Data provided by{" "}
                     <a
-                      href={handler.attribution.url}
+                      href={adapter.attribution.url}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-orange-400 hover:text-orange-300 inline-flex items-center"
                     >
-                      {handler.attribution.name} API
+                      {adapter.attribution.name} API
                       <ExternalLink className="w-3 h-3 ml-1" />
                     </a>
                   </div>
@@ -443,6 +1243,42 @@ export default function Home() {
                     />
                   </div>
 
+                  {/* Spam */}
+                  {spam.size > 0 && (
+                    <button
+                      onClick={() => setShowSpam(!showSpam)}
+                      className={`flex items-center bg-[#1a1a1a] border rounded-lg px-4 py-2 transition-colors ${
+                        showSpam
+                          ? "border-orange-500 text-white"
+                          : "border-gray-700 text-gray-400 hover:text-white"
+                      }`}
+                      title="Spam rows are never exported"
+                    >
+                      <ShieldAlert className="w-4 h-4 mr-2" />
+                      {showSpam ? "Hide" : "Show"} spam ({spam.size})
+                    </button>
+                  )}
+
+                  {/* Chain Filter */}
+                  {isPortfolio && (
+                    <select
+                      value={chainFilter}
+                      onChange={(e) =>
+                        setChainFilter(e.target.value as ChainId | "all")
+                      }
+                      className="bg-[#1a1a1a] border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    >
+                      <option value="all">All Chains</option>
+                      {Array.from(new Set(walletResults.map((r) => r.chain))).map(
+                        (chainId) => (
+                          <option key={chainId} value={chainId}>
+                            {CHAIN_CONFIGS[chainId]?.name || chainId}
+                          </option>
+                        ),
+                      )}
+                    </select>
+                  )}
+
                   {/* Type Filter */}
                   <select
                     value={filter}
@@ -458,6 +1294,48 @@ export default function Home() {
                       </option>
                     ))}
                   </select>
+
+                  {/* Date Range */}
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="date"
+                      value={dateFrom}
+                      max={dateTo || undefined}
+                      onChange={(e) => setDateFrom(e.target.value)}
+                      title={`Only show and export transactions from this day (${timeZone})`}
+                      className="bg-[#1a1a1a] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    />
+                    <span className="text-gray-500">to</span>
+                    <input
+                      type="date"
+                      value={dateTo}
+                      min={dateFrom || undefined}
+                      onChange={(e) => setDateTo(e.target.value)}
+                      title={`Only show and export transactions up to this day (${timeZone})`}
+                      className="bg-[#1a1a1a] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    />
+                  </div>
+
+                  {/* Display Rounding */}
+                  <select
+                    value={displayDecimals ?? "full"}
+                    onChange={(e) =>
+                      setDisplayDecimals(
+                        e.target.value === "full"
+                          ? null
+                          : Number(e.target.value),
+                      )
+                    }
+                    className="bg-[#1a1a1a] border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    title="Rounding of amounts in the table; exports keep full precision"
+                  >
+                    {[2, 4, 6, 8].map((decimals) => (
+                      <option key={decimals} value={decimals}>
+                        {decimals} decimals
+                      </option>
+                    ))}
+                    <option value="full">Full precision</option>
+                  </select>
                 </div>
 
                 {/* Transactions Table */}
@@ -466,6 +1344,11 @@ export default function Home() {
                     <table className="w-full text-sm">
                       <thead>
                         <tr className="border-b border-gray-700 bg-[#333]">
+                          {isPortfolio && (
+                            <th className="text-left py-3 px-4 text-gray-300">
+                              Chain
+                            </th>
+                          )}
                           {[
                             { field: "date", label: "Date" },
                             { field: "type", label: "Type" },
@@ -493,62 +1376,189 @@ export default function Home() {
                           <th className="text-left py-3 px-4 text-gray-300">
                             Status
                           </th>
+                          <th className="py-3 px-4">
+                            <span className="sr-only">Edit</span>
+                          </th>
                         </tr>
                       </thead>
                       <tbody>
-                        {paginatedTransactions.map((tx, idx) => (
-                          <tr
-                            key={idx}
-                            className="border-b border-gray-800 hover:bg-[#333] transition-colors"
-                          >
-                            <td className="py-3 px-4 whitespace-nowrap">
-                              {new Date(tx.timestamp).toLocaleString()}
-                            </td>
-                            <td className="py-3 px-4">
-                              <span
-                                className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium capitalize ${
-                                  tx.type === "receive"
-                                    ? "bg-green-900 text-green-300"
-                                    : tx.type === "send"
-                                    ? "bg-red-900 text-red-300"
-                                    : tx.type === "swap"
-                                    ? "bg-blue-900 text-blue-300"
-                                    : "bg-gray-700 text-gray-300"
-                                }`}
-                              >
-                                {tx.type}
-                              </span>
-                            </td>
-                            <td className="py-3 px-4 font-mono">
-                              {tx.amount || tx.amount2 || "-"}
-                            </td>
-                            <td className="py-3 px-4">
-                              {tx.currency || tx.currency2 || "-"}
-                            </td>
-                            <td className="py-3 px-4 text-gray-400">
-                              <div className="flex flex-col">
-                                <span className="text-xs">
-                                  {tx.from.slice(0, 8)}...{tx.from.slice(-6)} →{" "}
-                                  {tx.to.slice(0, 8)}...{tx.to.slice(-6)}
-                                </span>
-                                <span className="text-xs mt-1 text-gray-500">
-                                  {tx.hash.slice(0, 12)}...{tx.hash.slice(-8)}
-                                </span>
-                              </div>
-                            </td>
-                            <td className="py-3 px-4">
-                              <span
-                                className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                                  tx.status === "success"
-                                    ? "bg-green-900 text-green-300"
-                                    : "bg-red-900 text-red-300"
+                        {paginatedTransactions.map((tx, idx) => {
+                          const key = getTransactionKey(tx);
+                          const override = overrides[key];
+                          const type = override?.type || tx.type;
+                          const spamReason = spam.get(key);
+                          const extraLegs = getExtraMovements(tx);
+                          return (
+                            <React.Fragment key={idx}>
+                              <tr
+                                className={`border-b border-gray-800 hover:bg-[#333] transition-colors ${
+                                  override?.excluded ? "opacity-40" : ""
                                 }`}
                               >
-                                {tx.status}
-                              </span>
-                            </td>
-                          </tr>
-                        ))}
+                                {isPortfolio && (
+                                  <td className="py-3 px-4 whitespace-nowrap text-gray-300">
+                                    {CHAIN_CONFIGS[tx.chain]?.name || tx.chain}
+                                  </td>
+                                )}
+                                <td className="py-3 px-4 whitespace-nowrap">
+                                  {formatDateTime(tx.timestamp, timeZone)}
+                                </td>
+                                <td className="py-3 px-4">
+                                  <span
+                                    className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium capitalize ${
+                                      type === "receive"
+                                        ? "bg-green-900 text-green-300"
+                                        : type === "send"
+                                        ? "bg-red-900 text-red-300"
+                                        : type === "swap"
+                                        ? "bg-blue-900 text-blue-300"
+                                        : "bg-gray-700 text-gray-300"
+                                    }`}
+                                  >
+                                    {type}
+                                  </span>
+                                  {override?.tag && (
+                                    <span className="ml-1 text-xs text-orange-400">
+                                      {override.tag}
+                                    </span>
+                                  )}
+                                  {override?.excluded && (
+                                    <span className="ml-1 text-xs text-gray-400">
+                                      excluded
+                                    </span>
+                                  )}
+                                  {override?.splits?.length ? (
+                                    <span className="ml-1 text-xs text-orange-400">
+                                      {override.splits.length} rows
+                                    </span>
+                                  ) : null}
+                                  {tx.manual && (
+                                    <span className="ml-1 text-xs text-blue-400">
+                                      manual
+                                    </span>
+                                  )}
+                                  {extraLegs.length > 0 && (
+                                    <span
+                                      className="ml-1 text-xs text-blue-400"
+                                      title={extraLegs
+                                        .map(
+                                          (m) =>
+                                            `${m.direction === "out" ? "-" : "+"}${m.amount} ${m.currency}`,
+                                        )
+                                        .join(", ")}
+                                    >
+                                      +{extraLegs.length} legs
+                                    </span>
+                                  )}
+                                  {spamReason && (
+                                    <span
+                                      className="ml-1 text-xs text-red-400"
+                                      title={SPAM_REASONS[spamReason]}
+                                    >
+                                      spam
+                                    </span>
+                                  )}
+                                </td>
+                                <td
+                                  className="py-3 px-4 font-mono"
+                                  title={tx.amount || tx.amount2}
+                                >
+                                  {tx.amount || tx.amount2
+                                    ? formatDisplayAmount(
+                                        tx.amount || tx.amount2 || "",
+                                        displayDecimals,
+                                      )
+                                    : "-"}
+                                </td>
+                                <td className="py-3 px-4">
+                                  {tx.currency || tx.currency2 || "-"}
+                                </td>
+                                <td className="py-3 px-4 text-gray-400">
+                                  <div className="flex flex-col">
+                                    <span className="text-xs">
+                                      {tx.from.slice(0, 8)}...{tx.from.slice(-6)} →{" "}
+                                      {tx.to.slice(0, 8)}...{tx.to.slice(-6)}
+                                    </span>
+                                    <span className="text-xs mt-1 text-gray-500">
+                                      {tx.hash.slice(0, 12)}...{tx.hash.slice(-8)}
+                                    </span>
+                                  </div>
+                                </td>
+                                <td className="py-3 px-4">
+                                  <span
+                                    className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                                      tx.status === "success"
+                                        ? "bg-green-900 text-green-300"
+                                        : "bg-red-900 text-red-300"
+                                    }`}
+                                  >
+                                    {tx.status}
+                                  </span>
+                                </td>
+                                <td className="py-3 px-4">
+                                  <button
+                                    onClick={() =>
+                                      setEditingKey(editingKey === key ? null : key)
+                                    }
+                                    className={`transition-colors ${
+                                      override
+                                        ? "text-orange-400 hover:text-orange-300"
+                                        : "text-gray-500 hover:text-white"
+                                    }`}
+                                    title={
+                                      override?.notes ||
+                                      "Edit, split or exclude for export"
+                                    }
+                                  >
+                                    <Pencil className="w-4 h-4" />
+                                  </button>
+                                  {!tx.manual && (
+                                    <button
+                                      onClick={() =>
+                                        handleMarkSpam(tx, !spamReason)
+                                      }
+                                      className={`ml-2 transition-colors ${
+                                        spamReason
+                                          ? "text-red-400 hover:text-red-300"
+                                          : "text-gray-500 hover:text-white"
+                                      }`}
+                                      title={
+                                        spamReason
+                                          ? `${SPAM_REASONS[spamReason]}; mark ${tx.currency} as not spam`
+                                          : `Mark ${tx.currency} as spam`
+                                      }
+                                    >
+                                      <ShieldAlert className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                </td>
+                              </tr>
+                              {editingKey === key && (
+                                <tr className="border-b border-gray-800 bg-[#1f1f1f]">
+                                  <td
+                                    colSpan={isPortfolio ? 8 : 7}
+                                    className="py-3 px-4"
+                                  >
+                                    <TransactionEditor
+                                      tx={tx}
+                                      override={override}
+                                      tag={getTag(tx, tagMapping)}
+                                      onSave={(edit) =>
+                                        handleSaveOverride(tx, edit)
+                                      }
+                                      onCancel={() => setEditingKey(null)}
+                                      onDelete={
+                                        tx.manual
+                                          ? () => handleDeleteManual(tx)
+                                          : undefined
+                                      }
+                                    />
+                                  </td>
+                                </tr>
+                              )}
+                            </React.Fragment>
+                          );
+                        })}
                       </tbody>
                     </table>
                   </div>
@@ -618,6 +1628,7 @@ export default function Home() {
                       <button
                         onClick={() => {
                           setFilter("all");
+                          setChainFilter("all");
                           setSearchQuery("");
                         }}
                         className="mt-2 text-orange-400 hover:text-orange-300"
@@ -689,6 +1700,39 @@ export default function Home() {
               <ApiKeyManager />
             </div>
 
+            {/* Portfolio */}
+            <div className="mb-6">
+              <PortfolioPanel
+                wallets={portfolioWallets}
+                canAdd={
+                  !!adapter?.isValidAddress(address.trim()) &&
+                  !portfolioWallets.some((w) =>
+                    isSameWallet(w, {
+                      chain: selectedChain,
+                      address: address.trim(),
+                    }),
+                  )
+                }
+                onAdd={handleAddToPortfolio}
+                onRemove={handleRemoveFromPortfolio}
+                onFetch={fetchPortfolio}
+                disabled={isLoading}
+              />
+            </div>
+
+            {/* Cached Wallets */}
+            <div className="mb-6">
+              <CachedWallets
+                onRefresh={handleRefreshWallet}
+                disabled={isLoading}
+              />
+            </div>
+
+            {/* USD Prices */}
+            <div className="mb-6">
+              <PriceTable />
+            </div>
+
             {/* Main Form */}
             <div className="bg-[#2a2a2a] rounded-lg p-6 border border-gray-800">
               <form onSubmit={handleSubmit} className="space-y-6">
@@ -727,7 +1771,7 @@ export default function Home() {
 
                     {isDropdownOpen && (
                       <div className="absolute z-10 w-full mt-2 bg-[#1a1a1a] border border-gray-700 rounded-lg shadow-xl max-h-60 overflow-auto">
-                        {ENABLED_CHAINS.map((chain) => (
+                        {getEnabledChains().map((chain) => (
                           <button
                             key={chain.id}
                             type="button"
@@ -807,6 +1851,56 @@ export default function Home() {
                   </div>
                 </div>
 
+                {/* Date Range */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Date Range (optional, {timeZone})
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="date"
+                      value={dateFrom}
+                      max={dateTo || undefined}
+                      onChange={(e) => setDateFrom(e.target.value)}
+                      className="flex-1 bg-[#1a1a1a] border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    />
+                    <span className="text-gray-500">to</span>
+                    <input
+                      type="date"
+                      value={dateTo}
+                      min={dateFrom || undefined}
+                      onChange={(e) => setDateTo(e.target.value)}
+                      className="flex-1 bg-[#1a1a1a] border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    />
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">
+                    {adapter?.supportsDateRange
+                      ? `${currentChain?.name} only fetches this range.`
+                      : `${currentChain?.name} fetches the full history; the range is applied before export.`}
+                  </p>
+                </div>
+
+                {/* Timezone */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Timezone
+                  </label>
+                  <select
+                    value={timeZone}
+                    onChange={(e) => handleTimeZoneChange(e.target.value)}
+                    className="w-full bg-[#1a1a1a] border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  >
+                    {timeZones.map((zone) => (
+                      <option key={zone} value={zone}>
+                        {zone}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-xs text-gray-500">
+                    Exported dates, the table and tax years use this zone.
+                  </p>
+                </div>
+
                 {/* Submit Button */}
                 <button
                   type="submit"
@@ -831,26 +1925,24 @@ export default function Home() {
                 Coming Soon
               </h3>
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-                {Object.values(CHAIN_CONFIGS)
-                  .filter((chain) => !chain.enabled)
-                  .map((chain) => (
-                    <div
-                      key={chain.id}
-                      className="flex items-center gap-2 opacity-50 grayscale"
-                    >
-                      <div className="w-6 h-6 relative">
-                        <Image
-                          src={chain.icon}
-                          alt={chain.name}
-                          fill
-                          className="rounded-full"
-                        />
-                      </div>
-                      <span className="text-sm text-gray-400">
-                        {chain.name}
-                      </span>
+                {getComingSoonChains().map((chain) => (
+                  <div
+                    key={chain.id}
+                    className="flex items-center gap-2 opacity-50 grayscale"
+                  >
+                    <div className="w-6 h-6 relative">
+                      <Image
+                        src={chain.icon}
+                        alt={chain.name}
+                        fill
+                        className="rounded-full"
+                      />
                     </div>
-                  ))}
+                    <span className="text-sm text-gray-400">
+                      {chain.name}
+                    </span>
+                  </div>
+                ))}
               </div>
             </div>
 
@@ -1,11 +1,25 @@
 import {
+  ChainAdapter,
   ChainTransaction,
+  FetchOptions,
+  FetchResult,
+  Message,
   ParsedTransaction,
+  SourceFetchStats,
   TransactionType,
   ChainId,
 } from "../types";
 import { getChainConfig } from "../config/chains";
 import { getApiKey } from "../utils/apiKeys";
+import { buildFetchMetadata, markTruncated } from "../utils/fetchMetadata";
+import { reportPage, restoreSource } from "../utils/checkpoints";
+import { formatUnits } from "../utils/units";
+import { decodeCosmosTransaction } from "../utils/cosmosTx";
+import {
+  getIbcDenom,
+  isUnresolvedIbcDenom,
+  resolveIbcDenoms,
+} from "../utils/ibcDenoms";
 
 const CHAIN_ID: ChainId = "babylon";
 const API_KEY = getApiKey("babylon") || "";
@@ -16,9 +30,11 @@ const API_KEY = getApiKey("babylon") || "";
  */
 export async function fetchAllTransactionsClientSide(
   address: string,
-  onProgress?: (count: number, query: string, page: number) => void,
-): Promise<{ transactions: ChainTransaction[]; metadata: any }> {
+  options: FetchOptions = {},
+): Promise<FetchResult> {
+  const { onProgress } = options;
   console.log(`[Babylon] Starting comprehensive fetch for ${address}`);
+  const startedAt = new Date();
 
   const config = getChainConfig(CHAIN_ID);
   const allTransactions = new Map<string, ChainTransaction>();
@@ -49,15 +65,37 @@ export async function fetchAllTransactionsClientSide(
   ];
 
   let lastSuccessfulEndpoint = "";
-  let queriesWithData: string[] = [];
+  // Stats of the last endpoint tried (the one the data came from on success)
+  let sources: SourceFetchStats[] = [];
 
   // Try each REST endpoint
   for (const endpoint of restEndpoints) {
     console.log(`[Babylon] Trying REST API: ${endpoint}`);
     let endpointSuccess = false;
+    sources = [];
 
     for (const queryType of queryTypes) {
-      let offset = 0;
+      const start = restoreSource<ChainTransaction>(
+        options,
+        queryType.name,
+        queryType.name,
+      );
+      const { stats } = start;
+      for (const tx of start.items) {
+        allTransactions.set(tx.hash, tx);
+      }
+
+      // Queries finished by an earlier run keep their restored items; when
+      // resuming, queries without a cursor already finished
+      if (start.skip) {
+        if (options.checkpoint) {
+          sources.push(stats);
+          endpointSuccess = endpointSuccess || start.items.length > 0;
+        }
+        continue;
+      }
+      sources.push(stats);
+      let offset = start.cursor?.offset ?? 0;
       let hasMore = true;
       let queryTotalReported = 0;
       let pagesFetched = 0;
@@ -83,6 +121,7 @@ export async function fetchAllTransactionsClientSide(
               console.log(
                 `[Babylon] ${queryType.name} - Error at offset ${offset}`,
               );
+              markTruncated(stats, "error", { page: stats.pagesFetched, offset }, `Offset ${offset} failed: HTTP ${response.status}`);
               break;
             }
             await new Promise((resolve) => setTimeout(resolve, 500));
@@ -97,9 +136,11 @@ export async function fetchAllTransactionsClientSide(
             hasMore = false;
             break;
           }
+          stats.count += batch.length;
 
           // Add transactions (convert to ChainTransaction format)
           let newTxCount = 0;
+          const pageTransactions: ChainTransaction[] = [];
           for (const tx of batch) {
             if (tx.txhash && !allTransactions.has(tx.txhash)) {
               const converted: ChainTransaction = {
@@ -109,9 +150,11 @@ export async function fetchAllTransactionsClientSide(
                 code: tx.code || 0,
                 chain: CHAIN_ID,
                 logs: tx.logs,
+                events: tx.events,
                 tx: tx.tx,
               };
               allTransactions.set(tx.txhash, converted);
+              pageTransactions.push(converted);
               newTxCount++;
             }
           }
@@ -125,7 +168,7 @@ export async function fetchAllTransactionsClientSide(
           }
 
           if (onProgress) {
-            onProgress(allTransactions.size, queryType.name, pagesFetched);
+            onProgress(allTransactions.size, pagesFetched);
           }
 
           hasMore = batch.length === 100;
@@ -138,6 +181,13 @@ export async function fetchAllTransactionsClientSide(
 
           offset += 100;
           pagesFetched++;
+          stats.pagesFetched++;
+          await reportPage(
+            options,
+            stats,
+            hasMore ? { page: stats.pagesFetched, offset } : null,
+            pageTransactions,
+          );
 
           if (pagesFetched % 5 === 0) {
             await new Promise((resolve) => setTimeout(resolve, 100));
@@ -150,6 +200,7 @@ export async function fetchAllTransactionsClientSide(
           consecutiveErrors++;
           if (consecutiveErrors >= 3) {
             hasMore = false;
+            markTruncated(stats, "error", { page: stats.pagesFetched, offset }, `Offset ${offset} failed: ${error instanceof Error ? error.message : String(error)}`);
           } else {
             await new Promise((resolve) => setTimeout(resolve, 500));
           }
@@ -159,9 +210,6 @@ export async function fetchAllTransactionsClientSide(
       if (pagesFetched > 0) {
         endpointSuccess = true;
         lastSuccessfulEndpoint = endpoint;
-        if (queryTotalReported > 0) {
-          queriesWithData.push(`${queryType.name}: ${queryTotalReported}`);
-        }
         console.log(
           `[Babylon] ${queryType.name}: done, ${allTransactions.size} total unique`,
         );
@@ -180,30 +228,20 @@ export async function fetchAllTransactionsClientSide(
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
   );
 
-  const dates = uniqueTxs.map((tx) => new Date(tx.timestamp));
-  const firstDate =
-    dates.length > 0
-      ? new Date(Math.min(...dates.map((d) => d.getTime())))
-      : null;
-  const lastDate =
-    dates.length > 0
-      ? new Date(Math.max(...dates.map((d) => d.getTime())))
-      : null;
+  await resolveIbcDenoms(CHAIN_ID, uniqueTxs);
 
   console.log(`[Babylon] FINAL: ${uniqueTxs.length} unique transactions`);
 
   return {
     transactions: uniqueTxs,
-    metadata: {
+    metadata: buildFetchMetadata({
       address,
       chain: CHAIN_ID,
-      totalFetched: uniqueTxs.length,
-      firstTransactionDate: firstDate?.toISOString(),
-      lastTransactionDate: lastDate?.toISOString(),
       dataSource: `REST API (${lastSuccessfulEndpoint || "none"})`,
-      queryTypesUsed: queriesWithData.length,
-      endpoints: [lastSuccessfulEndpoint],
-    },
+      startedAt,
+      sources,
+      transactions: uniqueTxs,
+    }),
   };
 }
 
@@ -212,101 +250,79 @@ export function isValidBabylonAddress(address: string): boolean {
   return config.addressRegex.test(address);
 }
 
+// Message types by the row they make, first match wins when a transaction
+// has several
+// BTC delegations stake bitcoin that stays on Bitcoin, so their rows only
+// carry the fee; BABY staking goes through the epoching module, which queues
+// the wrapped message until the epoch ends.
+const MESSAGE_TYPES: Array<[TransactionType, string[]]> = [
+  [
+    "btc_delegate",
+    ["MsgCreateBTCDelegation", "MsgAddBTCDelegationInclusionProof"],
+  ],
+  ["btc_undelegate", ["MsgBTCUndelegate"]],
+  ["claim_rewards", ["MsgWithdrawReward", "MsgWithdrawDelegatorReward"]],
+  ["ibc_transfer", ["MsgTransfer", "MsgRecvPacket"]],
+  [
+    "delegate",
+    [
+      "MsgWrappedDelegate",
+      "MsgWrappedBeginRedelegate",
+      "MsgWrappedCancelUnbondingDelegation",
+      "MsgDelegate",
+      "MsgBeginRedelegate",
+    ],
+  ],
+  ["undelegate", ["MsgWrappedUndelegate", "MsgUndelegate"]],
+  ["governance_vote", ["MsgVote"]],
+  ["send", ["MsgSend", "MsgMultiSend"]],
+];
+
+function unwrapMessage(message: Message): Message {
+  return message.msg ? { ...message.msg, "@type": message["@type"] } : message;
+}
+
+function describeMessage(message: Message): string {
+  if (message.staking_value) {
+    return `(${formatUnits(message.staking_value, 8)} BTC staked on Bitcoin)`;
+  }
+  if (message.msg) return "(queued until the epoch ends)";
+  if (message.type) return `(${message.type} rewards)`;
+  return "";
+}
+
+/**
+ * Parse a Babylon transaction from all its messages and the bank events
+ * they emitted
+ */
 export function parseTransaction(
   tx: ChainTransaction,
   walletAddress: string,
 ): ParsedTransaction {
-  const messages = tx.tx?.body?.messages || [];
-  const message = messages[0];
-
-  let type: TransactionType = "unknown";
-  let from = "";
-  let to = "";
-  let amount = "";
-  let currency = "";
-
-  if (message) {
-    const msgType = message["@type"] || "";
-
-    if (msgType.includes("MsgSend")) {
-      type = message.from_address === walletAddress ? "send" : "receive";
-      from = message.from_address || "";
-      to = message.to_address || "";
-
-      if (message.amount) {
-        const amountArr = Array.isArray(message.amount)
-          ? message.amount
-          : [message.amount];
-        if (amountArr.length > 0) {
-          amount = formatAmount(amountArr[0].amount);
-          currency = formatDenom(amountArr[0].denom);
-        }
-      }
-    } else if (msgType.includes("MsgDelegate")) {
-      type = "delegate";
-      from = message.delegator_address || "";
-
-      if (message.amount) {
-        const coin = Array.isArray(message.amount)
-          ? message.amount[0]
-          : message.amount;
-        if (coin) {
-          amount = formatAmount(coin.amount);
-          currency = formatDenom(coin.denom);
-        }
-      }
-    } else if (msgType.includes("MsgWithdrawDelegatorReward")) {
-      type = "claim_rewards";
-      from = message.delegator_address || "";
-    } else if (msgType.includes("MsgTransfer")) {
-      type = "ibc_transfer";
-      from = message.sender || "";
-      to = message.receiver || "";
-
-      if (message.token) {
-        amount = formatAmount(message.token.amount);
-        currency = formatDenom(message.token.denom);
-      }
-    } else if (msgType.includes("MsgVote")) {
-      type = "governance_vote";
-      from = message.voter || walletAddress;
-    }
-  }
-
-  let fee = "";
-  let feeCurrency = "";
-  if (tx.tx?.auth_info?.fee?.amount && tx.tx.auth_info.fee.amount.length > 0) {
-    fee = formatAmount(tx.tx.auth_info.fee.amount[0].amount);
-    feeCurrency = formatDenom(tx.tx.auth_info.fee.amount[0].denom);
-  }
-
-  return {
-    hash: tx.hash,
-    timestamp: new Date(tx.timestamp),
-    height: parseInt(tx.height, 10),
-    type,
-    from,
-    to,
-    amount,
-    currency,
-    fee,
-    feeCurrency,
-    memo: tx.tx?.body?.memo || "",
-    status: tx.code === 0 ? "success" : "failed",
+  return decodeCosmosTransaction(tx, walletAddress, {
     chain: CHAIN_ID,
-  };
+    messageTypes: MESSAGE_TYPES,
+    formatAmount,
+    formatDenom,
+    unwrapMessage,
+    describeMessage,
+    isRawDenom: (denom) => isUnresolvedIbcDenom(CHAIN_ID, denom),
+  });
 }
 
-function formatAmount(amount: string): string {
-  const config = getChainConfig(CHAIN_ID);
-  const num = parseInt(amount, 10);
-  if (isNaN(num)) return "0";
-  return (num / Math.pow(10, config.decimals)).toFixed(config.decimals);
+function formatAmount(denom: string, value: bigint): string {
+  // IBC denoms without known decimals keep their raw amount
+  const decimals = denom.startsWith("ibc/")
+    ? (getIbcDenom(CHAIN_ID, denom)?.decimals ?? 0)
+    : getChainConfig(CHAIN_ID).decimals;
+  return formatUnits(value, decimals);
 }
 
 function formatDenom(denom: string): string {
   if (!denom) return "";
-  if (denom.startsWith("ibc/")) return "IBC-Token";
+  if (denom.startsWith("ibc/")) {
+    return getIbcDenom(CHAIN_ID, denom)?.symbol || denom;
+  }
 
   const config = getChainConfig(CHAIN_ID);
   const denomMap: Record<string, string> = {
@@ -317,3 +333,12 @@ function formatDenom(denom: string): string {
 
   return denomMap[denom] || denom.toUpperCase();
 }
+
+export const babylonAdapter: ChainAdapter = {
+  chainId: CHAIN_ID,
+  version: 5, // 2: exact decimal amounts; 3: IBC denoms resolved; 4: every message and bank event decoded, BTC staking; 5: unknown IBC decimals kept raw
+  attribution: { name: "AllThatNode", url: "https://www.allthatnode.com" },
+  isValidAddress: isValidBabylonAddress,
+  fetchTransactions: fetchAllTransactionsClientSide,
+  parseTransaction,
+};
@@ -1,9 +1,18 @@
 import {
+  ChainAdapter,
   ChainTransaction,
+  FetchOptions,
+  FetchResult,
   ParsedTransaction,
+  SourceFetchStats,
   TransactionType,
   ChainId,
 } from "../types";
+import { buildFetchMetadata, markTruncated } from "../utils/fetchMetadata";
+import { reportPage, restoreSource } from "../utils/checkpoints";
+import { formatUnits } from "../utils/units";
+import { keepNewerThan } from "../utils/transactionStore";
+import { toUnixRange } from "../utils/dateRange";
 
 const CHAIN_ID: ChainId = "celestia";
 const BASE_URL = "https://api-mainnet.celenium.io/v1";
@@ -16,39 +25,32 @@ const NATIVE_DENOM = "utia";
  */
 export async function fetchAllTransactionsClientSide(
   address: string,
-  onProgress?: (count: number, page: number) => void,
-): Promise<{ transactions: ChainTransaction[]; metadata: any }> {
+  options: FetchOptions = {},
+): Promise<FetchResult> {
   console.log(`[Celestia] Starting comprehensive fetch for ${address}`);
+  const startedAt = new Date();
 
-  const transactions = await fetchAllPages(address, onProgress);
+  const { transactions, stats } = await fetchAllPages(address, options);
 
   // Sort by timestamp (newest first)
   transactions.sort(
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
   );
 
-  const dates = transactions.map((tx) => new Date(tx.timestamp));
-  const firstDate =
-    dates.length > 0
-      ? new Date(Math.min(...dates.map((d) => d.getTime())))
-      : null;
-  const lastDate =
-    dates.length > 0
-      ? new Date(Math.max(...dates.map((d) => d.getTime())))
-      : null;
-
   console.log(`[Celestia] FINAL: ${transactions.length} unique transactions`);
 
   return {
     transactions,
-    metadata: {
+    metadata: buildFetchMetadata({
       address,
       chain: CHAIN_ID,
-      totalFetched: transactions.length,
-      firstTransactionDate: firstDate?.toISOString(),
-      lastTransactionDate: lastDate?.toISOString(),
       dataSource: "Celenium API (messages endpoint)",
-    },
+      startedAt,
+      sources: [stats],
+      transactions,
+      since: options.since,
+      dateRange: options.dateRange,
+    }),
   };
 }
 
@@ -57,18 +59,33 @@ export async function fetchAllTransactionsClientSide(
  */
 async function fetchAllPages(
   address: string,
-  onProgress?: (count: number, page: number) => void,
-): Promise<ChainTransaction[]> {
-  const allTransactions: ChainTransaction[] = [];
-  let offset = 0;
+  options: FetchOptions,
+): Promise<{ transactions: ChainTransaction[]; stats: SourceFetchStats }> {
+  const { onProgress, since } = options;
+  const start = restoreSource<ChainTransaction>(options, "messages", "Messages");
+  const { stats } = start;
+  const allTransactions: ChainTransaction[] = [...start.items];
+
+  if (start.skip) {
+    return { transactions: allTransactions, stats };
+  }
+
+  const startOffset = start.cursor?.offset ?? 0;
+  let offset = startOffset;
   const limit = 100;
   let hasMore = true;
   const maxPages = 50;
-
-  while (hasMore && offset / limit < maxPages) {
+  // Incremental sync: page newest first and stop once we reach synced blocks
+  const order = since ? "&sort=desc" : "";
+  const { from, to } = options.dateRange ? toUnixRange(options.dateRange) : {};
+  const range =
+    (from !== undefined ? `&from=${from}` : "") +
+    (to !== undefined ? `&to=${to - 1}` : "");
+
+  while (hasMore && (offset - startOffset) / limit < maxPages) {
     try {
       const page = Math.floor(offset / limit);
-      const url = `${BASE_URL}/address/${address}/messages?limit=${limit}&offset=${offset}`;
+      const url = `${BASE_URL}/address/${address}/messages?limit=${limit}&offset=${offset}${order}${range}`;
 
       console.log(`[Celestia] Fetching messages page ${page} (offset ${offset})...`);
 
@@ -86,6 +103,7 @@ async function fetchAllPages(
           await new Promise((resolve) => setTimeout(resolve, 2000));
           continue;
         }
+        markTruncated(stats, "error", { page, offset }, `Page ${page} failed: HTTP ${response.status}`);
         break;
       }
 
@@ -93,6 +111,7 @@ async function fetchAllPages(
 
       if (!Array.isArray(data)) {
         console.error(`[Celestia] Unexpected response format:`, data);
+        markTruncated(stats, "error", { page, offset }, `Page ${page} failed: unexpected response format`);
         break;
       }
 
@@ -101,12 +120,16 @@ async function fetchAllPages(
         break;
       }
 
+      const converted: ChainTransaction[] = [];
       for (const item of data) {
-        const converted = convertMessageToTransaction(item);
-        if (converted) {
-          allTransactions.push(converted);
+        const tx = convertMessageToTransaction(item);
+        if (tx) {
+          converted.push(tx);
         }
       }
+      const newer = keepNewerThan(converted, since);
+      const pageTransactions = newer.items;
+      allTransactions.push(...pageTransactions);
 
       if (onProgress) {
         onProgress(allTransactions.length, page);
@@ -114,8 +137,16 @@ async function fetchAllPages(
 
       console.log(`[Celestia] Page ${page}: +${data.length} | Total: ${allTransactions.length}`);
 
-      hasMore = data.length === limit;
+      hasMore = data.length === limit && !newer.reachedSince;
       offset += limit;
+      stats.count = allTransactions.length;
+      stats.pagesFetched++;
+      await reportPage(
+        options,
+        stats,
+        hasMore ? { page: page + 1, offset } : null,
+        pageTransactions,
+      );
 
       // Rate limiting (200ms between requests)
       if (hasMore) {
@@ -123,11 +154,19 @@ async function fetchAllPages(
       }
     } catch (error) {
       console.error(`[Celestia] Page ${Math.floor(offset / limit)} exception:`, error);
+      const page = Math.floor(offset / limit);
+      markTruncated(stats, "error", { page, offset }, `Page ${page} failed: ${error instanceof Error ? error.message : String(error)}`);
       break;
     }
   }
 
-  return allTransactions;
+  if (hasMore && (offset - startOffset) / limit >= maxPages) {
+    console.warn(`[Celestia] Stopped at maxPages (${maxPages})`);
+    markTruncated(stats, "page_limit", { page: Math.floor(offset / limit), offset });
+  }
+  stats.count = allTransactions.length;
+
+  return { transactions: allTransactions, stats };
 }
 
 /**
@@ -306,12 +345,7 @@ export function parseTransaction(
       const coin = message.amount[0];
       if (coin.amount && coin.amount !== "0") {
         // Convert from utia (10^6) to TIA
-        const rawAmount = BigInt(coin.amount);
-        const divisor = BigInt(10 ** NATIVE_DECIMALS);
-        const whole = rawAmount / divisor;
-        const remainder = rawAmount % divisor;
-        const fraction = Number(remainder) / Math.pow(10, NATIVE_DECIMALS);
-        amount = `${whole}.${fraction.toFixed(6).substring(2)}`;
+        amount = formatUnits(coin.amount, NATIVE_DECIMALS);
       }
     }
   }
@@ -319,12 +353,7 @@ export function parseTransaction(
   // Extract fee (convert from utia to TIA)
   const feeAmount = tx.tx?.auth_info?.fee?.amount?.[0];
   if (feeAmount && feeAmount.amount && feeAmount.amount !== "0") {
-    const rawFee = BigInt(feeAmount.amount);
-    const divisor = BigInt(10 ** NATIVE_DECIMALS);
-    const whole = rawFee / divisor;
-    const remainder = rawFee % divisor;
-    const fraction = Number(remainder) / Math.pow(10, NATIVE_DECIMALS);
-    fee = `${whole}.${fraction.toFixed(8).substring(2)}`;
+    fee = formatUnits(feeAmount.amount, NATIVE_DECIMALS);
   }
 
   // Build comprehensive notes for cost basis tracking
@@ -372,3 +401,13 @@ export function parseTransaction(
     chain: CHAIN_ID,
   };
 }
+
+export const celestiaAdapter: ChainAdapter = {
+  chainId: CHAIN_ID,
+  version: 2, // 2: exact decimal amounts
+  attribution: { name: "Celenium", url: "https://celenium.io" },
+  supportsDateRange: true,
+  isValidAddress: isValidCelestiaAddress,
+  fetchTransactions: fetchAllTransactionsClientSide,
+  parseTransaction,
+};
@@ -1,10 +1,19 @@
 import {
+  AssetMovement,
+  ChainAdapter,
   ChainTransaction,
+  FetchOptions,
+  FetchResult,
   ParsedTransaction,
+  SourceFetchStats,
   TransactionType,
   ChainId,
 } from "../types";
 import { getApiKey } from "../utils/apiKeys";
+import { buildFetchMetadata, markTruncated } from "../utils/fetchMetadata";
+import { reportPage, restoreSource } from "../utils/checkpoints";
+import { formatUnits } from "../utils/units";
+import { toUnixRange } from "../utils/dateRange";
 
 const CHAIN_ID: ChainId = "celo";
 const CHAIN_ID_NUM = "42220"; // Celo Mainnet chain ID for Etherscan v2
@@ -23,6 +32,18 @@ const CELO_TOKEN_MAP: Record<string, string> = {
   "0x471EcE3750Da237f93B8E339c536989b8978a438": "CELO", // Native CELO
 };
 
+const CELO_TOKEN_ADDRESS = "0x471ece3750da237f93b8e339c536989b8978a438";
+
+// Log of a ChainTransaction built from all legs of one hash (see mergeAllTransactions)
+const GROUPED_TRANSFERS_LOG = "Grouped transfers";
+const TRANSFER_EVENT_TYPES = ["native_transfer", "token_transfer", "nft_transfer", "erc1155_transfer"];
+
+// Fetch options with the date range resolved to Etherscan block bounds
+interface CeloFetchOptions extends FetchOptions {
+  startBlock?: number;
+  endBlock?: number;
+}
+
 // Cache for token metadata to ensure consistent symbol usage
 const tokenMetadataCache: Map<string, { symbol: string; decimals: number; name: string }> = new Map();
 
@@ -40,39 +61,43 @@ const tokenMetadataCache: Map<string, { symbol: string; decimals: number; name:
  */
 export async function fetchAllTransactionsClientSide(
   address: string,
-  onProgress?: (count: number, page: number) => void,
-): Promise<{ transactions: ChainTransaction[]; metadata: any }> {
+  options: FetchOptions = {},
+): Promise<FetchResult> {
   console.log(`[Celo] Starting COMPREHENSIVE fetch for ${address}`);
+  const startedAt = new Date();
+
+  const celoOptions = await resolveBlockRange(options);
 
   // Fetch ALL transaction types SEQUENTIALLY to respect rate limit (3/sec)
   // Etherscan free tier: 3 requests/second = 333ms minimum between requests
-  const regularTransactions = await fetchAllRegularTransactions(address, onProgress);
+  const regularTransactions = await fetchAllRegularTransactions(address, celoOptions);
   
   await new Promise(resolve => setTimeout(resolve, DELAY_MS));
-  const internalTransactions = await fetchAllInternalTransactions(address);
+  const internalTransactions = await fetchAllInternalTransactions(address, celoOptions);
   
   await new Promise(resolve => setTimeout(resolve, DELAY_MS));
-  const tokenTransfers = await fetchAllTokenTransfers(address);
+  const tokenTransfers = await fetchAllTokenTransfers(address, celoOptions);
   
   await new Promise(resolve => setTimeout(resolve, DELAY_MS));
-  const nftTransfers = await fetchAllNFTTransfers(address);
+  const nftTransfers = await fetchAllNFTTransfers(address, celoOptions);
   
   await new Promise(resolve => setTimeout(resolve, DELAY_MS));
-  const erc1155Transfers = await fetchAllERC1155Transfers(address);
+  const erc1155Transfers = await fetchAllERC1155Transfers(address, celoOptions);
 
-  console.log(`[Celo] Fetched ${regularTransactions.length} regular transactions`);
-  console.log(`[Celo] Fetched ${internalTransactions.length} internal transactions`);
-  console.log(`[Celo] Fetched ${tokenTransfers.length} ERC20 token transfers`);
-  console.log(`[Celo] Fetched ${nftTransfers.length} ERC721 (NFT) transfers`);
-  console.log(`[Celo] Fetched ${erc1155Transfers.length} ERC1155 transfers`);
+  console.log(`[Celo] Fetched ${regularTransactions.items.length} regular transactions`);
+  console.log(`[Celo] Fetched ${internalTransactions.items.length} internal transactions`);
+  console.log(`[Celo] Fetched ${tokenTransfers.items.length} ERC20 token transfers`);
+  console.log(`[Celo] Fetched ${nftTransfers.items.length} ERC721 (NFT) transfers`);
+  console.log(`[Celo] Fetched ${erc1155Transfers.items.length} ERC1155 transfers`);
 
   // Merge all transaction types into a comprehensive list
   const mergedTransactions = mergeAllTransactions(
-    regularTransactions,
-    internalTransactions,
-    tokenTransfers,
-    nftTransfers,
-    erc1155Transfers
+    address,
+    regularTransactions.items,
+    internalTransactions.items,
+    tokenTransfers.items,
+    nftTransfers.items,
+    erc1155Transfers.items
   );
 
   // Sort by timestamp (newest first)
@@ -80,34 +105,26 @@ export async function fetchAllTransactionsClientSide(
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
   );
 
-  const dates = mergedTransactions.map((tx) => new Date(tx.timestamp));
-  const firstDate =
-    dates.length > 0
-      ? new Date(Math.min(...dates.map((d) => d.getTime())))
-      : null;
-  const lastDate =
-    dates.length > 0
-      ? new Date(Math.max(...dates.map((d) => d.getTime())))
-      : null;
-
   console.log(`[Celo] FINAL: ${mergedTransactions.length} unique transactions (comprehensive)`);
 
   return {
     transactions: mergedTransactions,
-    metadata: {
+    metadata: buildFetchMetadata({
       address,
       chain: CHAIN_ID,
-      totalFetched: mergedTransactions.length,
-      regularTxCount: regularTransactions.length,
-      internalTxCount: internalTransactions.length,
-      tokenTransferCount: tokenTransfers.length,
-      nftTransferCount: nftTransfers.length,
-      erc1155TransferCount: erc1155Transfers.length,
-      firstTransactionDate: firstDate?.toISOString(),
-      lastTransactionDate: lastDate?.toISOString(),
       dataSource: "Etherscan v2 API (Comprehensive)",
-      chainId: CHAIN_ID_NUM,
-    },
+      startedAt,
+      transactions: mergedTransactions,
+      since: options.since,
+      dateRange: options.dateRange,
+      sources: [
+        regularTransactions.stats,
+        internalTransactions.stats,
+        tokenTransfers.stats,
+        nftTransfers.stats,
+        erc1155Transfers.stats,
+      ],
+    }),
   };
 }
 
@@ -116,13 +133,13 @@ export async function fetchAllTransactionsClientSide(
  */
 async function fetchAllRegularTransactions(
   address: string,
-  onProgress?: (count: number, page: number) => void,
-): Promise<EtherscanTransaction[]> {
+  options: CeloFetchOptions,
+): Promise<PaginatedResult<EtherscanTransaction>> {
   return fetchWithPagination<EtherscanTransaction>(
     address,
     'txlist',
     'regular',
-    onProgress
+    options
   );
 }
 
@@ -137,12 +154,14 @@ async function fetchAllRegularTransactions(
  * - Multi-sig operations
  */
 async function fetchAllInternalTransactions(
-  address: string
-): Promise<EtherscanInternalTransaction[]> {
+  address: string,
+  options: CeloFetchOptions
+): Promise<PaginatedResult<EtherscanInternalTransaction>> {
   return fetchWithPagination<EtherscanInternalTransaction>(
     address,
     'txlistinternal',
-    'internal'
+    'internal',
+    options
   );
 }
 
@@ -150,12 +169,14 @@ async function fetchAllInternalTransactions(
  * Fetch all ERC20 token transfers using tokentx endpoint
  */
 async function fetchAllTokenTransfers(
-  address: string
-): Promise<EtherscanTokenTransfer[]> {
+  address: string,
+  options: CeloFetchOptions
+): Promise<PaginatedResult<EtherscanTokenTransfer>> {
   return fetchWithPagination<EtherscanTokenTransfer>(
     address,
     'tokentx',
-    'token'
+    'token',
+    options
   );
 }
 
@@ -163,12 +184,14 @@ async function fetchAllTokenTransfers(
  * Fetch all ERC721 (NFT) transfers using tokennfttx endpoint
  */
 async function fetchAllNFTTransfers(
-  address: string
-): Promise<EtherscanNFTTransfer[]> {
+  address: string,
+  options: CeloFetchOptions
+): Promise<PaginatedResult<EtherscanNFTTransfer>> {
   return fetchWithPagination<EtherscanNFTTransfer>(
     address,
     'tokennfttx',
-    'nft'
+    'nft',
+    options
   );
 }
 
@@ -176,30 +199,123 @@ async function fetchAllNFTTransfers(
  * Fetch all ERC1155 token transfers using token1155tx endpoint
  */
 async function fetchAllERC1155Transfers(
-  address: string
-): Promise<EtherscanERC1155Transfer[]> {
+  address: string,
+  options: CeloFetchOptions
+): Promise<PaginatedResult<EtherscanERC1155Transfer>> {
   return fetchWithPagination<EtherscanERC1155Transfer>(
     address,
     'token1155tx',
-    'erc1155'
+    'erc1155',
+    options
   );
 }
 
+interface PaginatedResult<T> {
+  items: T[];
+  stats: SourceFetchStats;
+}
+
+/**
+ * Block closest to a unix timestamp, via Etherscan's block-by-time lookup
+ */
+async function getBlockByTime(
+  timestamp: number,
+  closest: "before" | "after",
+): Promise<number | undefined> {
+  const url = `${BASE_URL}?module=block&action=getblocknobytime&chainid=${CHAIN_ID_NUM}&timestamp=${timestamp}&closest=${closest}&apikey=${getApiKey("celo")}`;
+  try {
+    const response = await fetch(url);
+    const data = await response.json();
+    if (data.status !== "1") {
+      console.warn(`[Celo] No block ${closest} ${timestamp}:`, data.message || data.result);
+      return undefined;
+    }
+    return Number(data.result);
+  } catch (error) {
+    console.error(`[Celo] Block lookup failed for ${timestamp}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Turn the date range into start and end blocks; a bound that cannot be
+ * resolved is left open and the caller's date filter drops the extra rows
+ */
+async function resolveBlockRange(options: FetchOptions): Promise<CeloFetchOptions> {
+  if (!options.dateRange) return options;
+  const { from, to } = toUnixRange(options.dateRange);
+
+  const startBlock = from !== undefined ? await getBlockByTime(from, "after") : undefined;
+  if (from !== undefined && to !== undefined) {
+    await new Promise((resolve) => setTimeout(resolve, DELAY_MS));
+  }
+  // The range end is exclusive
+  const endBlock = to !== undefined ? await getBlockByTime(to - 1, "before") : undefined;
+
+  console.log(`[Celo] Date range resolved to blocks ${startBlock ?? "genesis"} - ${endBlock ?? "latest"}`);
+  return { ...options, startBlock, endBlock };
+}
+
+// Human readable names for each Etherscan action, shown in the results view
+const ACTION_LABELS: Record<string, string> = {
+  txlist: "Regular transactions",
+  txlistinternal: "Internal transactions",
+  tokentx: "ERC20 transfers",
+  tokennfttx: "ERC721 (NFT) transfers",
+  token1155tx: "ERC1155 transfers",
+};
+
 /**
  * Generic pagination function for all Etherscan endpoints
+ *
+ * Etherscan caps page * offset at 10,000 results, so a truncated source resumes
+ * from page 1 with endblock set to the lowest block already fetched. Items of
+ * that boundary block come back twice and are de-duplicated by the caller.
  */
-async function fetchWithPagination<T>(
+async function fetchWithPagination<T extends { blockNumber: string }>(
   address: string,
   action: string,
   typeLabel: string,
-  onProgress?: (count: number, page: number) => void
-): Promise<T[]> {
-  const allItems: T[] = [];
-  let page = 1;
+  options: CeloFetchOptions
+): Promise<PaginatedResult<T>> {
+  const { onProgress } = options;
+  const start = restoreSource<T>(options, action, ACTION_LABELS[action] || action);
+  const { stats, cursor } = start;
+  const allItems: T[] = [...start.items];
+
+  if (start.skip) {
+    return { items: allItems, stats };
+  }
+  // Both bounds are inclusive; the tighter of the date range and the
+  // resume cursor or sync cursor wins
+  const upperBlocks = [
+    cursor?.beforeBlock ? Number(cursor.beforeBlock) : undefined,
+    options.endBlock,
+  ].filter((block): block is number => block !== undefined);
+  const lowerBlocks = [
+    options.since ? Number(options.since.block) + 1 : undefined,
+    options.startBlock,
+  ].filter((block): block is number => block !== undefined);
+  const endBlock = upperBlocks.length > 0
+    ? `&endblock=${Math.min(...upperBlocks)}`
+    : "";
+  const startBlock = lowerBlocks.length > 0
+    ? `&startblock=${Math.max(...lowerBlocks)}`
+    : "";
+
+  let page = cursor?.page ?? 1;
   let hasMore = true;
 
+  // Resume point if this source is cut short: the lowest block fetched so far
+  const nextCursor = () => ({
+    page: 1,
+    beforeBlock: allItems.length > 0
+      ? allItems[allItems.length - 1].blockNumber
+      : cursor?.beforeBlock,
+  });
+
   while (hasMore && page <= MAX_PAGES) {
-    const url = `${BASE_URL}?module=account&action=${action}&address=${address}&chainid=${CHAIN_ID_NUM}&page=${page}&offset=${PAGE_SIZE}&sort=desc&apikey=${getApiKey("celo")}`;
+    const url = `${BASE_URL}?module=account&action=${action}&address=${address}&chainid=${CHAIN_ID_NUM}&page=${page}&offset=${PAGE_SIZE}&sort=desc${startBlock}${endBlock}&apikey=${getApiKey("celo")}`;
 
     console.log(`[Celo] Fetching ${typeLabel} page ${page}...`);
 
@@ -215,6 +331,7 @@ async function fetchWithPagination<T>(
           break;
         }
         console.error(`[Celo] ${typeLabel} page ${page} error:`, data.message || data.result);
+        markTruncated(stats, "error", nextCursor(), `Page ${page} failed: ${data.message || data.result}`);
         break;
       }
 
@@ -235,6 +352,14 @@ async function fetchWithPagination<T>(
 
       hasMore = items.length === PAGE_SIZE;
       page++;
+      stats.count = allItems.length;
+      stats.pagesFetched++;
+      await reportPage(
+        options,
+        stats,
+        hasMore ? { page, beforeBlock: cursor?.beforeBlock } : null,
+        items
+      );
 
       // Rate limiting
       if (hasMore) {
@@ -242,20 +367,30 @@ async function fetchWithPagination<T>(
       }
     } catch (error) {
       console.error(`[Celo] ${typeLabel} page ${page} exception:`, error);
+      markTruncated(stats, "error", nextCursor(), `Page ${page} failed: ${error instanceof Error ? error.message : String(error)}`);
       break;
     }
   }
 
-  return allItems;
+  if (hasMore && page > MAX_PAGES) {
+    console.warn(`[Celo] ${typeLabel} stopped at MAX_PAGES (${MAX_PAGES})`);
+    markTruncated(stats, "page_limit", nextCursor());
+  }
+  stats.count = allItems.length;
+
+  return { items: allItems, stats };
 }
 
 /**
  * Merge ALL transaction types into comprehensive ChainTransaction list
  * 
  * IMPORTANT: For cost basis accuracy, each token transfer becomes its own transaction row,
- * even if multiple transfers share the same transaction hash.
+ * even if multiple transfers share the same transaction hash. The exception is a swap:
+ * when the legs of one hash leave the wallet with a net outflow of one asset and a net
+ * inflow of another, they collapse into a single row with the gas fee counted once.
  */
 function mergeAllTransactions(
+  address: string,
   regularTransactions: EtherscanTransaction[],
   internalTransactions: EtherscanInternalTransaction[],
   tokenTransfers: EtherscanTokenTransfer[],
@@ -263,32 +398,60 @@ function mergeAllTransactions(
   erc1155Transfers: EtherscanERC1155Transfer[]
 ): ChainTransaction[] {
   const chainTransactions: ChainTransaction[] = [];
+  const walletLower = address.toLowerCase();
+
+  // Group every leg by transaction hash
+  const groups = new Map<string, TransferGroup>();
+  const getGroup = (hash: string): TransferGroup => {
+    let group = groups.get(hash);
+    if (!group) {
+      group = { internal: [], erc20: [], nft: [], erc1155: [] };
+      groups.set(hash, group);
+    }
+    return group;
+  };
+  regularTransactions.forEach(tx => { getGroup(tx.hash).regular = tx; });
+  internalTransactions.forEach(tx => getGroup(tx.hash).internal.push(tx));
+  tokenTransfers.forEach(transfer => getGroup(transfer.hash).erc20.push(transfer));
+  nftTransfers.forEach(transfer => getGroup(transfer.hash).nft.push(transfer));
+  erc1155Transfers.forEach(transfer => getGroup(transfer.hash).erc1155.push(transfer));
+
+  let swapCount = 0;
+  groups.forEach((group, hash) => {
+    const legCount = (group.regular ? 1 : 0) + group.internal.length +
+      group.erc20.length + group.nft.length + group.erc1155.length;
+
+    if (legCount > 1) {
+      const grouped = convertTransferToChainTransaction(hash, group);
+      const legs = getNetLegs(grouped, walletLower);
+      if (legs.some(leg => leg.net < BigInt(0)) && legs.some(leg => leg.net > BigInt(0))) {
+        chainTransactions.push(grouped);
+        swapCount++;
+        return;
+      }
+    }
 
-  // Convert regular transactions (these capture native CELO transfers and contract calls)
-  regularTransactions.forEach(tx => {
-    chainTransactions.push(convertRegularTransaction(tx));
-  });
-
-  // Convert internal transactions
-  internalTransactions.forEach(tx => {
-    chainTransactions.push(convertInternalTransaction(tx));
-  });
-
-  // Convert EACH ERC20 token transfer as its own transaction
-  // This ensures every token movement appears as a separate row in the CSV
-  tokenTransfers.forEach(transfer => {
-    chainTransactions.push(convertERC20TransferToChainTransaction(transfer));
-  });
+    // Regular transactions capture native CELO transfers and contract calls
+    if (group.regular) {
+      chainTransactions.push(convertRegularTransaction(group.regular));
+    }
+    group.internal.forEach(tx => {
+      chainTransactions.push(convertInternalTransaction(tx));
+    });
 
-  // Convert EACH NFT transfer as its own transaction
-  nftTransfers.forEach(transfer => {
-    chainTransactions.push(convertNFTTransferToChainTransaction(transfer));
+    // EACH token transfer becomes a separate row in the CSV
+    group.erc20.forEach(transfer => {
+      chainTransactions.push(convertERC20TransferToChainTransaction(transfer));
+    });
+    group.nft.forEach(transfer => {
+      chainTransactions.push(convertNFTTransferToChainTransaction(transfer));
+    });
+    group.erc1155.forEach(transfer => {
+      chainTransactions.push(convertERC1155TransferToChainTransaction(transfer));
+    });
   });
 
-  // Convert EACH ERC1155 transfer as its own transaction
-  erc1155Transfers.forEach(transfer => {
-    chainTransactions.push(convertERC1155TransferToChainTransaction(transfer));
-  });
+  console.log(`[Celo] Reconstructed ${swapCount} swaps from grouped transfers`);
 
   return chainTransactions;
 }
@@ -386,17 +549,47 @@ function convertInternalTransaction(tx: EtherscanInternalTransaction): ChainTran
 }
 
 /**
- * Convert orphaned transfers to ChainTransaction
+ * Convert all legs of one transaction hash to a single ChainTransaction
+ * Native CELO legs (the call value and internal transfers) become native_transfer
+ * events next to the token events; the gas fee of the outer call is kept once
  */
 function convertTransferToChainTransaction(
   hash: string,
-  representative: EtherscanTokenTransfer | EtherscanNFTTransfer | EtherscanERC1155Transfer,
   transfers: TransferGroup
 ): ChainTransaction {
   const tokenEvents: TxEvent[] = [];
+  const regular = transfers.regular;
+
+  const nativeLegs = [
+    ...(regular ? [regular] : []),
+    ...transfers.internal.filter(tx => tx.isError !== "1"),
+  ].filter(tx => tx.value && tx.value !== "0");
+
+  nativeLegs.forEach(tx => {
+    tokenEvents.push({
+      type: "native_transfer",
+      attributes: [
+        { key: "token_symbol", value: "CELO" },
+        { key: "decimals", value: "18" },
+        { key: "value", value: tx.value },
+        { key: "from", value: tx.from },
+        { key: "to", value: tx.to },
+        { key: "token_type", value: "native" },
+      ],
+    });
+  });
+
+  // CELO is also an ERC20; skip token events that mirror a native leg
+  const isNativeMirror = (transfer: EtherscanTokenTransfer) =>
+    transfer.contractAddress?.toLowerCase() === CELO_TOKEN_ADDRESS &&
+    nativeLegs.some(tx =>
+      tx.from.toLowerCase() === transfer.from.toLowerCase() &&
+      tx.to.toLowerCase() === transfer.to.toLowerCase() &&
+      tx.value === transfer.value
+    );
 
   // ERC20 transfers
-  transfers.erc20.forEach(transfer => {
+  transfers.erc20.filter(transfer => !isNativeMirror(transfer)).forEach(transfer => {
     const metadata = getTokenMetadata(
       transfer.contractAddress,
       transfer.tokenSymbol,
@@ -467,18 +660,22 @@ function convertTransferToChainTransaction(
     });
   });
 
-  // Get from/to from first available transfer
-  const firstTransfer = transfers.erc20[0] || transfers.nft[0] || transfers.erc1155[0];
+  // Get from/to from the outer call, else from the first available transfer
+  const firstTransfer = regular || transfers.internal[0] || transfers.erc20[0] ||
+    transfers.nft[0] || transfers.erc1155[0];
+  const fee = regular
+    ? (BigInt(regular.gasUsed || 0) * BigInt(regular.gasPrice || 0)).toString()
+    : "";
 
   return {
     hash,
-    height: (representative as any).blockNumber || "0",
-    timestamp: new Date(parseInt((representative as any).timeStamp) * 1000).toISOString(),
-    code: 0,
+    height: firstTransfer?.blockNumber || "0",
+    timestamp: new Date(parseInt(firstTransfer?.timeStamp || "0") * 1000).toISOString(),
+    code: regular?.isError === "1" ? 1 : 0,
     chain: CHAIN_ID,
     logs: [{
       msg_index: 0,
-      log: "Token transfers",
+      log: GROUPED_TRANSFERS_LOG,
       events: tokenEvents,
     }],
     tx: {
@@ -496,17 +693,81 @@ function convertTransferToChainTransaction(
             ],
           },
         ],
-        memo: "Token transfer",
+        memo: regular?.functionName ? `Swap: ${regular.functionName.split("(")[0]}` : "Swap",
       },
       auth_info: {
         fee: {
-          amount: [],
+          amount: fee ? [{ amount: fee, denom: "wei" }] : [],
         },
       },
     },
   };
 }
 
+/**
+ * Net amount of every asset moved to (+) or from (-) the wallet by the
+ * transfer events of a grouped transaction; assets that net to zero are dropped
+ */
+function getNetLegs(tx: ChainTransaction, walletLower: string): NetLeg[] {
+  const legs = new Map<string, NetLeg>();
+
+  for (const log of tx.logs || []) {
+    for (const event of log.events || []) {
+      if (!TRANSFER_EVENT_TYPES.includes(event.type)) continue;
+
+      const attrs: Record<string, string> = {};
+      for (const attr of event.attributes) {
+        attrs[attr.key] = attr.value;
+      }
+
+      const tokenType = attrs["token_type"] || "ERC20";
+      const tokenId = attrs["token_id"];
+      const value = tokenType === "ERC721" ? BigInt(1) : BigInt(attrs["value"] || "0");
+      const fromWallet = (attrs["from"] || "").toLowerCase() === walletLower;
+      const toWallet = (attrs["to"] || "").toLowerCase() === walletLower;
+      if (fromWallet === toWallet) continue;
+
+      const key = `${tokenType}:${attrs["sender_address"] || ""}:${tokenId || ""}`;
+      let leg = legs.get(key);
+      if (!leg) {
+        leg = {
+          symbol: attrs["token_symbol"] || "",
+          contract: tokenType === "ERC20" ? attrs["sender_address"] : undefined,
+          tokenType,
+          decimals: parseInt(attrs["decimals"] || "0") || 0,
+          tokenId,
+          net: BigInt(0),
+        };
+        legs.set(key, leg);
+      }
+      leg.net += toWallet ? value : -value;
+    }
+  }
+
+  return Array.from(legs.values()).filter(leg => leg.net !== BigInt(0));
+}
+
+function formatLegAmount(leg: NetLeg): string {
+  const value = leg.net < BigInt(0) ? -leg.net : leg.net;
+  if (leg.tokenType === "ERC721") {
+    return value.toString();
+  }
+  return formatUnits(value, leg.decimals);
+}
+
+function formatLegCurrency(leg: NetLeg): string {
+  return leg.tokenId ? `${leg.symbol}#${leg.tokenId}` : leg.symbol;
+}
+
+function toMovement(leg: NetLeg): AssetMovement {
+  return {
+    direction: leg.net < BigInt(0) ? "out" : "in",
+    amount: formatLegAmount(leg),
+    currency: formatLegCurrency(leg),
+    contract: leg.contract,
+  };
+}
+
 /**
  * Convert ERC20 token transfer to ChainTransaction
  * Each transfer becomes its own transaction for cost basis tracking
@@ -736,10 +997,79 @@ export function isValidCeloAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
 
+/**
+ * Gas fee of a transaction in CELO, or "" when the wallet paid none
+ */
+function formatFee(tx: ChainTransaction): string {
+  const feeAmount = tx.tx?.auth_info?.fee?.amount?.[0];
+  if (feeAmount && feeAmount.amount && feeAmount.amount !== "0") {
+    return formatUnits(feeAmount.amount, 18);
+  }
+  return "";
+}
+
+/**
+ * Parse a transaction built from all legs of one hash into a single swap row
+ * The first net outflow and inflow fill the sent and received columns; every
+ * leg is listed in the notes and in movements
+ */
+function parseGroupedTransaction(
+  tx: ChainTransaction,
+  walletAddress: string,
+): ParsedTransaction {
+  const legs = getNetLegs(tx, walletAddress.toLowerCase());
+  const sent = legs.filter(leg => leg.net < BigInt(0));
+  const received = legs.filter(leg => leg.net > BigInt(0));
+  const message = tx.tx?.body?.messages?.[0];
+  const from = message?.from_address || "";
+  const to = message?.to_address || "";
+
+  const type: TransactionType =
+    sent.length > 0 && received.length > 0 ? "swap" : sent.length > 0 ? "send" : "receive";
+  const main = sent[0] || received[0];
+  const second = sent.length > 0 ? received[0] : undefined;
+  const describe = (list: NetLeg[]) =>
+    list.map(leg => `${formatLegAmount(leg)} ${formatLegCurrency(leg)}`).join(", ");
+
+  let notes = type;
+  if (sent.length > 0) notes += ` - sent ${describe(sent)}`;
+  if (received.length > 0) notes += ` - received ${describe(received)}`;
+  notes += ` - [TX: ${tx.hash}]`;
+  notes += ` (${from.slice(0, 8)}... -> ${to.slice(0, 8)}...)`;
+  if (tx.tx?.body?.memo) {
+    notes += ` (${tx.tx.body.memo})`;
+  }
+
+  return {
+    hash: tx.hash,
+    timestamp: new Date(tx.timestamp),
+    height: parseInt(tx.height, 10) || 0,
+    type,
+    from,
+    to,
+    amount: main ? formatLegAmount(main) : "",
+    currency: main ? formatLegCurrency(main) : "CELO",
+    amount2: second ? formatLegAmount(second) : "",
+    currency2: second ? formatLegCurrency(second) : "",
+    currencyContract: main?.contract,
+    currency2Contract: second?.contract,
+    movements: legs.length > 1 ? legs.map(toMovement) : undefined,
+    fee: formatFee(tx),
+    feeCurrency: "CELO",
+    memo: notes,
+    status: tx.code === 0 ? "success" : "failed",
+    chain: CHAIN_ID,
+  };
+}
+
 export function parseTransaction(
   tx: ChainTransaction,
   walletAddress: string,
 ): ParsedTransaction {
+  if (tx.logs?.[0]?.log === GROUPED_TRANSFERS_LOG) {
+    return parseGroupedTransaction(tx, walletAddress);
+  }
+
   const messages = tx.tx?.body?.messages || [];
   const message = messages[0];
   const walletLower = walletAddress.toLowerCase();
@@ -751,9 +1081,12 @@ export function parseTransaction(
   let currency = "CELO";
   let amount2 = "";
   let currency2 = "";
-  let fee = "";
-  let feeCurrency = "CELO";
+  let currencyContract: string | undefined;
+  let currency2Contract: string | undefined;
+  const fee = formatFee(tx);
+  const feeCurrency = "CELO";
   const tokenTransfers: Array<{ symbol: string; amount: string; from: string; to: string; tokenType: string }> = [];
+  const movements: AssetMovement[] = [];
 
   if (message) {
     from = message.from_address || "";
@@ -773,9 +1106,11 @@ export function parseTransaction(
       if (rawAmount && rawAmount !== "0") {
         if (denom === "wei") {
           // Native CELO: convert from wei (10^18)
-          const num = parseFloat(rawAmount) / 1e18;
-          amount = num.toFixed(6);
+          amount = formatUnits(rawAmount, 18);
           currency = "CELO";
+          if (isOutgoing !== isIncoming) {
+            movements.push({ direction: isOutgoing ? "out" : "in", amount, currency });
+          }
         } else {
           // ERC20 token: use proper decimals from logs
           let decimals = 18; // default
@@ -798,8 +1133,7 @@ export function parseTransaction(
           }
           
           // Convert using proper decimals
-          const num = parseFloat(rawAmount) / Math.pow(10, decimals);
-          amount = num.toFixed(6);
+          amount = formatUnits(rawAmount, decimals);
           currency = denom;
         }
         
@@ -836,8 +1170,7 @@ export function parseTransaction(
                 // NFTs don't have decimals
                 formattedAmount = tokenId ? `1 (ID: ${tokenId})` : "1";
               } else {
-                const tokenAmount = parseFloat(value) / Math.pow(10, decimals || 18);
-                formattedAmount = tokenAmount.toFixed(6);
+                formattedAmount = formatUnits(value, decimals || 18);
               }
 
               tokenTransfers.push({
@@ -852,20 +1185,36 @@ export function parseTransaction(
               const tokenIsOutgoing = fromAddr.toLowerCase() === walletLower;
               const tokenIsIncoming = toAddr.toLowerCase() === walletLower;
 
+              const contract = tokenType === "ERC20" ? attrs["sender_address"] : undefined;
+              if (tokenIsOutgoing !== tokenIsIncoming) {
+                movements.push({
+                  direction: tokenIsOutgoing ? "out" : "in",
+                  amount: formattedAmount,
+                  currency: tokenSymbol,
+                  contract,
+                });
+              }
+
               if (tokenTransfers.length === 1) {
                 if (!amount || amount === "" || amount === "0") {
                   amount = formattedAmount;
                   currency = tokenSymbol;
+                  currencyContract = contract;
                   from = fromAddr;
                   to = toAddr;
                   type = tokenIsOutgoing ? "send" : tokenIsIncoming ? "receive" : "unknown";
+                } else if (currency === tokenSymbol && amount === formattedAmount) {
+                  // The message already carries this transfer (ERC20 rows)
+                  currencyContract = contract;
                 } else if (!amount2) {
                   amount2 = formattedAmount;
                   currency2 = tokenSymbol;
+                  currency2Contract = contract;
                 }
               } else if (tokenTransfers.length === 2 && amount2 === "") {
                 amount2 = formattedAmount;
                 currency2 = tokenSymbol;
+                currency2Contract = contract;
                 
                 const firstTransfer = tokenTransfers[0];
                 const firstIsOutgoing = firstTransfer.from.toLowerCase() === walletLower;
@@ -889,13 +1238,6 @@ export function parseTransaction(
     }
   }
 
-  // Extract fee (convert from wei to CELO)
-  const feeAmount = tx.tx?.auth_info?.fee?.amount?.[0];
-  if (feeAmount && feeAmount.amount && feeAmount.amount !== "0") {
-    const feeNum = parseFloat(feeAmount.amount) / 1e18;
-    fee = feeNum.toFixed(8);
-  }
-
   // Build comprehensive notes for cost basis tracking
   let notes = type;
   
@@ -932,6 +1274,9 @@ export function parseTransaction(
     currency,
     amount2,
     currency2,
+    currencyContract,
+    currency2Contract,
+    movements: movements.length > 1 ? movements : undefined,
     fee,
     feeCurrency,
     memo: notes,
@@ -940,6 +1285,17 @@ export function parseTransaction(
   };
 }
 
+export const celoAdapter: ChainAdapter = {
+  chainId: CHAIN_ID,
+  version: 4, // 2: swaps collapsed into one row per hash; 3: exact decimal amounts; 4: every leg in movements
+  attribution: { name: "Etherscan.io", url: "https://etherscan.io" },
+  supportsDateRange: true,
+  knownTokens: Object.keys(CELO_TOKEN_MAP).map((a) => a.toLowerCase()),
+  isValidAddress: isValidCeloAddress,
+  fetchTransactions: fetchAllTransactionsClientSide,
+  parseTransaction,
+};
+
 // Type definitions for Etherscan API responses
 interface EtherscanTransaction {
   blockNumber: string;
@@ -1049,11 +1405,22 @@ interface EtherscanERC1155Transfer {
 }
 
 interface TransferGroup {
+  regular?: EtherscanTransaction;
+  internal: EtherscanInternalTransaction[];
   erc20: EtherscanTokenTransfer[];
   nft: EtherscanNFTTransfer[];
   erc1155: EtherscanERC1155Transfer[];
 }
 
+interface NetLeg {
+  symbol: string;
+  contract?: string;
+  tokenType: string;
+  decimals: number;
+  tokenId?: string;
+  net: bigint; // Raw units; positive when received by the wallet, negative when sent
+}
+
 interface TxEvent {
   type: string;
   attributes: { key: string; value: string }[];
@@ -0,0 +1,121 @@
+import { PriceQuery, PriceSource } from "../types";
+import { getApiKey } from "../utils/apiKeys";
+import { isKnownAsset } from "./registry";
+
+const BASE_URL = "https://api.coingecko.com/api/v3";
+
+// Demo plan: 30 requests/min, using 2.1s between requests for safety
+const DELAY_MS = 2100;
+const DAY_SECONDS = 24 * 60 * 60;
+
+// CoinGecko coin ids of the native and common tokens of supported chains
+// Only looked up for native coins, the token contracts adapters know and
+// currencies the user entered, so a spam token named after one of these is
+// never priced
+const COINGECKO_IDS: Record<string, string> = {
+  CELO: "celo",
+  CUSD: "celo-dollar",
+  CEUR: "celo-euro",
+  CREAL: "celo-real-creal",
+  RON: "ronin",
+  WRON: "ronin",
+  AXS: "axie-infinity",
+  SLP: "smooth-love-potion",
+  TIA: "celestia",
+  XTZ: "tezos",
+  NEAR: "near",
+  WNEAR: "near",
+  OSMO: "osmosis",
+  ATOM: "cosmos",
+  BABY: "babylon",
+  USDC: "usd-coin",
+  USDT: "tether",
+  DAI: "dai",
+  WETH: "weth",
+  ETH: "ethereum",
+};
+
+/**
+ * Fetch USD daily closes of one coin for a range of days
+ * Returns closes keyed by UTC day; the last point of a day is its close.
+ * Ranges over 90 days come back as one point per day at 00:00 UTC, the
+ * close of the day before, so a point exactly at midnight closes that day.
+ */
+async function fetchDailyCloses(
+  coinId: string,
+  firstDate: string,
+  lastDate: string,
+  apiKey: string,
+): Promise<Map<string, number>> {
+  const from = Math.floor(new Date(firstDate).getTime() / 1000);
+  // Up to the midnight after the last day, whose point is its close
+  const to = Math.floor(new Date(lastDate).getTime() / 1000) + 2 * DAY_SECONDS;
+  const url = `${BASE_URL}/coins/${coinId}/market_chart/range?vs_currency=usd&from=${from}&to=${to}&x_cg_demo_api_key=${apiKey}`;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status}`);
+  }
+  const data: { prices?: [number, number][] } = await response.json();
+
+  const closes = new Map<string, number>();
+  for (const [timestamp, price] of data.prices || []) {
+    const day = timestamp % (DAY_SECONDS * 1000) === 0 ? timestamp - 1 : timestamp;
+    closes.set(new Date(day).toISOString().slice(0, 10), price);
+  }
+  return closes;
+}
+
+/**
+ * Remote price source for well-known tokens; needs a CoinGecko API key
+ * Each coin is fetched once for the whole date range of the queries
+ */
+export const coinGeckoPriceSource: PriceSource = {
+  id: "coingecko",
+  name: "CoinGecko",
+  async getPrices(queries) {
+    const prices = new Map<PriceQuery, number>();
+    const apiKey = getApiKey("coingecko");
+    if (!apiKey) return prices;
+
+    const byCoin = new Map<string, PriceQuery[]>();
+    for (const query of queries) {
+      if (
+        !query.manual &&
+        !isKnownAsset(query.chain, query.symbol, query.contract)
+      ) {
+        continue;
+      }
+      const coinId = COINGECKO_IDS[query.symbol.toUpperCase()];
+      if (!coinId) continue;
+      if (!byCoin.has(coinId)) byCoin.set(coinId, []);
+      byCoin.get(coinId)!.push(query);
+    }
+
+    let first = true;
+    for (const [coinId, coinQueries] of byCoin) {
+      if (!first) await new Promise((resolve) => setTimeout(resolve, DELAY_MS));
+      first = false;
+
+      const dates = coinQueries.map((q) => q.date).sort();
+      try {
+        console.log(
+          `[CoinGecko] Fetching ${coinId} closes ${dates[0]} to ${dates[dates.length - 1]}`,
+        );
+        const closes = await fetchDailyCloses(
+          coinId,
+          dates[0],
+          dates[dates.length - 1],
+          apiKey,
+        );
+        for (const query of coinQueries) {
+          const close = closes.get(query.date);
+          if (close !== undefined) prices.set(query, close);
+        }
+      } catch (e) {
+        console.error(`[CoinGecko] Error fetching ${coinId}:`, e);
+      }
+    }
+    return prices;
+  },
+};
@@ -1,9 +1,16 @@
 import {
-  ChainTransaction,
+  ChainAdapter,
+  FetchOptions,
+  FetchResult,
+  NearReceipt,
   ParsedTransaction,
   TransactionType,
-  ChainId,
 } from "../types";
+import { buildFetchMetadata, markTruncated } from "../utils/fetchMetadata";
+import { reportPage, restoreSource } from "../utils/checkpoints";
+import { formatUnits, toBigInt } from "../utils/units";
+import { getTokenMetadata, resolveTokenMetadata } from "../utils/nearTokens";
+import { NEAR_TOKENS } from "../config/nearTokens";
 
 /**
  * Pikespeak API client for NEAR Protocol
@@ -27,30 +34,6 @@ const PAGE_SIZE = 50;
 // Maximum pages to fetch (safety limit - 100 pages = 5,000 transactions)
 const MAX_PAGES = 100;
 
-interface PikespeakTransaction {
-  receipt_id: string;
-  block_height: number;
-  block_timestamp: number;
-  predecessor_account_id: string;
-  receiver_account_id: string;
-  receipt_kind: string;
-  args: {
-    method_name?: string;
-    args_json?: Record<string, any>;
-    args_base64?: string;
-  };
-  actions: Array<{
-    action: string;
-    args?: Record<string, any>;
-  }>;
-  receipt_outcome: {
-    status: boolean | { SuccessValue?: string; SuccessReceiptId?: string };
-    gas_burnt: number;
-    tokens_burnt: string;
-    logs: string[];
-  };
-}
-
 interface PikespeakBalanceResponse {
   contract: string;
   amount: number;
@@ -103,9 +86,13 @@ async function fetchAccountBalances(address: string): Promise<PikespeakBalanceRe
  */
 export async function fetchAllTransactionsClientSide(
   address: string,
-  onProgress?: (count: number, page: number) => void,
-): Promise<{ transactions: ChainTransaction[]; metadata: any }> {
+  options: FetchOptions = {},
+): Promise<FetchResult<NearReceipt>> {
+  const { onProgress } = options;
   console.log(`[Pikespeak] Starting fetch for ${address}`);
+  const startedAt = new Date();
+  const start = restoreSource<NearReceipt>(options, "account_transactions", "Account transactions");
+  const { stats } = start;
   
   // First verify account exists
   try {
@@ -115,12 +102,13 @@ export async function fetchAllTransactionsClientSide(
     // Continue anyway - account might just have no transactions
   }
   
-  const allTransactions: ChainTransaction[] = [];
-  let page = 1;
-  let hasMore = true;
+  const allTransactions: NearReceipt[] = [...start.items];
+  const startPage = start.cursor?.page ?? 1;
+  let page = startPage;
+  let hasMore = !start.skip;
   let totalPages = 0;
   
-  while (hasMore && page <= MAX_PAGES) {
+  while (hasMore && page < startPage + MAX_PAGES) {
     try {
       const url = `${PIKESPEAK_BASE_URL}/account/transactions/${address}?page=${page}&per_page=${PAGE_SIZE}`;
       
@@ -140,11 +128,12 @@ export async function fetchAllTransactionsClientSide(
         if (allTransactions.length === 0) {
           throw new Error(`Pikespeak API error: ${response.status}`);
         }
+        markTruncated(stats, "error", { page }, `Page ${page} failed: HTTP ${response.status}`);
         break;
       }
       
       const data = await response.json();
-      const txs: PikespeakTransaction[] = data.transactions || [];
+      const txs: NearReceipt[] = data.transactions || [];
       
       if (txs.length === 0) {
         hasMore = false;
@@ -152,13 +141,7 @@ export async function fetchAllTransactionsClientSide(
         break;
       }
       
-      // Convert to ChainTransaction format
-      for (const tx of txs) {
-        const converted = convertPikespeakToChainTransaction(tx, address);
-        if (converted) {
-          allTransactions.push(converted);
-        }
-      }
+      allTransactions.push(...txs);
       
       if (onProgress) {
         onProgress(allTransactions.length, page);
@@ -172,6 +155,9 @@ export async function fetchAllTransactionsClientSide(
       hasMore = txs.length === PAGE_SIZE;
       page++;
       totalPages++;
+      stats.count = allTransactions.length;
+      stats.pagesFetched++;
+      await reportPage(options, stats, hasMore ? { page } : null, txs);
       
       // Rate limiting - be nice to the API
       await new Promise((resolve) => setTimeout(resolve, 100));
@@ -181,295 +167,300 @@ export async function fetchAllTransactionsClientSide(
       if (allTransactions.length === 0) {
         throw error;
       }
+      markTruncated(stats, "error", { page }, `Page ${page} failed: ${error instanceof Error ? error.message : String(error)}`);
       break;
     }
   }
+
+  if (hasMore && page >= startPage + MAX_PAGES) {
+    console.warn(`[Pikespeak] Stopped at MAX_PAGES (${MAX_PAGES})`);
+    markTruncated(stats, "page_limit", { page });
+  }
+  stats.count = allTransactions.length;
   
   // Sort by timestamp (newest first)
-  allTransactions.sort(
-    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+  allTransactions.sort((a, b) => b.block_timestamp - a.block_timestamp);
+
+  await resolveTokenMetadata(
+    allTransactions
+      .filter((receipt) => getTokenDelta(receipt, address) !== null)
+      .map((receipt) => receipt.receiver_account_id),
   );
   
-  const dates = allTransactions.map((tx) => new Date(tx.timestamp));
-  const firstDate = dates.length > 0 ? new Date(Math.min(...dates.map((d) => d.getTime()))) : null;
-  const lastDate = dates.length > 0 ? new Date(Math.max(...dates.map((d) => d.getTime()))) : null;
-  
   console.log(
     `[Pikespeak] COMPLETE: ${allTransactions.length} transactions over ${totalPages} pages`,
   );
   
   return {
     transactions: allTransactions,
-    metadata: {
+    metadata: buildFetchMetadata({
       address,
-      chain: "near" as ChainId,
-      totalFetched: allTransactions.length,
-      totalPages,
-      firstTransactionDate: firstDate?.toISOString(),
-      lastTransactionDate: lastDate?.toISOString(),
+      chain: "near",
       dataSource: "Pikespeak API",
-    },
+      startedAt,
+      sources: [stats],
+      transactions: allTransactions.map((receipt) => ({
+        timestamp: getTimestamp(receipt),
+        height: receipt.block_height,
+      })),
+    }),
   };
 }
 
+const NEAR_DECIMALS = 24;
+const WRAP_CONTRACT = "wrap.near";
+const STAKING_POOL = /\.(pool|poolv1)\.near$/;
+// Calls that move a NEP-141 token, when the contract logs no events
+const FT_METHODS = ["ft_transfer", "ft_transfer_call"];
+// NEP-141 transfers attach one yoctoNEAR as a security check, not a payment
+const ONE_YOCTO = BigInt(1);
+
+interface Nep141Event {
+  standard: string;
+  event: string; // ft_transfer, ft_mint or ft_burn
+  data: Array<{
+    old_owner_id?: string;
+    new_owner_id?: string;
+    owner_id?: string;
+    amount: string;
+    memo?: string;
+  }>;
+}
+
+interface TokenDelta {
+  value: bigint; // To (+) or from (-) the wallet, in the token's units
+  counterparty: string;
+  memo?: string;
+}
+
+function getTimestamp(receipt: NearReceipt): Date {
+  // Nanoseconds exceed a safe integer; milliseconds are all that is kept
+  return new Date(Math.floor(receipt.block_timestamp / 1_000_000));
+}
+
 /**
- * Convert Pikespeak transaction to ChainTransaction format
+ * yoctoNEAR attached to the receipt's actions
  */
-function convertPikespeakToChainTransaction(
-  tx: PikespeakTransaction,
-  walletAddress: string,
-): ChainTransaction | null {
-  // Convert timestamp from nanoseconds to milliseconds
-  const timestampMs = Math.floor(tx.block_timestamp / 1_000_000);
-  
-  // Determine transaction type and details
-  const { type, amount, currency, from, to, memo } = parseTransactionDetails(tx, walletAddress);
-  
-  // Skip failed transactions
-  const isSuccess = tx.receipt_outcome.status === true || 
-    (typeof tx.receipt_outcome.status === 'object' && 
-     (tx.receipt_outcome.status.SuccessValue !== undefined || 
-      tx.receipt_outcome.status.SuccessReceiptId !== undefined));
-  
-  // Build messages array
-  const messages: any[] = [];
-  
-  // Add the main action as a message
-  if (tx.args.method_name) {
-    messages.push({
-      "@type": `/near.${tx.receipt_kind}.${tx.args.method_name}`,
-      from_address: tx.predecessor_account_id,
-      to_address: tx.receiver_account_id,
-      sender: tx.predecessor_account_id,
-      receiver: tx.receiver_account_id,
-      amount: amount ? [{ amount, denom: currency }] : undefined,
-    });
-  } else {
-    // Native transfer
-    messages.push({
-      "@type": "/near.bank.MsgSend",
-      from_address: tx.predecessor_account_id,
-      to_address: tx.receiver_account_id,
-      amount: amount ? [{ amount, denom: currency }] : undefined,
-    });
-  }
-  
-  // Calculate fee (tokens_burnt is in yoctoNEAR)
-  const feeYocto = tx.receipt_outcome.tokens_burnt || "0";
-  const feeNear = (BigInt(feeYocto) / BigInt("1000000000000000000000000")).toString();
-  
-  return {
-    hash: tx.receipt_id,
-    height: String(tx.block_height),
-    timestamp: new Date(timestampMs).toISOString(),
-    code: isSuccess ? 0 : 1,
-    chain: "near" as ChainId,
-    logs: tx.receipt_outcome.logs.map((log, i) => ({
-      msg_index: i,
-      log,
-      events: [],
-    })),
-    tx: {
-      body: {
-        messages,
-        memo: memo || `${tx.receipt_kind} - ${tx.args.method_name || 'transfer'}`,
-      },
-      auth_info: {
-        fee: {
-          amount: [
-            {
-              amount: feeYocto,
-              denom: "near",
-            },
-          ],
-        },
-      },
-    },
-  };
+function getDeposit(receipt: NearReceipt): bigint {
+  return (receipt.actions || []).reduce(
+    (sum, action) => sum + toBigInt(action.args?.deposit || 0),
+    BigInt(0),
+  );
 }
 
 /**
- * Parse transaction details from Pikespeak data
+ * NEP-141 events a token contract logged as "EVENT_JSON:{...}"
  */
-function parseTransactionDetails(
-  tx: PikespeakTransaction,
-  walletAddress: string,
-): {
-  type: TransactionType;
-  amount: string;
-  currency: string;
-  from: string;
-  to: string;
-  memo: string;
-} {
-  const methodName = tx.args.method_name || "";
-  const predecessor = tx.predecessor_account_id;
-  const receiver = tx.receiver_account_id;
-  
-  let type: TransactionType = "unknown";
-  let amount = "";
-  let currency = "NEAR";
-  let from = predecessor;
-  let to = receiver;
-  let memo = "";
-  
-  // Check action type
-  const action = tx.actions?.[0];
-  
-  if (methodName === "transfer" || !methodName) {
-    // Native NEAR transfer
-    type = predecessor === walletAddress ? "send" : "receive";
-    
-    // Try to extract amount from args
-    if (tx.args.args_json?.amount) {
-      amount = formatNearAmount(tx.args.args_json.amount);
-    } else if (action?.args?.deposit) {
-      amount = formatNearAmount(action.args.deposit);
-    }
-    
-  } else if (methodName.includes("swap") || methodName.includes("ft_transfer")) {
-    type = "swap";
-    
-    if (tx.args.args_json?.amount) {
-      amount = formatTokenAmount(tx.args.args_json.amount, tx.args.args_json.decimals || 24);
-    }
-    
-    if (tx.args.args_json?.token_id || receiver) {
-      currency = tx.args.args_json?.token_id || "UNKNOWN";
-    }
-    
-  } else if (methodName.includes("stake") || methodName.includes("unstake")) {
-    type = methodName.includes("unstake") ? "undelegate" : "delegate";
-    
-    if (tx.args.args_json?.amount) {
-      amount = formatNearAmount(tx.args.args_json.amount);
+function getNep141Events(receipt: NearReceipt): Nep141Event[] {
+  const events: Nep141Event[] = [];
+  for (const log of receipt.receipt_outcome?.logs || []) {
+    if (!log.startsWith("EVENT_JSON:")) continue;
+    try {
+      const event = JSON.parse(log.slice(11)) as Nep141Event;
+      if (event.standard === "nep141") events.push(event);
+    } catch {
+      // Not JSON after all; other logs are free text
     }
-    
-  } else if (methodName.includes("claim") || methodName.includes("harvest")) {
-    type = "claim_rewards";
-    
-  } else if (methodName.includes("deposit") || methodName.includes("add_liquidity")) {
-    type = "pool_deposit";
-    
-  } else if (methodName.includes("withdraw") || methodName.includes("remove_liquidity")) {
-    type = "pool_withdraw";
-    
-  } else if (receiver === walletAddress && predecessor !== walletAddress) {
-    type = "receive";
-    
-  } else if (predecessor === walletAddress && receiver !== walletAddress) {
-    type = "send";
   }
-  
-  // Build memo from method and contract
-  memo = `${tx.receipt_kind}: ${methodName || "transfer"}`;
-  if (receiver && !receiver.includes(walletAddress)) {
-    memo += ` to ${receiver.slice(0, 15)}...`;
-  }
-  
-  return { type, amount, currency, from, to, memo };
+  return events;
 }
 
 /**
- * Format yoctoNEAR amount to NEAR (24 decimals)
+ * Net amount of the receipt's token moved to or from the wallet
+ * The receipt executes on the token contract, whose NEP-141 events are exact
+ * (refunds of ft_transfer_call included); older tokens log none, so their
+ * transfer arguments are read instead. Null when the receipt moves no token.
  */
-function formatNearAmount(yoctoAmount: string | number): string {
-  try {
-    const amount = BigInt(String(yoctoAmount));
-    const near = Number(amount) / 1e24;
-    return near.toFixed(6);
-  } catch {
-    return String(yoctoAmount);
+function getTokenDelta(
+  receipt: NearReceipt,
+  walletAddress: string,
+): TokenDelta | null {
+  const wallet = walletAddress.toLowerCase();
+  const method = receipt.args?.method_name || "";
+  const events = getNep141Events(receipt);
+
+  if (events.length > 0) {
+    let value = BigInt(0);
+    let counterparty = "";
+    let memo: string | undefined;
+    for (const event of events) {
+      for (const d of event.data || []) {
+        const amount = toBigInt(d.amount || 0);
+        const from = (event.event === "ft_mint" ? "" : d.old_owner_id || d.owner_id || "").toLowerCase();
+        const to = (event.event === "ft_burn" ? "" : d.new_owner_id || d.owner_id || "").toLowerCase();
+        if (from === wallet && to !== wallet) {
+          value -= amount;
+          counterparty = to;
+        } else if (to === wallet && from !== wallet) {
+          value += amount;
+          counterparty = from;
+        } else {
+          continue;
+        }
+        memo = memo || d.memo;
+      }
+    }
+    return { value, counterparty, memo };
   }
-}
 
-/**
- * Format token amount with custom decimals
- */
-function formatTokenAmount(amount: string | number, decimals: number): string {
-  try {
-    const value = BigInt(String(amount));
-    const divisor = BigInt(10 ** Math.min(decimals, 18)); // Cap at 18 to avoid overflow
-    const formatted = Number(value) / Number(divisor);
-    return formatted.toFixed(6);
-  } catch {
-    return String(amount);
+  if (!FT_METHODS.includes(method)) return null;
+  const args = receipt.args?.args_json || {};
+  const amount = toBigInt(String(args.amount ?? 0));
+  const sender = receipt.predecessor_account_id.toLowerCase();
+  const receiver = String(args.receiver_id || "").toLowerCase();
+  const memo = args.memo ? String(args.memo) : undefined;
+  if (sender === wallet && receiver !== wallet) {
+    return { value: -amount, counterparty: receiver, memo };
   }
+  if (receiver === wallet && sender !== wallet) {
+    return { value: amount, counterparty: sender, memo };
+  }
+  return { value: BigInt(0), counterparty: "", memo };
+}
+
+function formatToken(contract: string, value: bigint): [string, string] {
+  const metadata = getTokenMetadata(contract);
+  // Without metadata the raw amount is kept rather than a wrong decimal one
+  return metadata
+    ? [formatUnits(value, metadata.decimals), metadata.symbol]
+    : [value.toString(), contract];
 }
 
 /**
- * Parse a ChainTransaction to ParsedTransaction for UI display
+ * Parse a NEAR receipt
+ * Native transfers and attached deposits are NEAR; NEP-141 transfers are
+ * read from the token contract's events in the token's ft_metadata
+ * decimals; wrap.near deposits and withdrawals are swaps with wNEAR; staking
+ * pool deposits are delegations, exported as sent, and the NEAR a pool pays
+ * back after unstaking is the undelegation, exported as received. The fee is the gas the receipt burnt, when
+ * the wallet sent it.
  */
 export function parseTransaction(
-  tx: ChainTransaction,
+  receipt: NearReceipt,
   walletAddress: string,
 ): ParsedTransaction {
-  const messages = tx.tx?.body?.messages || [];
-  const message = messages[0];
-  
+  const wallet = walletAddress.toLowerCase();
+  const sender = receipt.predecessor_account_id.toLowerCase();
+  const receiver = receipt.receiver_account_id.toLowerCase();
+  const method = receipt.args?.method_name || "";
+  const args = receipt.args?.args_json || {};
+  const deposit = getDeposit(receipt);
+  const outgoing = sender === wallet;
+  const nearAmount = (value: bigint) => formatUnits(value, NEAR_DECIMALS);
+
   let type: TransactionType = "unknown";
-  let from = "";
-  let to = "";
+  let from = receipt.predecessor_account_id;
+  let to = receipt.receiver_account_id;
   let amount = "";
   let currency = "NEAR";
-  let amount2 = "";
-  let currency2 = "";
-  let fee = "";
-  let feeCurrency = "NEAR";
-  
-  if (message) {
-    const msgType = message["@type"] || "";
-    
-    // Determine direction
-    if (msgType.includes("Receive") || message.from_address === walletAddress) {
-      type = "receive";
-      from = message.from_address || "";
-      to = message.to_address || walletAddress;
-    } else if (msgType.includes("Send") || message.sender === walletAddress) {
-      type = "send";
-      from = message.sender || walletAddress;
-      to = message.receiver || "";
-    } else if (msgType.includes("swap")) {
-      type = "swap";
-      from = message.sender || walletAddress;
-      to = message.receiver || "";
+  let currencyContract: string | undefined;
+  let amount2: string | undefined;
+  let currency2: string | undefined;
+  let currency2Contract: string | undefined;
+  let detail = "";
+  let memo: string | undefined;
+
+  const tokenDelta = getTokenDelta(receipt, walletAddress);
+
+  if (sender === "system") {
+    // Unused prepaid gas; only the gas burnt is a fee
+    detail = "(gas refund)";
+  } else if (receiver === WRAP_CONTRACT && outgoing && method === "near_deposit") {
+    type = "swap";
+    amount = nearAmount(deposit);
+    amount2 = amount;
+    currency2 = getTokenMetadata(WRAP_CONTRACT)?.symbol;
+    currency2Contract = WRAP_CONTRACT;
+  } else if (receiver === WRAP_CONTRACT && outgoing && method === "near_withdraw") {
+    type = "swap";
+    [amount, currency] = formatToken(WRAP_CONTRACT, toBigInt(String(args.amount ?? 0)));
+    currencyContract = WRAP_CONTRACT;
+    amount2 = nearAmount(toBigInt(String(args.amount ?? 0)));
+    currency2 = "NEAR";
+  } else if (sender === WRAP_CONTRACT && receiver === wallet && !method) {
+    detail = "(NEAR of a wrap.near withdrawal, counted on its row)";
+  } else if (tokenDelta) {
+    const { value, counterparty } = tokenDelta;
+    if (value !== BigInt(0)) {
+      type = value < BigInt(0) ? "send" : "receive";
+      [amount, currency] = formatToken(receiver, value < BigInt(0) ? -value : value);
+      currencyContract = receiver;
+      from = value > BigInt(0) ? counterparty : walletAddress;
+      to = value > BigInt(0) ? walletAddress : counterparty;
     }
-    
-    // Extract amount
-    if (message.amount) {
-      const amountArr = Array.isArray(message.amount) ? message.amount : [message.amount];
-      if (amountArr.length > 0) {
-        amount = formatNearAmount(amountArr[0].amount);
-        currency = amountArr[0].denom === "near" ? "NEAR" : amountArr[0].denom;
-      }
-      if (amountArr.length > 1) {
-        amount2 = formatNearAmount(amountArr[1].amount);
-        currency2 = amountArr[1].denom === "near" ? "NEAR" : amountArr[1].denom;
-      }
+    memo = tokenDelta.memo;
+  } else if (STAKING_POOL.test(receiver) && outgoing) {
+    if (method === "deposit" || method === "deposit_and_stake") {
+      type = "delegate";
+      amount = nearAmount(deposit);
+    } else if (method.startsWith("stake")) {
+      // Stakes NEAR already deposited in the pool
+      type = "delegate";
+      detail = args.amount ? `(${nearAmount(toBigInt(String(args.amount)))} NEAR staked)` : "";
+    } else if (method.startsWith("unstake")) {
+      type = "undelegate";
+      detail = args.amount ? `(${nearAmount(toBigInt(String(args.amount)))} NEAR unstaked)` : "";
+    } else if (method.startsWith("withdraw")) {
+      type = "undelegate";
+      detail = "(NEAR arrives in a transfer from the pool)";
     }
+  } else if (STAKING_POOL.test(sender) && receiver === wallet && deposit > BigInt(0)) {
+    type = "undelegate";
+    amount = nearAmount(deposit);
+  } else if (!method && deposit > BigInt(0)) {
+    type = outgoing ? "send" : "receive";
+    amount = nearAmount(deposit);
+  } else if (outgoing && deposit > ONE_YOCTO) {
+    // Deposits attached to other calls, e.g. storage_deposit
+    type = "send";
+    amount = nearAmount(deposit);
   }
-  
-  // Extract fee (convert from yoctoNEAR)
-  const feeAmount = tx.tx?.auth_info?.fee?.amount?.[0];
-  if (feeAmount && feeAmount.amount) {
-    fee = formatNearAmount(feeAmount.amount);
+
+  let fee = "";
+  const burnt = toBigInt(receipt.receipt_outcome?.tokens_burnt || 0);
+  if (outgoing && burnt > BigInt(0)) {
+    fee = nearAmount(burnt);
   }
-  
+
+  const status = receipt.receipt_outcome?.status;
+  const success =
+    status === true ||
+    (typeof status === "object" &&
+      (status.SuccessValue !== undefined ||
+        status.SuccessReceiptId !== undefined));
+
+  let notes = `${type} [Method: ${method || "transfer"}]`;
+  if (detail) notes += ` ${detail}`;
+  if (receiver !== wallet) notes += ` on ${receipt.receiver_account_id}`;
+  if (memo) notes += ` Memo: ${memo}`;
+
   return {
-    hash: tx.hash,
-    timestamp: new Date(tx.timestamp),
-    height: parseInt(tx.height, 10) || 0,
+    hash: receipt.receipt_id,
+    timestamp: getTimestamp(receipt),
+    height: receipt.block_height || 0,
     type,
     from,
     to,
     amount,
-    currency,
+    currency: amount ? currency : "",
     amount2,
     currency2,
+    currencyContract,
+    currency2Contract,
     fee,
-    feeCurrency,
-    memo: tx.tx?.body?.memo || "",
-    status: tx.code === 0 ? "success" : "failed",
+    feeCurrency: fee ? "NEAR" : "",
+    memo: notes,
+    status: success ? "success" : "failed",
     chain: "near",
   };
 }
+
+export const nearAdapter: ChainAdapter<NearReceipt> = {
+  chainId: "near",
+  version: 3, // 2: exact decimal amounts; 3: receipts parsed for NEP-141, staking and wrap.near
+  attribution: { name: "Pikespeak", url: "https://pikespeak.ai" },
+  knownTokens: Object.keys(NEAR_TOKENS),
+  isValidAddress: isValidNearAddress,
+  fetchTransactions: fetchAllTransactionsClientSide,
+  parseTransaction,
+};
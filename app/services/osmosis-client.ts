@@ -1,10 +1,24 @@
 import {
+  ChainAdapter,
+  FetchOptions,
+  FetchResult,
   OsmosisTransaction,
   ParsedTransaction,
+  SourceFetchStats,
   TransactionType,
   ChainId,
 } from "../types";
 import { getApiKey } from "../utils/apiKeys";
+import { buildFetchMetadata, markTruncated } from "../utils/fetchMetadata";
+import { reportPage, restoreSource } from "../utils/checkpoints";
+import { formatUnits } from "../utils/units";
+import { decodeCosmosTransaction } from "../utils/cosmosTx";
+import {
+  getIbcDenom,
+  isUnresolvedIbcDenom,
+  resolveIbcDenoms,
+} from "../utils/ibcDenoms";
+import { IBC_ASSETS } from "../config/ibcAssets";
 
 const CHAIN_ID: ChainId = "osmosis";
 const MINTSCAN_API_KEY = getApiKey("mintscan") || "";
@@ -15,9 +29,11 @@ const MINTSCAN_API_KEY = getApiKey("mintscan") || "";
  */
 export async function fetchAllTransactionsClientSide(
   address: string,
-  onProgress?: (count: number, total: number) => void,
-): Promise<{ transactions: OsmosisTransaction[]; metadata: any }> {
+  options: FetchOptions = {},
+): Promise<FetchResult<OsmosisTransaction>> {
+  const { onProgress } = options;
   console.log(`[Osmosis] Starting comprehensive fetch for ${address}`);
+  const startedAt = new Date();
 
   const allTransactions = new Map<string, OsmosisTransaction>();
   const LCD_ENDPOINTS = [
@@ -78,15 +94,37 @@ export async function fetchAllTransactionsClientSide(
   ];
 
   let lastSuccessfulEndpoint = "";
-  let queriesWithData: string[] = [];
+  // Stats of the last endpoint tried (the one the data came from on success)
+  let sources: SourceFetchStats[] = [];
 
   // Try each endpoint
   for (const endpoint of LCD_ENDPOINTS) {
     console.log(`[Osmosis] Trying LCD: ${endpoint}`);
     let endpointSuccess = false;
+    sources = [];
 
     for (const queryType of queryTypes) {
-      let offset = 0;
+      const start = restoreSource<OsmosisTransaction>(
+        options,
+        queryType.name,
+        queryType.name,
+      );
+      const { stats } = start;
+      for (const tx of start.items) {
+        allTransactions.set(tx.txhash, tx);
+      }
+
+      // Queries finished by an earlier run keep their restored items; when
+      // resuming, queries without a cursor already finished
+      if (start.skip) {
+        if (options.checkpoint) {
+          sources.push(stats);
+          endpointSuccess = endpointSuccess || start.items.length > 0;
+        }
+        continue;
+      }
+      sources.push(stats);
+      let offset = start.cursor?.offset ?? 0;
       let hasMore = true;
       let queryTotalReported = 0;
       let pagesFetched = 0;
@@ -111,6 +149,7 @@ export async function fetchAllTransactionsClientSide(
               console.log(
                 `[Osmosis] ${queryType.name} - Error at offset ${offset}, stopping`,
               );
+              markTruncated(stats, "error", { page: stats.pagesFetched, offset }, `Offset ${offset} failed: HTTP ${response.status}`);
               break;
             }
             // Retry with delay
@@ -126,12 +165,15 @@ export async function fetchAllTransactionsClientSide(
             hasMore = false;
             break;
           }
+          stats.count += batch.length;
 
           // Add transactions to map (deduplication by hash)
           let newTxCount = 0;
+          const pageTransactions: OsmosisTransaction[] = [];
           for (const tx of batch) {
             if (tx.txhash && !allTransactions.has(tx.txhash)) {
               allTransactions.set(tx.txhash, tx);
+              pageTransactions.push(tx);
               newTxCount++;
             }
           }
@@ -145,7 +187,7 @@ export async function fetchAllTransactionsClientSide(
           }
 
           if (onProgress) {
-            onProgress(allTransactions.size, queryTotalReported);
+            onProgress(allTransactions.size, pagesFetched);
           }
 
           // Continue if we got a full page (100 items)
@@ -161,6 +203,13 @@ export async function fetchAllTransactionsClientSide(
 
           offset += 100;
           pagesFetched++;
+          stats.pagesFetched++;
+          await reportPage(
+            options,
+            stats,
+            hasMore ? { page: stats.pagesFetched, offset } : null,
+            pageTransactions,
+          );
 
           // Small delay to avoid rate limiting
           if (pagesFetched % 5 === 0) {
@@ -174,6 +223,7 @@ export async function fetchAllTransactionsClientSide(
           consecutiveErrors++;
           if (consecutiveErrors >= 3) {
             hasMore = false;
+            markTruncated(stats, "error", { page: stats.pagesFetched, offset }, `Offset ${offset} failed: ${error instanceof Error ? error.message : String(error)}`);
           } else {
             await new Promise((resolve) => setTimeout(resolve, 500));
           }
@@ -183,9 +233,6 @@ export async function fetchAllTransactionsClientSide(
       if (pagesFetched > 0) {
         endpointSuccess = true;
         lastSuccessfulEndpoint = endpoint;
-        if (queryTotalReported > 0) {
-          queriesWithData.push(`${queryType.name}: ${queryTotalReported}`);
-        }
         console.log(
           `[Osmosis] ${queryType.name}: done, ${allTransactions.size} total unique`,
         );
@@ -205,33 +252,25 @@ export async function fetchAllTransactionsClientSide(
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
   );
 
-  const dates = uniqueTxs.map((tx) => new Date(tx.timestamp));
-  const firstDate =
-    dates.length > 0
-      ? new Date(Math.min(...dates.map((d) => d.getTime())))
-      : null;
-  const lastDate =
-    dates.length > 0
-      ? new Date(Math.max(...dates.map((d) => d.getTime())))
-      : null;
+  const metadata = buildFetchMetadata({
+    address,
+    chain: CHAIN_ID,
+    dataSource: `LCD API (${lastSuccessfulEndpoint})`,
+    startedAt,
+    sources,
+    transactions: uniqueTxs,
+  });
+
+  await resolveIbcDenoms(CHAIN_ID, uniqueTxs);
 
   console.log(`[Osmosis] FINAL: ${uniqueTxs.length} unique transactions`);
   console.log(
-    `[Osmosis] Date range: ${firstDate?.toLocaleDateString()} - ${lastDate?.toLocaleDateString()}`,
+    `[Osmosis] Date range: ${metadata.firstTransactionDate} - ${metadata.lastTransactionDate}`,
   );
 
   return {
     transactions: uniqueTxs,
-    metadata: {
-      address,
-      chain: CHAIN_ID,
-      totalFetched: uniqueTxs.length,
-      firstTransactionDate: firstDate?.toISOString(),
-      lastTransactionDate: lastDate?.toISOString(),
-      dataSource: `LCD API (${lastSuccessfulEndpoint})`,
-      queryTypesUsed: queriesWithData.length,
-      endpoints: [lastSuccessfulEndpoint],
-    },
+    metadata,
   };
 }
 
@@ -239,126 +278,68 @@ export function isValidOsmosisAddress(address: string): boolean {
   return /^osmo[a-z0-9]{39}$/i.test(address);
 }
 
+// Message types by the row they make, first match wins when a transaction
+// has several (e.g. a swap that also claims rewards)
+const MESSAGE_TYPES: Array<[TransactionType, string[]]> = [
+  ["swap", ["MsgSwapExact", "MsgSplitRoute"]],
+  [
+    "pool_deposit",
+    ["JoinPool", "JoinSwap", "CreatePosition", "AddToPosition", "LockTokens"],
+  ],
+  [
+    "pool_withdraw",
+    ["ExitPool", "ExitSwap", "WithdrawPosition", "BeginUnlocking"],
+  ],
+  ["ibc_transfer", ["MsgTransfer", "MsgRecvPacket"]],
+  ["delegate", ["MsgDelegate", "MsgBeginRedelegate"]],
+  ["undelegate", ["MsgUndelegate"]],
+  ["claim_rewards", ["MsgWithdrawDelegatorReward"]],
+  ["governance_vote", ["MsgVote"]],
+  ["send", ["MsgSend", "MsgMultiSend"]],
+];
+
+/**
+ * Parse an Osmosis transaction from all its messages and the bank events
+ * they emitted
+ */
 export function parseTransaction(
   tx: OsmosisTransaction,
   walletAddress: string,
 ): ParsedTransaction {
-  const messages = tx.tx?.body?.messages || [];
-  const message = messages[0];
-
-  let type: TransactionType = "unknown";
-  let from = "";
-  let to = "";
-  let amount = "";
-  let currency = "";
-
-  if (message) {
-    const msgType = message["@type"] || "";
-
-    if (msgType.includes("MsgSend")) {
-      type = message.from_address === walletAddress ? "send" : "receive";
-      from = message.from_address || "";
-      to = message.to_address || "";
-
-      if (message.amount) {
-        const coin = Array.isArray(message.amount)
-          ? message.amount[0]
-          : message.amount;
-        if (coin) {
-          amount = formatAmount(coin.amount);
-          currency = formatDenom(coin.denom);
-        }
-      }
-    } else if (
-      msgType.includes("MsgSwap") ||
-      msgType.includes("SwapExactAmountIn") ||
-      msgType.includes("SwapExactAmountOut")
-    ) {
-      type = "swap";
-      from = message.sender || walletAddress;
-    } else if (msgType.includes("MsgTransfer")) {
-      type = "ibc_transfer";
-      from = message.sender || "";
-      to = message.receiver || "";
-
-      if (message.token) {
-        amount = formatAmount(message.token.amount);
-        currency = formatDenom(message.token.denom);
-      }
-    } else if (msgType.includes("MsgDelegate")) {
-      type = "delegate";
-      from = message.delegator_address || walletAddress;
-      to = message.validator_address || "";
-
-      if (message.amount) {
-        const coin = Array.isArray(message.amount)
-          ? message.amount[0]
-          : message.amount;
-        if (coin) {
-          amount = formatAmount(coin.amount);
-          currency = formatDenom(coin.denom);
-        }
-      }
-    } else if (
-      msgType.includes("MsgUndelegate") ||
-      msgType.includes("MsgBeginUnbonding")
-    ) {
-      type = "undelegate";
-      from = message.delegator_address || walletAddress;
-    } else if (msgType.includes("MsgWithdrawDelegatorReward")) {
-      type = "claim_rewards";
-      from = message.delegator_address || walletAddress;
-    } else if (msgType.includes("MsgVote")) {
-      type = "governance_vote";
-      from = message.voter || walletAddress;
-    } else if (
-      msgType.includes("JoinPool") ||
-      msgType.includes("JoinSwapExternAmountIn")
-    ) {
-      type = "pool_deposit";
-      from = message.sender || walletAddress;
-    } else if (
-      msgType.includes("ExitPool") ||
-      msgType.includes("ExitSwapShareAmountIn")
-    ) {
-      type = "pool_withdraw";
-      from = message.sender || walletAddress;
-    }
-  }
+  return decodeCosmosTransaction({ ...tx, hash: tx.txhash }, walletAddress, {
+    chain: CHAIN_ID,
+    messageTypes: MESSAGE_TYPES,
+    formatAmount,
+    formatDenom,
+    isRawDenom: (denom) => isUnresolvedIbcDenom(CHAIN_ID, denom),
+  });
+}
 
-  let fee = "";
-  let feeCurrency = "";
-  if (tx.tx?.auth_info?.fee?.amount && tx.tx.auth_info.fee.amount.length > 0) {
-    fee = formatAmount(tx.tx.auth_info.fee.amount[0].amount);
-    feeCurrency = formatDenom(tx.tx.auth_info.fee.amount[0].denom);
+/**
+ * Decimals of a denom: those of its IBC trace (none, a raw amount, when
+ * unknown), 18 for LP shares, else 6
+ */
+function getDecimals(denom: string): number {
+  if (denom.startsWith("ibc/")) {
+    return getIbcDenom(CHAIN_ID, denom)?.decimals ?? 0;
   }
-
-  return {
-    hash: tx.txhash,
-    timestamp: new Date(tx.timestamp),
-    height: parseInt(tx.height, 10),
-    type,
-    from,
-    to,
-    amount,
-    currency,
-    fee,
-    feeCurrency,
-    memo: tx.tx?.body?.memo || "",
-    status: tx.code === 0 ? "success" : "failed",
-    chain: CHAIN_ID,
-  };
+  return denom.startsWith("gamm/pool/") ? 18 : 6;
 }
 
-function formatAmount(amount: string): string {
-  const num = parseInt(amount, 10);
-  if (isNaN(num)) return "0";
-  return (num / 1_000_000).toFixed(6);
+function formatAmount(denom: string, value: bigint): string {
+  return formatUnits(value, getDecimals(denom));
 }
 
+/**
+ * Symbol of a denom; IBC denoms without a known trace and token factory
+ * denoms keep their full name so different assets never share a symbol
+ */
 function formatDenom(denom: string): string {
   if (!denom) return "";
-  if (denom.startsWith("ibc/")) return "IBC-Token";
+  const trace = getIbcDenom(CHAIN_ID, denom);
+  if (trace) return trace.symbol;
+  if (denom.startsWith("gamm/pool/")) return `GAMM-${denom.slice(10)}`;
+  if (denom.includes("/")) return denom;
 
   const denomMap: Record<string, string> = {
     uosmo: "OSMO",
@@ -369,3 +350,15 @@ function formatDenom(denom: string): string {
 
   return denomMap[denom] || denom.toUpperCase();
 }
+
+export const osmosisAdapter: ChainAdapter<OsmosisTransaction> = {
+  chainId: CHAIN_ID,
+  version: 5, // 2: exact decimal amounts; 3: every message and bank event decoded; 4: IBC denoms resolved; 5: unknown IBC decimals kept raw
+  attribution: { name: "Osmosis LCD", url: "https://osmosis.zone" },
+  knownTokens: Object.keys(IBC_ASSETS.osmosis || {}).map((hash) =>
+    `ibc/${hash}`.toLowerCase(),
+  ),
+  isValidAddress: isValidOsmosisAddress,
+  fetchTransactions: fetchAllTransactionsClientSide,
+  parseTransaction,
+};
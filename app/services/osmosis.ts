@@ -3,6 +3,8 @@ import {
   ParsedTransaction,
   TransactionType,
 } from "../types";
+import { formatUnits } from "../utils/units";
+import { getIbcDenom } from "../utils/ibcDenoms";
 
 /**
  * Test function to verify LCD endpoints work
@@ -137,7 +139,7 @@ export function parseTransaction(
           ? message.amount
           : [message.amount];
         if (amountArr.length > 0) {
-          amount = formatAmount(amountArr[0].amount);
+          amount = formatAmount(amountArr[0].amount, amountArr[0].denom);
           currency = formatDenom(amountArr[0].denom);
         }
       }
@@ -149,7 +151,7 @@ export function parseTransaction(
       to = message.receiver || "";
 
       if (message.token) {
-        amount = formatAmount(message.token.amount);
+        amount = formatAmount(message.token.amount, message.token.denom);
         currency = formatDenom(message.token.denom);
       }
     }
@@ -158,7 +160,10 @@ export function parseTransaction(
   let fee = "";
   let feeCurrency = "";
   if (tx.tx?.auth_info?.fee?.amount && tx.tx.auth_info.fee.amount.length > 0) {
-    fee = formatAmount(tx.tx.auth_info.fee.amount[0].amount);
+    fee = formatAmount(
+      tx.tx.auth_info.fee.amount[0].amount,
+      tx.tx.auth_info.fee.amount[0].denom,
+    );
     feeCurrency = formatDenom(tx.tx.auth_info.fee.amount[0].denom);
   }
 
@@ -179,15 +184,23 @@ export function parseTransaction(
   };
 }
 
-function formatAmount(amount: string): string {
-  const num = parseInt(amount, 10);
-  if (isNaN(num)) return "0";
-  return (num / 1_000_000).toFixed(6);
+function formatAmount(amount: string, denom: string): string {
+  try {
+    // IBC denoms without known decimals keep their raw amount
+    const decimals = denom.startsWith("ibc/")
+      ? (getIbcDenom("osmosis", denom)?.decimals ?? 0)
+      : 6;
+    return formatUnits(amount, decimals);
+  } catch {
+    return "0";
+  }
 }
 
 function formatDenom(denom: string): string {
   if (!denom) return "";
-  if (denom.startsWith("ibc/")) return "IBC-Token";
+  if (denom.startsWith("ibc/")) {
+    return getIbcDenom("osmosis", denom)?.symbol || denom;
+  }
 
   const denomMap: Record<string, string> = {
     uosmo: "OSMO",
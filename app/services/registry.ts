@@ -0,0 +1,78 @@
+import { ChainAdapter, ChainConfig, ChainId } from "../types";
+import { CHAIN_CONFIGS } from "../config/chains";
+import { isListedIbcDenom } from "../utils/ibcDenoms";
+import { celoAdapter } from "./celo-client";
+import { roninAdapter } from "./ronin-client";
+import { celestiaAdapter } from "./celestia-client";
+import { tezosAdapter } from "./tezos-client";
+import { osmosisAdapter } from "./osmosis-client";
+import { babylonAdapter } from "./babylon-client";
+import { nearAdapter } from "./near-client";
+
+/**
+ * Chain adapter registry
+ *
+ * A chain is enabled exactly when an adapter is registered for it. Chains that
+ * have a config in CHAIN_CONFIGS but no adapter are shown as "Coming soon".
+ */
+const adapters = new Map<ChainId, ChainAdapter<unknown>>();
+
+export function registerChainAdapter<TRaw>(adapter: ChainAdapter<TRaw>): void {
+  if (!CHAIN_CONFIGS[adapter.chainId]) {
+    throw new Error(`Cannot register adapter for unknown chain: ${adapter.chainId}`);
+  }
+  adapters.set(adapter.chainId, adapter);
+}
+
+export function getChainAdapter(chainId: ChainId): ChainAdapter<unknown> | undefined {
+  return adapters.get(chainId);
+}
+
+export function isChainEnabled(chainId: ChainId): boolean {
+  return adapters.has(chainId);
+}
+
+/**
+ * Configs of all chains with a registered adapter, in CHAIN_CONFIGS order
+ */
+export function getEnabledChains(): ChainConfig[] {
+  return Object.values(CHAIN_CONFIGS).filter((c) => adapters.has(c.id));
+}
+
+/**
+ * Whether an asset is the chain's native coin, a token contract its adapter
+ * maps to a known symbol or an IBC asset of the bundled asset list; a token
+ * faking a known symbol is none of them
+ */
+export function isKnownAsset(
+  chainId: ChainId,
+  symbol: string,
+  contract?: string,
+): boolean {
+  if (contract) {
+    return (
+      isListedIbcDenom(chainId, contract) ||
+      (getChainAdapter(chainId)?.knownTokens || []).includes(
+        contract.toLowerCase(),
+      )
+    );
+  }
+  // Native coins have no contract
+  return symbol === CHAIN_CONFIGS[chainId]?.nativeSymbol;
+}
+
+/**
+ * Configs of known chains that do not have an adapter yet
+ */
+export function getComingSoonChains(): ChainConfig[] {
+  return Object.values(CHAIN_CONFIGS).filter((c) => !adapters.has(c.id));
+}
+
+// Enabled chains - register an adapter here to turn a chain on
+registerChainAdapter(celoAdapter);
+registerChainAdapter(roninAdapter);
+registerChainAdapter(celestiaAdapter);
+registerChainAdapter(tezosAdapter);
+registerChainAdapter(osmosisAdapter);
+registerChainAdapter(babylonAdapter);
+registerChainAdapter(nearAdapter);
@@ -1,10 +1,19 @@
 import {
+  AssetMovement,
+  ChainAdapter,
   ChainTransaction,
+  FetchOptions,
+  FetchResult,
   ParsedTransaction,
+  SourceFetchStats,
   TransactionType,
   ChainId,
 } from "../types";
 import { getApiKey } from "../utils/apiKeys";
+import { buildFetchMetadata, markTruncated } from "../utils/fetchMetadata";
+import { reportPage, restoreSource } from "../utils/checkpoints";
+import { formatUnits } from "../utils/units";
+import { keepNewerThan } from "../utils/transactionStore";
 
 const CHAIN_ID: ChainId = "ronin";
 const COVALENT_CHAIN_ID = "2020"; // Ronin mainnet chain ID
@@ -24,62 +33,74 @@ const tokenMetadataCache: Map<string, { symbol: string; decimals: number; name:
  */
 export async function fetchAllTransactionsClientSide(
   address: string,
-  onProgress?: (count: number, page: number) => void,
-): Promise<{ transactions: ChainTransaction[]; metadata: any }> {
+  options: FetchOptions = {},
+): Promise<FetchResult> {
   console.log(`[Ronin] Starting comprehensive fetch for ${address}`);
+  const startedAt = new Date();
 
-  const transactions = await fetchWithREST(address, onProgress);
+  const { transactions, stats } = await fetchWithREST(address, options);
 
   // Sort by timestamp (newest first)
   transactions.sort(
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
   );
 
-  const dates = transactions.map((tx) => new Date(tx.timestamp));
-  const firstDate =
-    dates.length > 0
-      ? new Date(Math.min(...dates.map((d) => d.getTime())))
-      : null;
-  const lastDate =
-    dates.length > 0
-      ? new Date(Math.max(...dates.map((d) => d.getTime())))
-      : null;
-
   console.log(`[Ronin] FINAL: ${transactions.length} unique transactions`);
 
   return {
     transactions,
-    metadata: {
+    metadata: buildFetchMetadata({
       address,
       chain: CHAIN_ID,
-      totalFetched: transactions.length,
-      firstTransactionDate: firstDate?.toISOString(),
-      lastTransactionDate: lastDate?.toISOString(),
       dataSource: "GoldRush REST API",
-      chainId: COVALENT_CHAIN_ID,
-    },
+      startedAt,
+      sources: [stats],
+      transactions,
+      since: options.since,
+    }),
   };
 }
 
 /**
  * Fetch transactions using GoldRush REST API
+ * Pages run oldest first. An incremental sync starts from the most recent page
+ * instead and walks back until it reaches blocks that were already synced.
  */
 async function fetchWithREST(
   address: string,
-  onProgress?: (count: number, page: number) => void,
-): Promise<ChainTransaction[]> {
-  const allTransactions: ChainTransaction[] = [];
-  const BASE_URL = `https://api.covalenthq.com/v1/${COVALENT_CHAIN_ID}/address/${address}/transactions_v3/page`;
+  options: FetchOptions,
+): Promise<{ transactions: ChainTransaction[]; stats: SourceFetchStats }> {
+  const { onProgress, since } = options;
+  const start = restoreSource<ChainTransaction>(options, "transactions_v3", "Transactions");
+  const { stats } = start;
+  const allTransactions: ChainTransaction[] = [...start.items];
+  const RECENT_URL = `https://api.covalenthq.com/v1/${COVALENT_CHAIN_ID}/address/${address}/transactions_v3`;
+  const BASE_URL = `${RECENT_URL}/page`;
+
+  if (start.skip) {
+    return { transactions: allTransactions, stats };
+  }
 
-  let page = 0;
+  // Undefined only for the first page of an incremental sync (most recent page)
+  let page: number | undefined = start.cursor?.page ?? (since ? undefined : 0);
   let hasMore = true;
+  let pagesThisRun = 0;
   const maxPages = 50;
 
-  while (hasMore && page < maxPages) {
+  // The most recent page has no page number to resume from, so a failure
+  // there fails the whole fetch
+  const fail = (message: string): void => {
+    if (page === undefined) throw new Error(message);
+    markTruncated(stats, "error", { page }, message);
+  };
+
+  while (hasMore && pagesThisRun < maxPages) {
     try {
-      const url = `${BASE_URL}/${page}/?quote-currency=USD`;
+      const url = page === undefined
+        ? `${RECENT_URL}/?quote-currency=USD`
+        : `${BASE_URL}/${page}/?quote-currency=USD`;
 
-      console.log(`[Ronin REST] Fetching page ${page}...`);
+      console.log(`[Ronin REST] Fetching page ${page ?? "latest"}...`);
 
       const response = await fetch(url, {
         headers: {
@@ -90,14 +111,16 @@ async function fetchWithREST(
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error(`[Ronin REST] Page ${page} HTTP ${response.status}:`, errorText);
+        console.error(`[Ronin REST] Page ${page ?? "latest"} HTTP ${response.status}:`, errorText);
+        fail(`Page ${page ?? "latest"} failed: HTTP ${response.status}`);
         break;
       }
 
       const data = await response.json();
 
       if (data.error) {
-        console.error(`[Ronin REST] Page ${page} API error:`, data.error);
+        console.error(`[Ronin REST] Page ${page ?? "latest"} API error:`, data.error);
+        fail(`Page ${page ?? "latest"} failed: ${data.error_message || "API error"}`);
         break;
       }
 
@@ -109,33 +132,55 @@ async function fetchWithREST(
       }
 
       // Convert REST response to ChainTransaction format
+      const converted: ChainTransaction[] = [];
       for (const item of items) {
-        const converted = convertRESTTransaction(item);
-        if (converted) {
-          allTransactions.push(converted);
+        const tx = convertRESTTransaction(item);
+        if (tx) {
+          converted.push(tx);
         }
       }
+      const newer = keepNewerThan(converted, since);
+      const pageTransactions = newer.items;
+      allTransactions.push(...pageTransactions);
 
+      const currentPage: number = page ?? data.data?.current_page ?? 0;
       if (onProgress) {
-        onProgress(allTransactions.length, page);
+        onProgress(allTransactions.length, currentPage);
       }
 
-      console.log(`[Ronin REST] Page ${page}: +${items.length} | Total: ${allTransactions.length}`);
+      console.log(`[Ronin REST] Page ${currentPage}: +${pageTransactions.length} | Total: ${allTransactions.length}`);
 
-      hasMore = items.length === 100;
-      page++;
+      if (since) {
+        hasMore = currentPage > 0 && !newer.reachedSince;
+        page = currentPage - 1;
+      } else {
+        hasMore = items.length === 100;
+        page = currentPage + 1;
+      }
+      pagesThisRun++;
+      stats.count = allTransactions.length;
+      stats.pagesFetched++;
+      await reportPage(options, stats, hasMore ? { page } : null, pageTransactions);
 
       // Rate limiting
       if (hasMore) {
         await new Promise((resolve) => setTimeout(resolve, 200));
       }
     } catch (error) {
-      console.error(`[Ronin REST] Page ${page} exception:`, error);
+      console.error(`[Ronin REST] Page ${page ?? "latest"} exception:`, error);
+      if (page === undefined) throw error;
+      markTruncated(stats, "error", { page }, `Page ${page} failed: ${error instanceof Error ? error.message : String(error)}`);
       break;
     }
   }
 
-  return allTransactions;
+  if (hasMore && pagesThisRun >= maxPages && page !== undefined) {
+    console.warn(`[Ronin REST] Stopped at maxPages (${maxPages})`);
+    markTruncated(stats, "page_limit", { page });
+  }
+  stats.count = allTransactions.length;
+
+  return { transactions: allTransactions, stats };
 }
 
 /**
@@ -296,11 +341,15 @@ export function parseTransaction(
   let currency = "RON";
   let amount2 = "";
   let currency2 = "";
+  let currencyContract: string | undefined;
+  let currency2Contract: string | undefined;
   let fee = "";
   let feeCurrency = "RON";
   let fiatAmount = "";
+  let feeFiatAmount = "";
   let fiatCurrency = "USD";
   const tokenTransfers: Array<{ symbol: string; amount: string; from: string; to: string }> = [];
+  const movements: AssetMovement[] = [];
 
   if (message) {
     from = message.from_address || "";
@@ -327,8 +376,10 @@ export function parseTransaction(
       const rawAmount = message.amount[0].amount;
       if (rawAmount && rawAmount !== "0") {
         // Convert from wei (10^18) to RON
-        const num = parseFloat(rawAmount) / 1e18;
-        amount = num.toFixed(6);
+        amount = formatUnits(rawAmount, 18);
+        if (isOutgoing !== isIncoming) {
+          movements.push({ direction: isOutgoing ? "out" : "in", amount, currency });
+        }
       }
     }
 
@@ -363,27 +414,39 @@ export function parseTransaction(
                 
                 if (valueParam && valueParam.value) {
                   const decimals = parseInt(attrs["decimals"] || "18", 10);
-                  const tokenAmount = parseFloat(valueParam.value) / Math.pow(10, decimals);
+                  const tokenAmount = formatUnits(valueParam.value, decimals);
                   
                   // Store for potential use as primary or secondary
                   tokenTransfers.push({
                     symbol: tokenSymbol,
-                    amount: tokenAmount.toFixed(6),
+                    amount: tokenAmount,
                     from: fromParam || "",
                     to: toParam || ""
                   });
+                  const tokenIsOutgoing = (fromParam || "").toLowerCase() === walletLower;
+                  const tokenIsIncoming = (toParam || "").toLowerCase() === walletLower;
+                  if (tokenIsOutgoing !== tokenIsIncoming) {
+                    movements.push({
+                      direction: tokenIsOutgoing ? "out" : "in",
+                      amount: tokenAmount,
+                      currency: tokenSymbol,
+                      contract: senderAddress || undefined,
+                    });
+                  }
 
                   // If no native RON amount, use first token as primary
                   if (!amount || amount === "0") {
-                    amount = tokenAmount.toFixed(6);
+                    amount = tokenAmount;
                     currency = tokenSymbol;
+                    currencyContract = senderAddress || undefined;
                     // Update from/to if token transfer has better info
                     if (fromParam) from = fromParam;
                     if (toParam) to = toParam;
                   } else if (!amount2) {
                     // Use as secondary if we already have native amount
-                    amount2 = tokenAmount.toFixed(6);
+                    amount2 = tokenAmount;
                     currency2 = tokenSymbol;
+                    currency2Contract = senderAddress || undefined;
                   }
                 }
               }
@@ -397,8 +460,7 @@ export function parseTransaction(
   // Extract fee (convert from wei to RON)
   const feeAmount = tx.tx?.auth_info?.fee?.amount?.[0];
   if (feeAmount && feeAmount.amount && feeAmount.amount !== "0") {
-    const feeNum = parseFloat(feeAmount.amount) / 1e18;
-    fee = feeNum.toFixed(8);
+    fee = formatUnits(feeAmount.amount, 18);
   }
 
   // Extract USD quote data from logs
@@ -413,20 +475,28 @@ export function parseTransaction(
             }
             
             const valueQuote = attrs["value_quote"];
+            const gasQuote = attrs["gas_quote"];
             const gasQuoteRate = attrs["gas_quote_rate"];
+
+            // Quotes are for RON; token amounts are left to the pricing engine
+            const isNativeAmount = currency === "RON";
             
             // If we have a value quote, use it directly
-            if (valueQuote && valueQuote !== "") {
+            if (isNativeAmount && valueQuote && valueQuote !== "") {
               fiatAmount = parseFloat(valueQuote).toFixed(2);
             }
             // Otherwise calculate from amount and rate
-            else if (gasQuoteRate && gasQuoteRate !== "" && amount && amount !== "") {
+            else if (isNativeAmount && gasQuoteRate && gasQuoteRate !== "" && amount && amount !== "") {
               const rate = parseFloat(gasQuoteRate);
               const numAmount = parseFloat(amount);
               if (rate > 0 && numAmount > 0) {
                 fiatAmount = (numAmount * rate).toFixed(2);
               }
             }
+
+            if (fee && gasQuote && gasQuote !== "") {
+              feeFiatAmount = parseFloat(gasQuote).toFixed(2);
+            }
           }
         }
       }
@@ -458,12 +528,26 @@ export function parseTransaction(
     currency,
     amount2,
     currency2,
+    currencyContract,
+    currency2Contract,
+    movements: movements.length > 1 ? movements : undefined,
     fee,
     feeCurrency,
     fiatAmount,
+    feeFiatAmount,
     fiatCurrency,
     memo: notes,
     status: tx.code === 0 ? "success" : "failed",
     chain: CHAIN_ID,
   };
 }
+
+export const roninAdapter: ChainAdapter = {
+  chainId: CHAIN_ID,
+  version: 3, // 2: exact decimal amounts; 3: every leg in movements
+  attribution: { name: "GoldRush (Covalent)", url: "https://goldrush.dev" },
+  knownTokens: Object.keys(RONIN_TOKEN_MAP).map((a) => a.toLowerCase()),
+  isValidAddress: isValidRoninAddress,
+  fetchTransactions: fetchAllTransactionsClientSide,
+  parseTransaction,
+};
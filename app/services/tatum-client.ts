@@ -1,10 +1,16 @@
 import {
+  ChainAdapter,
   ChainTransaction,
+  FetchOptions,
+  FetchResult,
   ParsedTransaction,
   TransactionType,
   ChainId,
 } from "../types";
 import { getApiKey } from "../utils/apiKeys";
+import { buildFetchMetadata, markTruncated } from "../utils/fetchMetadata";
+import { reportPage, restoreSource } from "../utils/checkpoints";
+import { formatUnits } from "../utils/units";
 
 const API_KEY = getApiKey("fantom") || "";
 
@@ -57,8 +63,9 @@ interface ExplorerTransaction {
 export async function fetchAllTransactionsClientSide(
   chainId: ChainId,
   address: string,
-  onProgress?: (count: number) => void,
-): Promise<{ transactions: ChainTransaction[]; metadata: any }> {
+  options: FetchOptions = {},
+): Promise<FetchResult> {
+  const { onProgress } = options;
   const config = EXPLORER_CONFIGS[chainId];
   if (!config) {
     throw new Error(`Chain ${chainId} not supported by explorer API`);
@@ -66,10 +73,14 @@ export async function fetchAllTransactionsClientSide(
 
   console.log(`[${config.name}] Starting fetch for ${address}`);
 
-  const allTransactions: ChainTransaction[] = [];
-  let page = 1;
+  const startedAt = new Date();
+  const start = restoreSource<ChainTransaction>(options, "txlist", "Transactions");
+  const { stats } = start;
+  const allTransactions: ChainTransaction[] = [...start.items];
+  const startPage = start.cursor?.page ?? 1;
+  let page = startPage;
   const pageSize = 100; // Max allowed by most Etherscan-style APIs
-  let hasMore = true;
+  let hasMore = !start.skip;
   let totalPages = 0;
 
   while (hasMore) {
@@ -93,6 +104,7 @@ export async function fetchAllTransactionsClientSide(
             `Failed to fetch from ${config.name}: ${response.status}`,
           );
         }
+        markTruncated(stats, "error", { page }, `HTTP ${response.status} on page ${page}`);
         break;
       }
 
@@ -106,6 +118,7 @@ export async function fetchAllTransactionsClientSide(
             `${config.name} API error: ${data.result || data.message}`,
           );
         }
+        markTruncated(stats, "error", { page }, `API error on page ${page}: ${data.message}`);
         break;
       }
 
@@ -118,6 +131,7 @@ export async function fetchAllTransactionsClientSide(
       }
 
       // Convert to ChainTransaction format
+      const pageTransactions: ChainTransaction[] = [];
       for (const tx of txs) {
         const isReceive = tx.to.toLowerCase() === address.toLowerCase();
 
@@ -161,11 +175,12 @@ export async function fetchAllTransactionsClientSide(
             },
           },
         };
-        allTransactions.push(converted);
+        pageTransactions.push(converted);
       }
+      allTransactions.push(...pageTransactions);
 
       if (onProgress) {
-        onProgress(allTransactions.length);
+        onProgress(allTransactions.length, page);
       }
 
       console.log(
@@ -176,15 +191,21 @@ export async function fetchAllTransactionsClientSide(
       hasMore = txs.length === pageSize;
       page++;
       totalPages++;
+      stats.count = allTransactions.length;
+      stats.pagesFetched++;
+      await reportPage(options, stats, hasMore ? { page } : null, pageTransactions);
 
       // Rate limiting - be nice to free APIs
       await new Promise((resolve) => setTimeout(resolve, 200));
 
       // Safety limit - 100 pages = 10,000 transactions
-      if (page > 100) {
+      if (page >= startPage + 100) {
         console.warn(
           `[${config.name}] Hit safety limit of 10,000 transactions`,
         );
+        if (hasMore) {
+          markTruncated(stats, "page_limit", { page });
+        }
         break;
       }
     } catch (error) {
@@ -192,40 +213,32 @@ export async function fetchAllTransactionsClientSide(
       if (allTransactions.length === 0) {
         throw error;
       }
+      markTruncated(stats, "error", { page }, error instanceof Error ? error.message : String(error));
       break;
     }
   }
 
+  stats.count = allTransactions.length;
+
   // Sort by timestamp (newest first)
   allTransactions.sort(
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
   );
 
-  const dates = allTransactions.map((tx) => new Date(tx.timestamp));
-  const firstDate =
-    dates.length > 0
-      ? new Date(Math.min(...dates.map((d) => d.getTime())))
-      : null;
-  const lastDate =
-    dates.length > 0
-      ? new Date(Math.max(...dates.map((d) => d.getTime())))
-      : null;
-
   console.log(
     `[${config.name}] COMPLETE: ${allTransactions.length} transactions over ${totalPages} pages`,
   );
 
   return {
     transactions: allTransactions,
-    metadata: {
+    metadata: buildFetchMetadata({
       address,
       chain: chainId,
-      totalFetched: allTransactions.length,
-      totalPages,
-      firstTransactionDate: firstDate?.toISOString(),
-      lastTransactionDate: lastDate?.toISOString(),
       dataSource: config.name,
-    },
+      startedAt,
+      sources: [stats],
+      transactions: allTransactions,
+    }),
   };
 }
 
@@ -270,8 +283,7 @@ export function parseTransaction(
         // Convert from wei (10^18) for EVM chains
         const rawAmount = amountArr[0].amount;
         if (rawAmount && rawAmount !== "0") {
-          const num = parseFloat(rawAmount) / 1e18;
-          amount = num.toFixed(6);
+          amount = formatUnits(rawAmount, 18);
         } else {
           amount = "0";
         }
@@ -282,8 +294,7 @@ export function parseTransaction(
   // Extract fee
   const feeAmount = tx.tx?.auth_info?.fee?.amount?.[0];
   if (feeAmount && feeAmount.amount && feeAmount.amount !== "0") {
-    const feeNum = parseFloat(feeAmount.amount) / 1e18;
-    fee = feeNum.toFixed(8);
+    fee = formatUnits(feeAmount.amount, 18);
   }
 
   return {
@@ -302,3 +313,13 @@ export function parseTransaction(
     chain: tx.chain,
   };
 }
+
+export const fantomAdapter: ChainAdapter = {
+  chainId: "fantom",
+  version: 2, // 2: exact decimal amounts
+  attribution: { name: "Fantom Explorer", url: "https://explorer.fantom.network" },
+  isValidAddress: isValidEvmAddress,
+  fetchTransactions: (address, options) =>
+    fetchAllTransactionsClientSide("fantom", address, options),
+  parseTransaction,
+};
@@ -1,9 +1,16 @@
 import {
+  ChainAdapter,
   ChainTransaction,
+  FetchOptions,
+  FetchResult,
   ParsedTransaction,
+  SourceFetchStats,
   TransactionType,
   ChainId,
 } from "../types";
+import { buildFetchMetadata, markTruncated } from "../utils/fetchMetadata";
+import { reportPage, restoreSource } from "../utils/checkpoints";
+import { formatUnits } from "../utils/units";
 
 const CHAIN_ID: ChainId = "tezos";
 const BASE_URL = "https://api.tzkt.io/v1";
@@ -36,9 +43,11 @@ const MAX_PAGES = 50;
  */
 export async function fetchAllTransactionsClientSide(
   address: string,
-  onProgress?: (count: number, page: number) => void,
-): Promise<{ transactions: ChainTransaction[]; metadata: any }> {
+  options: FetchOptions = {},
+): Promise<FetchResult> {
+  const { onProgress } = options;
   console.log(`[Tezos] Starting comprehensive fetch for ${address}`);
+  const startedAt = new Date();
 
   let totalCount = 0;
   const reportProgress = (count: number, page: number) => {
@@ -49,20 +58,20 @@ export async function fetchAllTransactionsClientSide(
   };
 
   // Fetch native XTZ transactions (sent and received separately for complete coverage)
-  const outgoingTransactions = await fetchOutgoingTransactions(address, reportProgress);
+  const outgoingTransactions = await fetchOutgoingTransactions(address, reportProgress, options);
   await new Promise(resolve => setTimeout(resolve, DELAY_MS));
   
-  const incomingTransactions = await fetchIncomingTransactions(address, reportProgress);
+  const incomingTransactions = await fetchIncomingTransactions(address, reportProgress, options);
   await new Promise(resolve => setTimeout(resolve, DELAY_MS));
   
   // Fetch token transfers
-  const tokenTransfers = await fetchTokenTransfers(address, reportProgress);
+  const tokenTransfers = await fetchTokenTransfers(address, reportProgress, options);
 
   // Merge all transactions and filter out any with invalid data
   const allTransactions: ChainTransaction[] = [
-    ...outgoingTransactions,
-    ...incomingTransactions,
-    ...tokenTransfers,
+    ...outgoingTransactions.transactions,
+    ...incomingTransactions.transactions,
+    ...tokenTransfers.transactions,
   ].filter(tx => tx && tx.timestamp && tx.hash); // Filter out null/invalid transactions
 
   // Sort by timestamp (newest first) with error handling
@@ -77,62 +86,73 @@ export async function fetchAllTransactionsClientSide(
     }
   });
 
-  // Safely parse dates with error handling
-  const dates = allTransactions
-    .map((tx) => {
-      try {
-        const d = new Date(tx.timestamp);
-        return isNaN(d.getTime()) ? null : d;
-      } catch (e) {
-        return null;
-      }
-    })
-    .filter((d): d is Date => d !== null);
-  
-  const firstDate = dates.length > 0 ? new Date(Math.min(...dates.map((d) => d.getTime()))) : null;
-  const lastDate = dates.length > 0 ? new Date(Math.max(...dates.map((d) => d.getTime()))) : null;
-
   console.log(`[Tezos] FINAL: ${allTransactions.length} unique transactions`);
-  console.log(`[Tezos] - Outgoing XTZ: ${outgoingTransactions.length}`);
-  console.log(`[Tezos] - Incoming XTZ: ${incomingTransactions.length}`);
-  console.log(`[Tezos] - Token transfers: ${tokenTransfers.length}`);
+  console.log(`[Tezos] - Outgoing XTZ: ${outgoingTransactions.stats.count}`);
+  console.log(`[Tezos] - Incoming XTZ: ${incomingTransactions.stats.count}`);
+  console.log(`[Tezos] - Token transfers: ${tokenTransfers.stats.count}`);
 
   return {
     transactions: allTransactions,
-    metadata: {
+    metadata: buildFetchMetadata({
       address,
       chain: CHAIN_ID,
-      totalFetched: allTransactions.length,
-      outgoingCount: outgoingTransactions.length,
-      incomingCount: incomingTransactions.length,
-      tokenTransferCount: tokenTransfers.length,
-      firstTransactionDate: firstDate?.toISOString(),
-      lastTransactionDate: lastDate?.toISOString(),
       dataSource: "TzKT API",
-    },
+      startedAt,
+      transactions: allTransactions,
+      since: options.since,
+      dateRange: options.dateRange,
+      sources: [
+        outgoingTransactions.stats,
+        incomingTransactions.stats,
+        tokenTransfers.stats,
+      ],
+    }),
   };
 }
 
+/**
+ * TzKT filters for an incremental sync (only operations after the synced
+ * level) and for the date range
+ */
+function getQueryFilter(options: FetchOptions): string {
+  let filter = options.since ? `&level.gt=${options.since.block}` : "";
+  const { from, to } = options.dateRange || {};
+  if (from) filter += `&timestamp.ge=${from.toISOString()}`;
+  if (to) filter += `&timestamp.lt=${to.toISOString()}`;
+  return filter;
+}
+
 /**
  * Fetch outgoing native XTZ transactions
  */
 async function fetchOutgoingTransactions(
   address: string,
-  onProgress?: (count: number, page: number) => void
-): Promise<ChainTransaction[]> {
-  const allTransactions: ChainTransaction[] = [];
-  let offset = 0;
+  onProgress: (count: number, page: number) => void,
+  options: FetchOptions
+): Promise<{ transactions: ChainTransaction[]; stats: SourceFetchStats }> {
+  const start = restoreSource<ChainTransaction>(options, "outgoing", "Outgoing XTZ transactions");
+  const { stats, cursor } = start;
+  const allTransactions: ChainTransaction[] = [...start.items];
+
+  if (start.skip) {
+    return { transactions: allTransactions, stats };
+  }
+
+  let offset = cursor?.offset ?? 0;
+  const queryFilter = getQueryFilter(options);
   let hasMore = true;
-  let page = 0;
+  const startPage = cursor?.page ?? 0;
+  let page = startPage;
 
-  while (hasMore && page < MAX_PAGES) {
+  while (hasMore && page < startPage + MAX_PAGES) {
     try {
-      const url = `${BASE_URL}/operations/transactions?sender=${address}&limit=${PAGE_SIZE}&offset=${offset}&quote=usd`;
+      const url = `${BASE_URL}/operations/transactions?sender=${address}&limit=${PAGE_SIZE}&offset=${offset}${queryFilter}&quote=usd`;
       console.log(`[Tezos] Fetching outgoing page ${page} (offset: ${offset})...`);
 
       const response = await fetch(url);
       if (!response.ok) {
         console.error(`[Tezos] Outgoing page ${page} HTTP ${response.status}`);
+        markTruncated(stats, "error", { page, offset }, `Page ${page} failed: HTTP ${response.status}`);
         break;
       }
 
@@ -142,12 +162,14 @@ async function fetchOutgoingTransactions(
         break;
       }
 
+      const pageTransactions: ChainTransaction[] = [];
       for (const item of data) {
         const converted = convertNativeTransaction(item, address, "outgoing");
         if (converted) {
-          allTransactions.push(converted);
+          pageTransactions.push(converted);
         }
       }
+      allTransactions.push(...pageTransactions);
 
       if (onProgress) {
         onProgress(allTransactions.length, page);
@@ -158,17 +180,27 @@ async function fetchOutgoingTransactions(
       hasMore = data.length === PAGE_SIZE;
       offset += data.length;
       page++;
+      stats.count = allTransactions.length;
+      stats.pagesFetched++;
+      await reportPage(options, stats, hasMore ? { page, offset } : null, pageTransactions);
 
       if (hasMore) {
         await new Promise(resolve => setTimeout(resolve, DELAY_MS));
       }
     } catch (error) {
       console.error(`[Tezos] Outgoing page ${page} exception:`, error);
+      markTruncated(stats, "error", { page, offset }, `Page ${page} failed: ${error instanceof Error ? error.message : String(error)}`);
       break;
     }
   }
 
-  return allTransactions;
+  if (hasMore && page >= startPage + MAX_PAGES) {
+    console.warn(`[Tezos] Outgoing stopped at MAX_PAGES (${MAX_PAGES})`);
+    markTruncated(stats, "page_limit", { page, offset });
+  }
+  stats.count = allTransactions.length;
+
+  return { transactions: allTransactions, stats };
 }
 
 /**
@@ -176,21 +208,32 @@ async function fetchOutgoingTransactions(
  */
 async function fetchIncomingTransactions(
   address: string,
-  onProgress?: (count: number, page: number) => void
-): Promise<ChainTransaction[]> {
-  const allTransactions: ChainTransaction[] = [];
-  let offset = 0;
+  onProgress: (count: number, page: number) => void,
+  options: FetchOptions
+): Promise<{ transactions: ChainTransaction[]; stats: SourceFetchStats }> {
+  const start = restoreSource<ChainTransaction>(options, "incoming", "Incoming XTZ transactions");
+  const { stats, cursor } = start;
+  const allTransactions: ChainTransaction[] = [...start.items];
+
+  if (start.skip) {
+    return { transactions: allTransactions, stats };
+  }
+
+  let offset = cursor?.offset ?? 0;
+  const queryFilter = getQueryFilter(options);
   let hasMore = true;
-  let page = 0;
+  const startPage = cursor?.page ?? 0;
+  let page = startPage;
 
-  while (hasMore && page < MAX_PAGES) {
+  while (hasMore && page < startPage + MAX_PAGES) {
     try {
-      const url = `${BASE_URL}/operations/transactions?target=${address}&limit=${PAGE_SIZE}&offset=${offset}&quote=usd`;
+      const url = `${BASE_URL}/operations/transactions?target=${address}&limit=${PAGE_SIZE}&offset=${offset}${queryFilter}&quote=usd`;
       console.log(`[Tezos] Fetching incoming page ${page} (offset: ${offset})...`);
 
       const response = await fetch(url);
       if (!response.ok) {
         console.error(`[Tezos] Incoming page ${page} HTTP ${response.status}`);
+        markTruncated(stats, "error", { page, offset }, `Page ${page} failed: HTTP ${response.status}`);
         break;
       }
 
@@ -200,12 +243,14 @@ async function fetchIncomingTransactions(
         break;
       }
 
+      const pageTransactions: ChainTransaction[] = [];
       for (const item of data) {
         const converted = convertNativeTransaction(item, address, "incoming");
         if (converted) {
-          allTransactions.push(converted);
+          pageTransactions.push(converted);
         }
       }
+      allTransactions.push(...pageTransactions);
 
       if (onProgress) {
         onProgress(allTransactions.length, page);
@@ -216,17 +261,27 @@ async function fetchIncomingTransactions(
       hasMore = data.length === PAGE_SIZE;
       offset += data.length;
       page++;
+      stats.count = allTransactions.length;
+      stats.pagesFetched++;
+      await reportPage(options, stats, hasMore ? { page, offset } : null, pageTransactions);
 
       if (hasMore) {
         await new Promise(resolve => setTimeout(resolve, DELAY_MS));
       }
     } catch (error) {
       console.error(`[Tezos] Incoming page ${page} exception:`, error);
+      markTruncated(stats, "error", { page, offset }, `Page ${page} failed: ${error instanceof Error ? error.message : String(error)}`);
       break;
     }
   }
 
-  return allTransactions;
+  if (hasMore && page >= startPage + MAX_PAGES) {
+    console.warn(`[Tezos] Incoming stopped at MAX_PAGES (${MAX_PAGES})`);
+    markTruncated(stats, "page_limit", { page, offset });
+  }
+  stats.count = allTransactions.length;
+
+  return { transactions: allTransactions, stats };
 }
 
 /**
@@ -234,21 +289,32 @@ async function fetchIncomingTransactions(
  */
 async function fetchTokenTransfers(
   address: string,
-  onProgress?: (count: number, page: number) => void
-): Promise<ChainTransaction[]> {
-  const allTransfers: ChainTransaction[] = [];
-  let offset = 0;
+  onProgress: (count: number, page: number) => void,
+  options: FetchOptions
+): Promise<{ transactions: ChainTransaction[]; stats: SourceFetchStats }> {
+  const start = restoreSource<ChainTransaction>(options, "token_transfers", "Token transfers (FA1.2/FA2)");
+  const { stats, cursor } = start;
+  const allTransfers: ChainTransaction[] = [...start.items];
+
+  if (start.skip) {
+    return { transactions: allTransfers, stats };
+  }
+
+  let offset = cursor?.offset ?? 0;
+  const queryFilter = getQueryFilter(options);
   let hasMore = true;
-  let page = 0;
+  const startPage = cursor?.page ?? 0;
+  let page = startPage;
 
-  while (hasMore && page < MAX_PAGES) {
+  while (hasMore && page < startPage + MAX_PAGES) {
     try {
-      const url = `${BASE_URL}/tokens/transfers?anyof.from.to=${address}&limit=${PAGE_SIZE}&offset=${offset}&quote=usd`;
+      const url = `${BASE_URL}/tokens/transfers?anyof.from.to=${address}&limit=${PAGE_SIZE}&offset=${offset}${queryFilter}&quote=usd`;
       console.log(`[Tezos] Fetching token transfers page ${page} (offset: ${offset})...`);
 
       const response = await fetch(url);
       if (!response.ok) {
         console.error(`[Tezos] Token page ${page} HTTP ${response.status}`);
+        markTruncated(stats, "error", { page, offset }, `Page ${page} failed: HTTP ${response.status}`);
         break;
       }
 
@@ -258,12 +324,14 @@ async function fetchTokenTransfers(
         break;
       }
 
+      const pageTransactions: ChainTransaction[] = [];
       for (const item of data) {
         const converted = convertTokenTransfer(item, address);
         if (converted) {
-          allTransfers.push(converted);
+          pageTransactions.push(converted);
         }
       }
+      allTransfers.push(...pageTransactions);
 
       if (onProgress) {
         onProgress(allTransfers.length, page);
@@ -274,17 +342,27 @@ async function fetchTokenTransfers(
       hasMore = data.length === PAGE_SIZE;
       offset += data.length;
       page++;
+      stats.count = allTransfers.length;
+      stats.pagesFetched++;
+      await reportPage(options, stats, hasMore ? { page, offset } : null, pageTransactions);
 
       if (hasMore) {
         await new Promise(resolve => setTimeout(resolve, DELAY_MS));
       }
     } catch (error) {
       console.error(`[Tezos] Token page ${page} exception:`, error);
+      markTruncated(stats, "error", { page, offset }, `Page ${page} failed: ${error instanceof Error ? error.message : String(error)}`);
       break;
     }
   }
 
-  return allTransfers;
+  if (hasMore && page >= startPage + MAX_PAGES) {
+    console.warn(`[Tezos] Token stopped at MAX_PAGES (${MAX_PAGES})`);
+    markTruncated(stats, "page_limit", { page, offset });
+  }
+  stats.count = allTransfers.length;
+
+  return { transactions: allTransfers, stats };
 }
 
 /**
@@ -551,12 +629,11 @@ export function parseTransaction(
       if (rawAmount && rawAmount !== "0") {
         if (denom === "microtez") {
           // Convert from micro-tez (10^6) to XTZ
-          const num = parseFloat(rawAmount) / 1e6;
-          amount = num.toFixed(6);
+          amount = formatUnits(rawAmount, 6);
           
           // Calculate fiat amount if we have a USD quote
-          if (usdQuote && num > 0) {
-            const fiatValue = num * usdQuote;
+          if (usdQuote && parseFloat(amount) > 0) {
+            const fiatValue = parseFloat(amount) * usdQuote;
             fiatAmount = fiatValue.toFixed(2);
           }
         } else {
@@ -587,10 +664,7 @@ export function parseTransaction(
               const toAddr = attrs["to"] || "";
 
               // Calculate token amount
-              const tokenAmount = parseFloat(value) / Math.pow(10, decimals);
-              const formattedAmount = decimals === 0 
-                ? tokenAmount.toFixed(0) 
-                : tokenAmount.toFixed(6);
+              const formattedAmount = formatUnits(value, decimals);
 
               // Update currency and amount
               if (!amount || amount === "" || amount === "0") {
@@ -615,8 +689,7 @@ export function parseTransaction(
   // Extract fee (convert from micro-tez to XTZ)
   const feeAmount = tx.tx?.auth_info?.fee?.amount?.[0];
   if (feeAmount && feeAmount.amount && feeAmount.amount !== "0") {
-    const feeNum = parseFloat(feeAmount.amount) / 1e6;
-    fee = feeNum.toFixed(8);
+    fee = formatUnits(feeAmount.amount, 6);
   }
 
   // Build comprehensive notes for cost basis tracking
@@ -668,3 +741,13 @@ export function parseTransaction(
     chain: CHAIN_ID,
   };
 }
+
+export const tezosAdapter: ChainAdapter = {
+  chainId: CHAIN_ID,
+  version: 2, // 2: exact decimal amounts
+  attribution: { name: "TzKT", url: "https://tzkt.io" },
+  supportsDateRange: true,
+  isValidAddress: isValidTezosAddress,
+  fetchTransactions: fetchAllTransactionsClientSide,
+  parseTransaction,
+};
@@ -32,7 +32,6 @@ export interface ChainConfig {
   decimals: number;
   nativeDenom: string;
   nativeSymbol: string;
-  enabled: boolean;
   description: string;
 }
 
@@ -44,6 +43,7 @@ export interface ChainTransaction {
   code: number;
   chain: ChainId;
   logs?: TxLog[];
+  events?: TxEvent[]; // Cosmos SDK 0.50+ leaves logs empty and lists these
   tx: {
     body: {
       messages: Message[];
@@ -64,6 +64,7 @@ export interface OsmosisTransaction {
   timestamp: string;
   code: number;
   logs?: TxLog[];
+  events?: TxEvent[]; // Cosmos SDK 0.50+ leaves logs empty and lists these
   tx: {
     body: {
       messages: Message[];
@@ -102,6 +103,13 @@ export interface Message {
   delegator_address?: string;
   validator_address?: string;
   voter?: string;
+  signer?: string; // IBC relayer messages (MsgRecvPacket)
+  owner?: string; // Lockups
+  staker_addr?: string; // Babylon BTC delegations
+  staking_value?: string; // Satoshis a Babylon BTC delegation stakes
+  address?: string; // Babylon reward withdrawals
+  type?: string; // Babylon reward stakeholder, e.g. "btc_staker"
+  msg?: Omit<Message, "@type">; // Message a Babylon epoching wrapper queues
   amount?: Coin[] | Coin;
   token?: Coin;
   tokens?: Coin[];
@@ -112,6 +120,32 @@ export interface Coin {
   amount: string;
 }
 
+// NEAR receipt as listed by Pikespeak; a transaction executes as one receipt
+// per contract it touches, each listed on its own
+export interface NearReceipt {
+  receipt_id: string;
+  block_height: number;
+  block_timestamp: number; // Nanoseconds
+  predecessor_account_id: string;
+  receiver_account_id: string;
+  receipt_kind: string;
+  args: {
+    method_name?: string;
+    args_json?: Record<string, unknown>;
+    args_base64?: string;
+  };
+  actions: Array<{
+    action: string;
+    args?: { deposit?: string; [key: string]: unknown }; // yoctoNEAR
+  }>;
+  receipt_outcome: {
+    status: boolean | { SuccessValue?: string; SuccessReceiptId?: string };
+    gas_burnt: number;
+    tokens_burnt: string; // yoctoNEAR
+    logs: string[];
+  };
+}
+
 // Awaken Tax CSV Format - Multi-Asset Template
 // Based on: Date, Received Quantity, Received Currency, Received Fiat Amount, Sent Quantity, Sent Currency, Sent Fiat Amount,
 //           Received Quantity 2, Received Currency 2, Sent Quantity 2, Sent Currency 2, Fee Amount, Fee Currency, Notes, Tag
@@ -149,9 +183,283 @@ export interface AwakenTaxTradingRow {
   "Transaction Hash": string;
 }
 
+// One line of the standalone gains report (see utils/costBasis.ts)
+export interface GainsReportRow {
+  Asset: string;
+  Quantity: string;
+  "Date Acquired": string; // YYYY-MM-DD, empty when no lot was left
+  "Date Sold": string;
+  Proceeds: string;
+  "Cost Basis": string;
+  "Gain/Loss": string;
+  Term: string; // short, long
+  Notes: string;
+  "Transaction Hash": string;
+}
+
+// One line of the tax-year summary CSV (see utils/taxSummary.ts)
+export interface TaxSummaryRow {
+  Section: string; // Income, Disposals, Fees, Transactions, Counterparties
+  Item: string;
+  Quantity: string;
+  "Fiat Amount": string;
+  Notes: string;
+}
+
 // CSV Export format type
 export type CSVFormat = "standard" | "trading";
 
+// Awaken tags of the standard format (see utils/labels.ts)
+// A rule matches when every field it sets matches; rules win over the tag of
+// the transaction type
+export interface TagRule {
+  id: string;
+  contract?: string; // Address of the counterparty or token contract
+  method?: string; // Text in the memo, e.g. a contract method name
+  tag: string;
+}
+
+export interface TagMapping {
+  types: Partial<Record<TransactionType, string>>;
+  rules: TagRule[];
+}
+
+// Spam filter (see utils/spam.ts)
+export type SpamReason = "deny_list" | "zero_value" | "url_symbol" | "unsolicited";
+
+// Token ids the user marked: lower-case contract address, else symbol
+export interface SpamLists {
+  allow: string[];
+  deny: string[];
+}
+
+// One of the rows a transaction is split into
+export interface TransactionSplit {
+  type?: TransactionType; // The type of the transaction when unset
+  amount: string;
+  currency: string;
+  amount2?: string;
+  currency2?: string;
+}
+
+// Edits of one transaction, applied on export
+// Editing an amount or currency clears the fiat value of that leg
+export interface TransactionOverride {
+  type?: TransactionType;
+  tag?: string;
+  notes?: string;
+  excluded?: boolean;
+  amount?: string;
+  currency?: string;
+  amount2?: string;
+  currency2?: string;
+  // Value of the edited amount and amount2, priced when the edit was saved
+  fiatAmount?: string;
+  fiatAmount2?: string;
+  fiatCurrency?: string;
+  splits?: TransactionSplit[]; // Replaces the row with these rows
+}
+
+// Audit trail of the edits, oldest first
+export interface EditLogEntry {
+  at: string; // ISO timestamp
+  key: string; // getTransactionKey of the row
+  action: "edit" | "exclude" | "include" | "split" | "reset" | "add" | "remove";
+  detail: string;
+}
+
+// One changed field of an edited row next to its original value
+export interface TransactionDiff {
+  field: string;
+  original: string;
+  edited: string;
+}
+
+// Keyed by getTransactionKey
+export type TransactionOverrides = Record<string, TransactionOverride>;
+
+// Options that change how rows are produced by convertToAwakenCSV
+export interface ExportOptions {
+  // Metadata of the fetch the transactions came from; a truncated fetch is
+  // flagged in the notes of the first exported row
+  fetchMetadata?: FetchMetadata;
+  // All addresses of the user; transfers between two of them are tagged as
+  // self-transfers so cost basis carries over
+  ownAddresses?: string[];
+  // Hashes seen as a send in one own wallet and a receive in another (see
+  // findSelfTransferHashes), for transfers whose from/to do not both match
+  selfTransferHashes?: Set<string>;
+  // Realized gains of these transactions; fills the P&L column of the
+  // trading format
+  realizedGains?: RealizedGain[];
+  // IANA zone of the Date column; the saved setting when unset
+  timeZone?: string;
+  // Tag mapping and per-transaction edits; the saved ones when unset
+  tagMapping?: TagMapping;
+  overrides?: TransactionOverrides;
+}
+
+// Historical USD prices (see utils/pricing.ts)
+export interface PriceQuery {
+  chain: ChainId;
+  symbol: string;
+  contract?: string; // Token contract; matched before the symbol when known
+  date: string; // UTC day, YYYY-MM-DD
+  manual?: boolean; // Currency the user entered, on a manual or edited row
+}
+
+// One daily close of the local price table
+export interface DailyPrice {
+  asset: string; // Lower-case contract address or upper-case symbol
+  date: string; // YYYY-MM-DD
+  close: number; // USD
+  source: string; // Id of the price source, "csv" for imported rows
+}
+
+// Currency of the fiat columns; prices are looked up in USD and converted
+export type FiatCurrency = "USD" | "EUR" | "GBP" | "CHF" | "CAD" | "AUD" | "JPY";
+
+// One day of the local FX table
+export interface FxRate {
+  currency: FiatCurrency;
+  date: string; // YYYY-MM-DD
+  rate: number; // Units of currency per 1 USD
+}
+
+// Fiat value of an export in the reporting currency
+export interface FiatTotals {
+  currency: string;
+  received: string;
+  sent: string;
+  fees: string;
+  unpricedRows: number; // Rows with a quantity but no fiat value
+}
+
+// Pluggable provider of daily closes; the pricing pass asks each source in
+// turn for the queries the earlier ones could not answer
+export interface PriceSource {
+  id: string;
+  name: string;
+  getPrices(queries: PriceQuery[]): Promise<Map<PriceQuery, number>>;
+}
+
+// Fee verification of an export, one entry per chain and fee currency
+export interface FeeReportEntry {
+  chain: ChainId;
+  currency: string;
+  transactionCount: number; // Hashes that paid a fee
+  exportedTotal: string; // Sum of the Fee Amount column of the export
+  expectedTotal: string; // Sum of one fee per hash, taken from the parsed rows
+  matches: boolean;
+}
+
+// Cost basis and realized gains (see utils/costBasis.ts)
+export type CostBasisMethod = "fifo" | "lifo" | "hifo" | "specific";
+
+// Quantity of an asset acquired in one leg, consumed by later disposals
+export interface TaxLot {
+  id: string; // chain:hash:leg of the acquisition
+  asset: string;
+  acquiredAt: Date;
+  quantity: string;
+  remaining: string;
+  costBasis: string; // Fiat cost of the remaining quantity
+  priced: boolean; // false when the acquisition had no fiat value (cost 0)
+}
+
+// Part of one disposal matched against one lot, or against none when the
+// history holds less of the asset than was disposed of
+export interface RealizedGain {
+  disposalId: string; // chain:hash:leg of the disposal
+  chain: ChainId;
+  hash: string;
+  asset: string;
+  quantity: string;
+  acquiredAt: Date | null;
+  disposedAt: Date;
+  lotId: string | null;
+  proceeds: string;
+  costBasis: string;
+  gain: string;
+  term: "short" | "long"; // long when held more than a year
+  priced: boolean; // false when the disposal had no fiat value
+  fee: boolean; // A fee paid in the asset rather than a transfer or trade
+}
+
+// Holdings left after the last transaction, per asset
+export interface OpenPosition {
+  asset: string;
+  quantity: string;
+  costBasis: string;
+  lots: TaxLot[];
+}
+
+export interface GainsReport {
+  method: CostBasisMethod;
+  currency: string;
+  realized: RealizedGain[];
+  positions: OpenPosition[];
+  lots: TaxLot[]; // Every lot opened, with what is left of it
+  proceeds: string;
+  costBasis: string;
+  shortTermGain: string;
+  longTermGain: string;
+  unpricedDisposals: number; // Excluded from the totals
+  unmatchedDisposals: number; // Disposals without enough lots, cost basis 0
+}
+
+// Tax-year summary of one wallet (see utils/taxSummary.ts)
+export interface AssetTotal {
+  currency: string;
+  quantity: string;
+  fiatAmount: string; // Sum of the priced rows
+  unpricedRows: number;
+}
+
+export interface CounterpartyTotal {
+  address: string;
+  sent: number; // Rows sent to this address
+  received: number; // Rows received from it
+}
+
+export interface TaxYearSummary {
+  year: number;
+  timeZone: string; // IANA zone the year boundaries are taken in
+  address: string; // Wallet, or "" for every wallet of a portfolio
+  fiatCurrency: string;
+  transactionCount: number;
+  income: AssetTotal[]; // Staking rewards (claim_rewards)
+  disposals: AssetTotal[]; // Assets sent, swapped away or bridged out
+  disposalCount: number;
+  fees: AssetTotal[];
+  countsByType: Partial<Record<TransactionType, number>>;
+  topCounterparties: CounterpartyTotal[];
+}
+
+// Origin of an "ibc/<hash>" denom on a Cosmos chain (see utils/ibcDenoms.ts)
+export interface IbcDenomTrace {
+  path: string; // e.g. "transfer/channel-0"
+  baseDenom: string; // Denom on the chain it came from, e.g. "uatom"
+  symbol: string; // The base denom when decimals are unknown
+  decimals?: number; // Unset when neither the asset list nor chain metadata has them
+}
+
+// NEP-141 token metadata of a NEAR token contract (see utils/nearTokens.ts)
+export interface NearTokenMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+// One asset moved to or from the wallet by a transaction
+export interface AssetMovement {
+  direction: "in" | "out";
+  amount: string; // Unsigned
+  currency: string;
+  contract?: string;
+  fiatAmount?: string; // Filled by pricing for legs only listed here
+  type?: TransactionType; // Of its linked row, e.g. rewards a delegation withdrew
+}
+
 // Simplified transaction for UI display
 export interface ParsedTransaction {
   hash: string;
@@ -166,11 +474,22 @@ export interface ParsedTransaction {
   currency2?: string;
   fee: string;
   feeCurrency: string;
-  fiatAmount?: string; // USD value of the transaction amount
-  fiatCurrency?: string; // Usually "USD"
+  fiatAmount?: string; // Fiat value of the transaction amount
+  fiatAmount2?: string; // Fiat value of amount2
+  feeFiatAmount?: string; // Fiat value of the fee
+  fiatCurrency?: string; // Reporting currency of the fiat values, e.g. "USD"
+  currencyContract?: string; // Token contract of currency, when known
+  currency2Contract?: string;
+  // Every leg, when the transaction moves more than one asset; legs that do
+  // not fit amount and amount2 are exported as linked rows (utils/movements.ts)
+  movements?: AssetMovement[];
   memo: string;
   status: "success" | "failed";
   chain: ChainId;
+  manual?: boolean; // Added by the user (see utils/labels.ts)
+  editKey?: string; // Key of the transaction an edited row came from
+  // Index among the rows parsed from its hash with the same type, from and to
+  leg?: number;
 }
 
 export type TransactionType =
@@ -184,8 +503,149 @@ export type TransactionType =
   | "pool_deposit"
   | "pool_withdraw"
   | "governance_vote"
+  | "btc_delegate" // Babylon: BTC staked on Bitcoin, never held on the chain
+  | "btc_undelegate"
   | "unknown";
 
+// Chain Adapter contract
+// Every supported chain implements one adapter and registers it in
+// app/services/registry.ts. Code that needs to know which chains exist looks
+// them up through the registry instead of importing client modules directly.
+export interface FetchOptions {
+  onProgress?: (count: number, page: number) => void;
+  // Continue a truncated fetch: only the sources listed are fetched, each
+  // starting from its cursor
+  resumeFrom?: FetchCursor;
+  // Continue an interrupted fetch: finished sources are taken from the
+  // checkpoint as-is, unfinished ones continue from their cursor
+  checkpoint?: FetchCheckpoint;
+  // Called after every page so the caller can persist progress
+  onCheckpoint?: (update: CheckpointUpdate) => void | Promise<void>;
+  // Incremental sync: only fetch transactions in blocks after this cursor
+  since?: SyncCursor;
+  // Only fetch transactions in this range, where the API can filter by time;
+  // callers filter again, so adapters without support may ignore it
+  dateRange?: DateRange;
+}
+
+// Time range of a fetch or export: from is inclusive, to exclusive
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+// Highest block and timestamp seen for a wallet, the starting point of the
+// next incremental sync
+export interface SyncCursor {
+  block: string;
+  timestamp: string;
+}
+
+// Where a paginated source stopped, so a later fetch can continue from there
+export interface SourceCursor {
+  page: number; // Next page (or page index) to request
+  offset?: number; // Next offset, for offset-paginated APIs
+  beforeBlock?: string; // Upper block bound, for APIs with a capped result window (Etherscan)
+}
+
+// Resume cursors keyed by SourceFetchStats.source
+export type FetchCursor = Record<string, SourceCursor>;
+
+export type TruncationReason = "page_limit" | "error";
+
+// Progress of one source after a page, reported through onCheckpoint
+export interface CheckpointUpdate {
+  source: string;
+  stats: SourceFetchStats;
+  nextCursor: SourceCursor | null; // null once the source is finished
+  pageItems: unknown[]; // Raw items of the page just fetched, in the adapter's own format
+}
+
+export interface SourceProgress {
+  stats: SourceFetchStats;
+  nextCursor: SourceCursor | null;
+  items: unknown[]; // All raw items fetched so far
+}
+
+// Persisted progress of an interrupted fetch, keyed by SourceFetchStats.source
+export interface FetchCheckpoint {
+  chain: ChainId;
+  address: string;
+  updatedAt: string;
+  sources: Record<string, SourceProgress>;
+}
+
+// Per-endpoint statistics (e.g. Etherscan "tokentx", TzKT incoming transfers)
+export interface SourceFetchStats {
+  source: string; // Stable identifier of the endpoint or query
+  label: string; // Human readable name for the results view
+  count: number; // Items returned by this source
+  pagesFetched: number;
+  truncated: boolean; // Stopped before the source's last page
+  truncationReason?: TruncationReason;
+  error?: string; // Error that ended pagination early, if any
+  nextCursor?: SourceCursor; // Where to resume when truncated
+}
+
+export interface FetchTimings {
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+}
+
+export interface FetchMetadata {
+  address: string;
+  chain: ChainId;
+  dataSource: string;
+  totalFetched: number;
+  pagesFetched: number;
+  sources: SourceFetchStats[];
+  truncated: boolean; // True when any source was truncated
+  warnings: string[];
+  firstTransactionDate?: string;
+  lastTransactionDate?: string;
+  timings: FetchTimings;
+  since?: SyncCursor; // Set when the fetch only asked for data after this cursor
+  dateRange?: DateRange; // Set when the API was asked for this range only
+  syncCursor?: SyncCursor; // Highest block/timestamp in the returned transactions; unset for a date-range fetch, which is never cached
+  newTransactions?: number; // Transactions an incremental sync added to the stored set
+}
+
+export interface FetchResult<TRaw = ChainTransaction> {
+  transactions: TRaw[];
+  metadata: FetchMetadata;
+}
+
+export interface ChainAdapter<TRaw = ChainTransaction> {
+  chainId: ChainId;
+  // Bump when fetch or parse output changes so cached wallets are refetched
+  version: number;
+  attribution: { name: string; url: string };
+  // The fetch honours FetchOptions.dateRange in its API queries
+  supportsDateRange?: boolean;
+  // Lower-case contracts of tokens the adapter maps to a known symbol; never
+  // treated as spam
+  knownTokens?: string[];
+  isValidAddress(address: string): boolean;
+  fetchTransactions(
+    address: string,
+    options?: FetchOptions,
+  ): Promise<FetchResult<TRaw>>;
+  parseTransaction(tx: TRaw, walletAddress: string): ParsedTransaction;
+}
+
+// Multi-wallet portfolio: several (chain, address) pairs fetched together
+export interface PortfolioWallet {
+  chain: ChainId;
+  address: string;
+}
+
+export interface WalletResult extends PortfolioWallet {
+  transactions: ParsedTransaction[];
+  metadata: FetchMetadata | null;
+  error?: string; // Set when this wallet failed; the other wallets still load
+}
+
 // API Configuration
 export interface ApiConfig {
   mintscanApiKey?: string;
@@ -9,7 +9,8 @@ export type ApiKeyService =
   | "fantom"    // Tatum
   | "flow"      // AllThatNode
   | "polkadot"  // AllThatNode
-  | "mintscan"; // Mintscan
+  | "mintscan"  // Mintscan
+  | "coingecko"; // CoinGecko (historical prices)
 
 const STORAGE_KEY = "custom-api-keys";
 
@@ -23,6 +24,7 @@ export const DEFAULT_API_KEYS: Record<ApiKeyService, string | undefined> = {
   flow: "edb5b9348fb34b33855da007fcafebae",
   polkadot: "edb5b9348fb34b33855da007fcafebae",
   mintscan: undefined, // Set via env var or user input
+  coingecko: undefined, // Optional; prices come from the local table without it
 };
 
 /**
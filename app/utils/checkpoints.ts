@@ -0,0 +1,210 @@
+// Fetch checkpoints
+// Adapters report progress after every page through options.onCheckpoint and
+// pick up where they left off with restoreSource(). The dashboard persists the
+// updates to IndexedDB so a tab reload continues an interrupted fetch instead
+// of restarting every source from page 1.
+
+import {
+  ChainId,
+  CheckpointUpdate,
+  FetchCheckpoint,
+  FetchOptions,
+  SourceCursor,
+  SourceFetchStats,
+} from "../types";
+import { createSourceStats } from "./fetchMetadata";
+import {
+  STORES,
+  isIndexedDBAvailable,
+  prefixRange,
+  requestToPromise,
+  withTransaction,
+} from "./db";
+
+export interface SourceStart<T> {
+  items: T[]; // Items fetched by an earlier run
+  stats: SourceFetchStats;
+  cursor?: SourceCursor; // Where to continue; undefined starts at the first page
+  skip: boolean; // Nothing left to fetch for this source
+}
+
+/**
+ * Work out where a source should start from the fetch options
+ * A checkpoint restores items and cursor; a resume cursor only continues
+ * the sources it lists; otherwise the source starts fresh
+ */
+export function restoreSource<T>(
+  options: FetchOptions,
+  source: string,
+  label: string,
+): SourceStart<T> {
+  const progress = options.checkpoint?.sources[source];
+  if (progress) {
+    return {
+      items: progress.items as T[],
+      stats: { ...progress.stats },
+      cursor: progress.nextCursor ?? undefined,
+      skip: progress.nextCursor === null,
+    };
+  }
+
+  const stats = createSourceStats(source, label);
+  if (options.resumeFrom) {
+    const cursor = options.resumeFrom[source];
+    return { items: [], stats, cursor, skip: !cursor };
+  }
+  return { items: [], stats, skip: false };
+}
+
+/**
+ * Report a fetched page to the caller, if it asked for checkpoints
+ */
+export async function reportPage(
+  options: FetchOptions,
+  stats: SourceFetchStats,
+  nextCursor: SourceCursor | null,
+  pageItems: unknown[],
+): Promise<void> {
+  if (!options.onCheckpoint) return;
+  await options.onCheckpoint({
+    source: stats.source,
+    stats: { ...stats },
+    nextCursor,
+    pageItems,
+  });
+}
+
+// Persistence
+
+interface StoredSource {
+  stats: SourceFetchStats;
+  nextCursor: SourceCursor | null;
+  pageCount: number;
+}
+
+interface StoredCheckpoint {
+  chain: ChainId;
+  address: string;
+  updatedAt: string;
+  sources: Record<string, StoredSource>;
+}
+
+function checkpointKey(chain: ChainId, address: string): string {
+  return `${chain}:${address}`;
+}
+
+/**
+ * Append one page to the persisted checkpoint of chain+address
+ * Failures are logged and swallowed so they never break the fetch itself
+ */
+export async function saveCheckpointUpdate(
+  chain: ChainId,
+  address: string,
+  update: CheckpointUpdate,
+): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+  const key = checkpointKey(chain, address);
+
+  try {
+    await withTransaction(
+      [STORES.checkpoints, STORES.checkpointPages],
+      "readwrite",
+      async (tx) => {
+        const store = tx.objectStore(STORES.checkpoints);
+        const record = (await requestToPromise<StoredCheckpoint | undefined>(
+          store.get(key),
+        )) || { chain, address, updatedAt: "", sources: {} };
+
+        let pageCount = record.sources[update.source]?.pageCount ?? 0;
+        if (update.pageItems.length > 0) {
+          tx.objectStore(STORES.checkpointPages).put(update.pageItems, [
+            key,
+            update.source,
+            pageCount,
+          ]);
+          pageCount++;
+        }
+
+        record.sources[update.source] = {
+          stats: update.stats,
+          nextCursor: update.nextCursor,
+          pageCount,
+        };
+        record.updatedAt = new Date().toISOString();
+        await requestToPromise(store.put(record, key));
+      },
+    );
+  } catch (e) {
+    console.error(`[Checkpoints] Error saving ${key}:`, e);
+  }
+}
+
+/**
+ * Load the persisted checkpoint of chain+address, or null if there is none
+ */
+export async function loadCheckpoint(
+  chain: ChainId,
+  address: string,
+): Promise<FetchCheckpoint | null> {
+  if (!isIndexedDBAvailable()) return null;
+  const key = checkpointKey(chain, address);
+
+  try {
+    return await withTransaction(
+      [STORES.checkpoints, STORES.checkpointPages],
+      "readonly",
+      async (tx) => {
+        const record = await requestToPromise<StoredCheckpoint | undefined>(
+          tx.objectStore(STORES.checkpoints).get(key),
+        );
+        if (!record) return null;
+
+        const pages = tx.objectStore(STORES.checkpointPages);
+        const checkpoint: FetchCheckpoint = {
+          chain: record.chain,
+          address: record.address,
+          updatedAt: record.updatedAt,
+          sources: {},
+        };
+        for (const [source, stored] of Object.entries(record.sources)) {
+          const chunks = await requestToPromise<unknown[][]>(
+            pages.getAll(prefixRange([key, source])),
+          );
+          checkpoint.sources[source] = {
+            stats: stored.stats,
+            nextCursor: stored.nextCursor,
+            items: chunks.flat(),
+          };
+        }
+        return checkpoint;
+      },
+    );
+  } catch (e) {
+    console.error(`[Checkpoints] Error loading ${key}:`, e);
+    return null;
+  }
+}
+
+/**
+ * Remove the checkpoint of chain+address and all of its pages
+ */
+export async function clearCheckpoint(
+  chain: ChainId,
+  address: string,
+): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+  const key = checkpointKey(chain, address);
+
+  try {
+    await withTransaction(
+      [STORES.checkpoints, STORES.checkpointPages],
+      "readwrite",
+      async (tx) => {
+        tx.objectStore(STORES.checkpoints).delete(key);
+        tx.objectStore(STORES.checkpointPages).delete(prefixRange([key]));
+      },
+    );
+  } catch (e) {
+    console.error(`[Checkpoints] Error clearing ${key}:`, e);
+  }
+}
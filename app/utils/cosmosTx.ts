@@ -0,0 +1,352 @@
+// Cosmos SDK transactions
+// Osmosis and Babylon LCDs return the same tx_responses: the messages, and
+// the events they emitted either per message in logs or, from SDK 0.50, as
+// one flat list. Rows are decoded from the wallet's exact bank deltas; each
+// adapter names its own message types and denoms.
+
+import {
+  AssetMovement,
+  ChainId,
+  ChainTransaction,
+  Coin,
+  Message,
+  ParsedTransaction,
+  TransactionType,
+  TxEvent,
+  TxLog,
+} from "../types";
+
+export interface CosmosTx {
+  hash: string;
+  height: string;
+  timestamp: string;
+  code: number;
+  logs?: TxLog[];
+  events?: TxEvent[];
+  tx: ChainTransaction["tx"];
+}
+
+export interface CosmosDecoder {
+  chain: ChainId;
+  // Message types by the row they make, first match wins when a transaction
+  // has several (e.g. a swap that also claims rewards)
+  messageTypes: Array<[TransactionType, string[]]>;
+  formatAmount: (denom: string, value: bigint) => string;
+  formatDenom: (denom: string) => string;
+  // Message another one carries, e.g. Babylon's epoching wrappers
+  unwrapMessage?: (message: Message) => Message;
+  // Detail the notes add after the message types
+  describeMessage?: (message: Message) => string;
+  // Denoms whose decimals are unknown, formatted as raw integer amounts
+  isRawDenom?: (denom: string) => boolean;
+}
+
+// Legs of these rows are exported as rows of the same type
+const TYPED_LEG_TYPES: TransactionType[] = [
+  "pool_deposit",
+  "pool_withdraw",
+  "delegate",
+  "undelegate",
+  "claim_rewards",
+];
+
+/**
+ * Events the messages of a transaction emitted
+ * Older nodes list them per message in logs; SDK 0.50 nodes only return the
+ * flat list, which also has the fee and signature events, so only events
+ * tagged with a message index are kept when any are.
+ */
+function getMessageEvents(tx: CosmosTx): TxEvent[] {
+  const logged = (tx.logs || []).flatMap((log) => log.events || []);
+  if (logged.length > 0) return logged;
+
+  const events = tx.events || [];
+  const indexed = events.filter((e) =>
+    e.attributes.some((a) => a.key === "msg_index"),
+  );
+  return indexed.length > 0 ? indexed : events;
+}
+
+/**
+ * Attributes of every event of a type, one record per emitted event
+ * Logs merge the events of one type into one, so a repeated key starts the
+ * next record.
+ */
+function getEventRecords(
+  events: TxEvent[],
+  type: string,
+): Record<string, string>[] {
+  const records: Record<string, string>[] = [];
+  for (const event of events) {
+    if (event.type !== type) continue;
+    let record: Record<string, string> = {};
+    for (const { key, value } of event.attributes) {
+      if (key in record) {
+        records.push(record);
+        record = {};
+      }
+      record[key] = value;
+    }
+    if (Object.keys(record).length > 0) records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Coins of an event amount, e.g. "1000uosmo,25ibc/27394F..."
+ */
+function parseCoins(value: string | undefined): Coin[] {
+  return (value || "")
+    .split(",")
+    .map((part) => part.trim().match(/^(\d+)(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({ amount: match[1], denom: match[2] }));
+}
+
+function addCoins(totals: Map<string, bigint>, coins: Coin[], sign: 1 | -1) {
+  for (const coin of coins) {
+    const value = BigInt(coin.amount) * BigInt(sign);
+    totals.set(coin.denom, (totals.get(coin.denom) || BigInt(0)) + value);
+  }
+}
+
+/**
+ * Net amount of every denom the messages moved to (+) or from (-) the wallet
+ * Bank coin_spent/coin_received events when the node emits them, else the
+ * older transfer events; both never count the fee.
+ */
+function getWalletDeltas(
+  events: TxEvent[],
+  wallet: string,
+): Map<string, bigint> {
+  const deltas = new Map<string, bigint>();
+  const spent = getEventRecords(events, "coin_spent");
+  const received = getEventRecords(events, "coin_received");
+
+  if (spent.length > 0 || received.length > 0) {
+    for (const r of spent) {
+      if (r.spender === wallet) addCoins(deltas, parseCoins(r.amount), -1);
+    }
+    for (const r of received) {
+      if (r.receiver === wallet) addCoins(deltas, parseCoins(r.amount), 1);
+    }
+  } else {
+    for (const r of getEventRecords(events, "transfer")) {
+      if (r.sender === wallet) addCoins(deltas, parseCoins(r.amount), -1);
+      if (r.recipient === wallet) addCoins(deltas, parseCoins(r.amount), 1);
+    }
+  }
+  return deltas;
+}
+
+/**
+ * Staking rewards paid to the wallet, including those a delegation change
+ * withdrew on its own
+ */
+function getRewards(
+  events: TxEvent[],
+  wallet: string,
+): Map<string, bigint> {
+  const rewards = new Map<string, bigint>();
+  for (const r of getEventRecords(events, "withdraw_rewards")) {
+    // Older nodes leave out the delegator
+    if (r.delegator && r.delegator !== wallet) continue;
+    addCoins(rewards, parseCoins(r.amount), 1);
+  }
+  return rewards;
+}
+
+function getSigner(message: Message): string {
+  return (
+    message.from_address ||
+    message.sender ||
+    message.delegator_address ||
+    message.voter ||
+    message.owner ||
+    message.signer ||
+    message.staker_addr ||
+    message.address ||
+    ""
+  );
+}
+
+function getMessageCoin(message: Message): Coin | undefined {
+  if (message.token) return message.token;
+  return Array.isArray(message.amount) ? message.amount[0] : message.amount;
+}
+
+function getType(
+  messages: Message[],
+  messageTypes: CosmosDecoder["messageTypes"],
+): TransactionType {
+  const types = messages.map((m) => m["@type"] || "");
+  for (const [type, patterns] of messageTypes) {
+    if (types.some((t) => patterns.some((p) => t.includes(p)))) return type;
+  }
+  return "unknown";
+}
+
+/**
+ * Parse a Cosmos transaction from all its messages and the bank events they
+ * emitted
+ * The wallet's exact per-denom deltas fill the row: the sent and received
+ * asset of a swap or pool change, the principal of staking messages from
+ * the message itself, and rewards withdrawn along the way as claim_rewards
+ * legs. Every leg is kept in movements.
+ */
+export function decodeCosmosTransaction(
+  tx: CosmosTx,
+  walletAddress: string,
+  decoder: CosmosDecoder,
+): ParsedTransaction {
+  const { formatAmount, formatDenom } = decoder;
+  const messages = tx.tx?.body?.messages || [];
+  const message =
+    messages[0] && (decoder.unwrapMessage?.(messages[0]) || messages[0]);
+  const wallet = walletAddress.toLowerCase();
+  const events = getMessageEvents(tx);
+  const deltas = getWalletDeltas(events, wallet);
+  const rewards = getRewards(events, wallet);
+  const rawDenoms = new Set<string>();
+
+  const toLeg = (
+    denom: string,
+    value: bigint,
+    type?: TransactionType,
+  ): AssetMovement => {
+    if (decoder.isRawDenom?.(denom)) rawDenoms.add(formatDenom(denom));
+    return {
+      direction: value < BigInt(0) ? "out" : "in",
+      amount: formatAmount(denom, value < BigInt(0) ? -value : value),
+      currency: formatDenom(denom),
+      contract: denom.includes("/") ? denom : undefined,
+      type,
+    };
+  };
+
+  // Rewards are received on their own, so they are not part of the principal
+  rewards.forEach((value, denom) => {
+    deltas.set(denom, (deltas.get(denom) || BigInt(0)) - value);
+  });
+  const principal = Array.from(deltas.entries()).filter(
+    ([, value]) => value !== BigInt(0),
+  );
+  const sent = principal.filter(([, value]) => value < BigInt(0));
+  const received = principal.filter(([, value]) => value > BigInt(0));
+
+  let type = getType(messages, decoder.messageTypes);
+  if (type === "unknown" || (type === "send" && received.length > 0 && sent.length === 0)) {
+    type =
+      sent.length > 0 && received.length > 0
+        ? "swap"
+        : sent.length > 0
+          ? "send"
+          : received.length > 0
+            ? "receive"
+            : rewards.size > 0
+              ? "claim_rewards"
+              : type;
+  }
+
+  const legType = TYPED_LEG_TYPES.includes(type) ? type : undefined;
+  const legs: AssetMovement[] = [
+    ...principal.map(([denom, value]) => toLeg(denom, value, legType)),
+    ...Array.from(rewards.entries())
+      .filter(([, value]) => value > BigInt(0))
+      .map(([denom, value]) => toLeg(denom, value, "claim_rewards")),
+  ];
+
+  // Staked, unbonded and redelegated coins do not pass through the wallet
+  // in the same transaction, and failed transactions emit no events
+  if (
+    (type === "delegate" || type === "undelegate" || legs.length === 0) &&
+    message
+  ) {
+    const coin = getMessageCoin(message);
+    if (coin && !legs.some((leg) => leg.direction === "out" && leg.type === type)) {
+      legs.unshift(
+        toLeg(
+          coin.denom,
+          BigInt(coin.amount) * BigInt(type === "undelegate" ? 1 : -1),
+          legType,
+        ),
+      );
+    }
+  }
+
+  // The row's own legs; the others are exported as linked rows
+  const own = legs.filter((leg) => leg.type === legType);
+  const outs = own.filter((leg) => leg.direction === "out");
+  const ins = own.filter((leg) => leg.direction === "in");
+  const [main, second] =
+    type === "swap" || type === "pool_deposit" || type === "pool_withdraw"
+      ? [outs[0] || ins[0], outs[0] ? ins[0] : ins[1]]
+      : type === "receive" || type === "claim_rewards" || type === "undelegate"
+        ? [ins[0], ins[1]]
+        : [outs[0] || ins[0], outs[0] ? outs[1] : ins[1]];
+
+  // Direction of the row, for sends and IBC transfers
+  const signer = message ? getSigner(message).toLowerCase() : "";
+  const incoming =
+    type === "receive" ||
+    (type === "ibc_transfer" && signer !== wallet);
+  let from = message ? getSigner(message) : "";
+  let to = message?.to_address || message?.receiver || message?.validator_address || "";
+  if (incoming) {
+    if (from.toLowerCase() === wallet) from = "";
+    to = walletAddress;
+  }
+
+  // The fee is the wallet's only when it paid it
+  const feePayer = getEventRecords(tx.events || [], "tx").find(
+    (r) => r.fee_payer,
+  )?.fee_payer;
+  const paysFee = feePayer ? feePayer.toLowerCase() === wallet : signer === wallet;
+  let fee = "";
+  let feeCurrency = "";
+  const feeCoin = tx.tx?.auth_info?.fee?.amount?.[0];
+  if (paysFee && feeCoin && feeCoin.amount !== "0") {
+    fee = formatAmount(feeCoin.denom, BigInt(feeCoin.amount));
+    feeCurrency = formatDenom(feeCoin.denom);
+    if (decoder.isRawDenom?.(feeCoin.denom)) rawDenoms.add(feeCurrency);
+  }
+
+  let notes = type;
+  const messageTypes = messages
+    .map((m) => (m["@type"] || "").split(".").pop())
+    .filter(Boolean);
+  if (messageTypes.length > 0) {
+    notes += ` [Type: ${Array.from(new Set(messageTypes)).join(", ")}]`;
+  }
+  const detail = messages[0] && decoder.describeMessage?.(messages[0]);
+  if (detail) {
+    notes += ` ${detail}`;
+  }
+  if (rawDenoms.size > 0) {
+    notes += ` (Unresolved decimals, raw amounts: ${Array.from(rawDenoms).join(", ")})`;
+  }
+  if (tx.tx?.body?.memo) {
+    notes += ` Memo: ${tx.tx.body.memo}`;
+  }
+
+  return {
+    hash: tx.hash,
+    timestamp: new Date(tx.timestamp),
+    height: parseInt(tx.height, 10),
+    type,
+    from,
+    to,
+    amount: main?.amount || "",
+    currency: main?.currency || "",
+    amount2: second?.amount,
+    currency2: second?.currency,
+    currencyContract: main?.contract,
+    currency2Contract: second?.contract,
+    movements: legs.length > 1 ? legs : undefined,
+    fee,
+    feeCurrency,
+    memo: notes,
+    status: tx.code === 0 ? "success" : "failed",
+    chain: decoder.chain,
+  };
+}
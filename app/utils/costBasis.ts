@@ -0,0 +1,461 @@
+// Cost basis and realized gains
+// Lots are tracked over the merged transaction stream of every wallet: each
+// incoming leg opens a lot at its fiat value, each outgoing leg and each fee
+// disposes of lots picked by the chosen method. Holdings are pooled across
+// wallets, so transfers between the user's own wallets neither open nor close
+// lots. Quantities are exact (BigInt); fiat values are in the currency the
+// rows were priced in (see pricing.ts).
+
+import {
+  CostBasisMethod,
+  GainsReport,
+  GainsReportRow,
+  OpenPosition,
+  ParsedTransaction,
+  RealizedGain,
+  TaxLot,
+} from "../types";
+import { dedupeFees } from "./fees";
+import { getReportingCurrency } from "./fx";
+import {
+  createSelfTransferMatcher,
+  findSelfTransferHashes,
+  normalizeAddress,
+} from "./selfTransfers";
+import { formatDay, getTimeZone } from "./timeZone";
+import { formatUnits, parseUnits } from "./units";
+
+const METHOD_KEY = "cost-basis-method";
+const SELECTIONS_KEY = "cost-basis-lots";
+
+// Quantities are compared as integers with this many decimals (NEAR has 24)
+const QUANTITY_SCALE = 24;
+
+export const COST_BASIS_METHODS: Array<{ id: CostBasisMethod; name: string }> =
+  [
+    { id: "fifo", name: "FIFO (first in, first out)" },
+    { id: "lifo", name: "LIFO (last in, first out)" },
+    { id: "hifo", name: "HIFO (highest cost first)" },
+    { id: "specific", name: "Specific identification" },
+  ];
+
+// Lots chosen per disposal id for specific identification, drawn in order
+// before the rest of the disposal falls back to FIFO
+export type LotSelections = Record<string, string[]>;
+
+interface Movement {
+  id: string;
+  tx: ParsedTransaction;
+  order: number; // Position of the transaction in the wallet stream
+  asset: string;
+  direction: "in" | "out";
+  quantity: bigint;
+  value: number | null; // Fiat value of the whole quantity
+  isFee: boolean;
+}
+
+interface Lot {
+  id: string;
+  asset: string;
+  acquiredAt: Date;
+  quantity: bigint;
+  remaining: bigint;
+  cost: number; // Fiat cost of the remaining quantity
+  priced: boolean;
+}
+
+interface Leg {
+  leg: string;
+  direction: "in" | "out";
+  amount?: string;
+  asset?: string;
+  fiat?: string;
+}
+
+/**
+ * Method saved by the user, FIFO by default
+ */
+export function getCostBasisMethod(): CostBasisMethod {
+  if (typeof window === "undefined") return "fifo";
+
+  try {
+    const stored = localStorage.getItem(METHOD_KEY);
+    return COST_BASIS_METHODS.some((m) => m.id === stored)
+      ? (stored as CostBasisMethod)
+      : "fifo";
+  } catch (e) {
+    console.error("[CostBasis] Error reading method:", e);
+    return "fifo";
+  }
+}
+
+export function saveCostBasisMethod(method: CostBasisMethod): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(METHOD_KEY, method);
+  } catch (e) {
+    console.error("[CostBasis] Error saving method:", e);
+  }
+}
+
+/**
+ * Lots picked for specific identification
+ */
+export function getLotSelections(): LotSelections {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(SELECTIONS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("[CostBasis] Error reading lot selections:", e);
+    return {};
+  }
+}
+
+export function saveLotSelections(selections: LotSelections): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(SELECTIONS_KEY, JSON.stringify(selections));
+  } catch (e) {
+    console.error("[CostBasis] Error saving lot selections:", e);
+  }
+}
+
+function parseQuantity(amount: string): bigint | null {
+  try {
+    const quantity = parseUnits(amount.replace(/^-/, ""), QUANTITY_SCALE);
+    return quantity > BigInt(0) ? quantity : null;
+  } catch {
+    return null; // NFT ids and other non-numeric amounts
+  }
+}
+
+/**
+ * Incoming and outgoing legs of one row, seen from the wallet it belongs to
+ * Staking, liquidity and governance rows move no lots; fees always dispose
+ */
+function getLegs(
+  tx: ParsedTransaction,
+  own: string,
+  selfTransfer: boolean,
+): Leg[] {
+  const legs: Leg[] = [];
+  const both = (direction: "in" | "out") => {
+    legs.push({
+      leg: "amount",
+      direction,
+      amount: tx.amount,
+      asset: tx.currency,
+      fiat: tx.fiatAmount,
+    });
+    legs.push({
+      leg: "amount2",
+      direction,
+      amount: tx.amount2,
+      asset: tx.currency2,
+      fiat: tx.fiatAmount2,
+    });
+  };
+
+  if (tx.status === "success" && !selfTransfer) {
+    if (tx.type === "receive" || tx.type === "claim_rewards") {
+      both("in");
+    } else if (tx.type === "send") {
+      both("out");
+    } else if (tx.type === "ibc_transfer") {
+      both(normalizeAddress(tx.from) === own ? "out" : "in");
+    } else if (tx.type === "swap") {
+      // What was received is what the sent asset fetched
+      const received = tx.amount2 && tx.currency2 ? tx.fiatAmount2 : undefined;
+      const fiat = received || tx.fiatAmount;
+      legs.push({
+        leg: "amount",
+        direction: "out",
+        amount: tx.amount,
+        asset: tx.currency,
+        fiat,
+      });
+      legs.push({
+        leg: "amount2",
+        direction: "in",
+        amount: tx.amount2,
+        asset: tx.currency2,
+        fiat,
+      });
+    }
+  }
+
+  legs.push({
+    leg: "fee",
+    direction: "out",
+    amount: tx.fee,
+    asset: tx.feeCurrency,
+    fiat: tx.feeFiatAmount,
+  });
+  return legs;
+}
+
+/**
+ * Every leg that moves an asset, in the order lots are opened and closed:
+ * by time, then by position in the stream, outgoing legs of a transaction
+ * before its incoming ones
+ */
+function getMovements(
+  wallets: Array<{ address: string; transactions: ParsedTransaction[] }>,
+): Movement[] {
+  const isSelfTransfer = createSelfTransferMatcher(
+    wallets.map((w) => w.address),
+    findSelfTransferHashes(wallets),
+  );
+  const seen = new Map<string, number>();
+  const movements: Movement[] = [];
+  let order = 0;
+
+  dedupeFees(wallets).forEach((transactions, walletIndex) => {
+    const own = normalizeAddress(wallets[walletIndex].address);
+    for (const tx of transactions) {
+      order++;
+      const legs = getLegs(tx, own, isSelfTransfer?.(tx) ?? false);
+      for (const { leg, direction, amount, asset, fiat } of legs) {
+        if (!amount || !asset) continue;
+        const quantity = parseQuantity(amount);
+        if (quantity === null) continue;
+
+        // A hash can appear in several wallets; keep disposal ids unique
+        const baseId = `${tx.chain}:${tx.hash}:${leg}`;
+        const count = (seen.get(baseId) || 0) + 1;
+        seen.set(baseId, count);
+
+        movements.push({
+          id: count > 1 ? `${baseId}:${count}` : baseId,
+          tx,
+          order,
+          asset,
+          direction,
+          quantity,
+          value: fiat ? parseFloat(fiat) : null,
+          isFee: leg === "fee",
+        });
+      }
+    }
+  });
+
+  return movements.sort(
+    (a, b) =>
+      a.tx.timestamp.getTime() - b.tx.timestamp.getTime() ||
+      a.order - b.order ||
+      (a.direction === b.direction ? 0 : a.direction === "out" ? -1 : 1),
+  );
+}
+
+/**
+ * Open lots in the order a disposal draws from them
+ */
+function orderLots(
+  open: Lot[],
+  method: CostBasisMethod,
+  selected: string[] = [],
+): Lot[] {
+  if (method === "lifo") return [...open].reverse();
+  if (method === "hifo") {
+    const unitCost = (lot: Lot) => lot.cost / Number(lot.remaining);
+    return [...open].sort((a, b) => unitCost(b) - unitCost(a));
+  }
+  if (method === "specific") {
+    const picked = selected
+      .map((id) => open.find((lot) => lot.id === id))
+      .filter((lot): lot is Lot => lot !== undefined);
+    return [...picked, ...open.filter((lot) => !picked.includes(lot))];
+  }
+  return open;
+}
+
+function isLongTerm(acquiredAt: Date, disposedAt: Date): boolean {
+  const oneYear = new Date(acquiredAt);
+  oneYear.setUTCFullYear(oneYear.getUTCFullYear() + 1);
+  return disposedAt.getTime() > oneYear.getTime();
+}
+
+function toTaxLot(lot: Lot): TaxLot {
+  return {
+    id: lot.id,
+    asset: lot.asset,
+    acquiredAt: lot.acquiredAt,
+    quantity: formatUnits(lot.quantity, QUANTITY_SCALE),
+    remaining: formatUnits(lot.remaining, QUANTITY_SCALE),
+    costBasis: lot.cost.toFixed(2),
+    priced: lot.priced,
+  };
+}
+
+/**
+ * Realized gains and open positions of the wallets' merged history
+ * Disposals beyond the lots in the history (a truncated fetch, a wallet not
+ * in the portfolio) are matched with a cost basis of 0
+ */
+export function calculateGains(
+  wallets: Array<{ address: string; transactions: ParsedTransaction[] }>,
+  method: CostBasisMethod = "fifo",
+  selections: LotSelections = {},
+): GainsReport {
+  const lotsByAsset = new Map<string, Lot[]>();
+  const allLots: Lot[] = [];
+  const realized: RealizedGain[] = [];
+  let unmatchedDisposals = 0;
+
+  for (const movement of getMovements(wallets)) {
+    const { id, tx, asset, quantity, value } = movement;
+    if (!lotsByAsset.has(asset)) lotsByAsset.set(asset, []);
+    const lots = lotsByAsset.get(asset)!;
+
+    if (movement.direction === "in") {
+      const lot: Lot = {
+        id,
+        asset,
+        acquiredAt: tx.timestamp,
+        quantity,
+        remaining: quantity,
+        cost: value ?? 0,
+        priced: value !== null,
+      };
+      lots.push(lot);
+      allLots.push(lot);
+      continue;
+    }
+
+    const record = (take: bigint, lot: Lot | null, cost: number) => {
+      const proceeds =
+        value === null ? 0 : (value * Number(take)) / Number(quantity);
+      realized.push({
+        disposalId: id,
+        chain: tx.chain,
+        hash: tx.hash,
+        asset,
+        quantity: formatUnits(take, QUANTITY_SCALE),
+        acquiredAt: lot?.acquiredAt ?? null,
+        disposedAt: tx.timestamp,
+        lotId: lot?.id ?? null,
+        proceeds: proceeds.toFixed(2),
+        costBasis: cost.toFixed(2),
+        gain: (proceeds - cost).toFixed(2),
+        term:
+          lot && isLongTerm(lot.acquiredAt, tx.timestamp) ? "long" : "short",
+        priced: value !== null,
+        fee: movement.isFee,
+      });
+    };
+
+    let left = quantity;
+    const open = lots.filter((lot) => lot.remaining > BigInt(0));
+    for (const lot of orderLots(open, method, selections[id])) {
+      if (left <= BigInt(0)) break;
+      const take = lot.remaining < left ? lot.remaining : left;
+      const cost = (lot.cost * Number(take)) / Number(lot.remaining);
+      lot.cost -= cost;
+      lot.remaining -= take;
+      left -= take;
+      record(take, lot, cost);
+    }
+    if (left > BigInt(0)) {
+      unmatchedDisposals++;
+      record(left, null, 0);
+    }
+  }
+
+  const positions: OpenPosition[] = [];
+  lotsByAsset.forEach((lots, asset) => {
+    const open = lots.filter((lot) => lot.remaining > BigInt(0));
+    if (open.length === 0) return;
+    const quantity = open.reduce((sum, lot) => sum + lot.remaining, BigInt(0));
+    const cost = open.reduce((sum, lot) => sum + lot.cost, 0);
+    positions.push({
+      asset,
+      quantity: formatUnits(quantity, QUANTITY_SCALE),
+      costBasis: cost.toFixed(2),
+      lots: open.map(toTaxLot),
+    });
+  });
+
+  const priced = realized.filter((gain) => gain.priced);
+  const sum = (gains: RealizedGain[], field: "proceeds" | "costBasis" | "gain") =>
+    gains.reduce((total, gain) => total + parseFloat(gain[field]), 0).toFixed(2);
+  const transactions = wallets.flatMap((w) => w.transactions);
+
+  console.log(
+    `[CostBasis] ${method}: ${realized.length} disposals, ${positions.length} open positions`,
+  );
+  return {
+    method,
+    currency:
+      transactions.find((tx) => tx.fiatCurrency)?.fiatCurrency ||
+      getReportingCurrency(),
+    realized,
+    positions,
+    lots: allLots.map(toTaxLot),
+    proceeds: sum(priced, "proceeds"),
+    costBasis: sum(priced, "costBasis"),
+    shortTermGain: sum(
+      priced.filter((gain) => gain.term === "short"),
+      "gain",
+    ),
+    longTermGain: sum(
+      priced.filter((gain) => gain.term === "long"),
+      "gain",
+    ),
+    unpricedDisposals: new Set(
+      realized.filter((gain) => !gain.priced).map((gain) => gain.disposalId),
+    ).size,
+    unmatchedDisposals,
+  };
+}
+
+/**
+ * Realized P&L per chain+hash, for the P&L column of the trading format
+ */
+export function getPnLByHash(gains: RealizedGain[]): Map<string, number> {
+  const pnl = new Map<string, number>();
+  for (const gain of gains) {
+    if (!gain.priced) continue;
+    const key = `${gain.chain}:${gain.hash}`;
+    pnl.set(key, (pnl.get(key) || 0) + parseFloat(gain.gain));
+  }
+  return pnl;
+}
+
+/**
+ * Standalone gains report, one row per disposal and lot it drew from, with
+ * days in the given zone
+ */
+export function buildGainsRows(
+  report: GainsReport,
+  timeZone: string = getTimeZone(),
+): GainsReportRow[] {
+  const lots = new Map(report.lots.map((lot) => [lot.id, lot]));
+  const day = (date: Date | null) => (date ? formatDay(date, timeZone) : "");
+
+  return report.realized.map((gain) => {
+    const notes: string[] = [];
+    if (gain.fee) notes.push("Fee");
+    if (!gain.lotId) notes.push("No lot left in the history: cost basis 0");
+    if (gain.lotId && !lots.get(gain.lotId)?.priced) {
+      notes.push("Acquired without a fiat value: cost basis 0");
+    }
+    if (!gain.priced) notes.push("No fiat value: excluded from totals");
+
+    return {
+      Asset: gain.asset,
+      Quantity: gain.quantity,
+      "Date Acquired": day(gain.acquiredAt),
+      "Date Sold": day(gain.disposedAt),
+      Proceeds: gain.priced ? gain.proceeds : "",
+      "Cost Basis": gain.costBasis,
+      "Gain/Loss": gain.priced ? gain.gain : "",
+      Term: gain.term,
+      Notes: notes.join("; "),
+      "Transaction Hash": gain.hash,
+    };
+  });
+}
@@ -3,7 +3,31 @@ import {
   AwakenTaxTradingRow,
   ParsedTransaction,
   CSVFormat,
+  ExportOptions,
+  GainsReportRow,
+  RealizedGain,
+  TagMapping,
+  TaxSummaryRow,
+  TransactionOverrides,
 } from "../types";
+import { getPnLByHash } from "./costBasis";
+import { dedupeFees } from "./fees";
+import { getLegDirections } from "./movements";
+import { getIncompleteHistoryNote } from "./fetchMetadata";
+import {
+  applyTransactionEdits,
+  getTag,
+  getTagMapping,
+  getTransactionKey,
+  getTransactionOverrides,
+} from "./labels";
+import { createSelfTransferMatcher } from "./selfTransfers";
+import { getDateParts, getTimeZone } from "./timeZone";
+
+const SELF_TRANSFER_TAG = "self_transfer";
+const SELF_TRANSFER_NOTE = "Self-transfer between own wallets";
+
+type SelfTransferMatcher = ((tx: ParsedTransaction) => boolean) | null;
 
 // Re-export CSVFormat for use in this file
 export type { CSVFormat };
@@ -16,11 +40,49 @@ export function convertToAwakenCSV(
   transactions: ParsedTransaction[],
   walletAddress: string,
   format: CSVFormat = "standard",
+  options: ExportOptions = {},
 ): AwakenTaxRow[] | AwakenTaxTradingRow[] {
-  if (format === "trading") {
-    return convertToTradingFormat(transactions, walletAddress);
+  const isSelfTransfer = createSelfTransferMatcher(
+    [walletAddress, ...(options.ownAddresses || [])],
+    options.selfTransferHashes,
+  );
+  const timeZone = options.timeZone || getTimeZone();
+  const overrides = options.overrides || getTransactionOverrides();
+  // Excluded, edited and split rows as the user left them
+  const edited = applyTransactionEdits(transactions, overrides);
+  // Charge each on-chain fee once, even when several rows share its hash
+  const [deduped] = dedupeFees([{ address: walletAddress, transactions: edited }]);
+  const rows =
+    format === "trading"
+      ? convertToTradingFormat(
+          deduped,
+          walletAddress,
+          isSelfTransfer,
+          timeZone,
+          overrides,
+          options.realizedGains,
+        )
+      : convertToStandardFormat(
+          deduped,
+          walletAddress,
+          isSelfTransfer,
+          timeZone,
+          overrides,
+          options.tagMapping || getTagMapping(),
+        );
+
+  // Flag a truncated history and the zone of the Date column where an
+  // accountant will see them first
+  const incompleteNote = options.fetchMetadata
+    ? getIncompleteHistoryNote(options.fetchMetadata)
+    : "";
+  if (rows.length > 0) {
+    rows[0].Notes = [incompleteNote, `Dates in ${timeZone}`, rows[0].Notes]
+      .filter(Boolean)
+      .join(" | ");
   }
-  return convertToStandardFormat(transactions, walletAddress);
+
+  return rows;
 }
 
 /**
@@ -29,9 +91,14 @@ export function convertToAwakenCSV(
 function convertToStandardFormat(
   transactions: ParsedTransaction[],
   walletAddress: string,
+  isSelfTransfer: SelfTransferMatcher,
+  timeZone: string,
+  overrides: TransactionOverrides,
+  tagMapping: TagMapping,
 ): AwakenTaxRow[] {
   return transactions.map((tx) => {
-    const date = formatDateForAwakenShort(tx.timestamp);
+    const date = formatDateForAwakenShort(tx.timestamp, timeZone);
+    const override = overrides[getTransactionKey(tx)];
 
     let receivedQty = "";
     let receivedCurrency = "";
@@ -44,10 +111,14 @@ function convertToStandardFormat(
     let sentQty2 = "";
     let sentCurrency2 = "";
 
-    if (tx.type === "receive" || tx.type === "claim_rewards") {
+    if (
+      tx.type === "receive" ||
+      tx.type === "claim_rewards" ||
+      tx.type === "undelegate"
+    ) {
       receivedQty = tx.amount;
       receivedCurrency = tx.currency;
-      receivedFiatAmount = tx.fiatAmount || "";
+      receivedFiatAmount = sumFiat(tx.fiatAmount, tx.fiatAmount2);
       // Handle secondary token for multi-asset receives (e.g., LP tokens)
       if (tx.amount2 && tx.currency2) {
         receivedQty2 = tx.amount2;
@@ -56,7 +127,7 @@ function convertToStandardFormat(
     } else if (tx.type === "send" || tx.type === "delegate") {
       sentQty = tx.amount;
       sentCurrency = tx.currency;
-      sentFiatAmount = tx.fiatAmount || "";
+      sentFiatAmount = sumFiat(tx.fiatAmount, tx.fiatAmount2);
       // Handle secondary token for multi-asset sends
       if (tx.amount2 && tx.currency2) {
         sentQty2 = tx.amount2;
@@ -70,6 +141,38 @@ function convertToStandardFormat(
       if (tx.amount2 && tx.currency2) {
         receivedQty = tx.amount2;
         receivedCurrency = tx.currency2;
+        receivedFiatAmount = tx.fiatAmount2 || "";
+      }
+    } else if (tx.type === "pool_deposit" || tx.type === "pool_withdraw") {
+      // Like a swap, except that a pool change can send or receive both legs
+      const [direction, direction2] = getLegDirections(tx);
+      if (direction === "out") {
+        sentQty = tx.amount;
+        sentCurrency = tx.currency;
+        sentFiatAmount = tx.fiatAmount || "";
+      } else {
+        receivedQty = tx.amount;
+        receivedCurrency = tx.currency;
+        receivedFiatAmount = tx.fiatAmount || "";
+      }
+      if (tx.amount2 && tx.currency2) {
+        if (direction2 === "in" && !receivedQty) {
+          receivedQty = tx.amount2;
+          receivedCurrency = tx.currency2;
+          receivedFiatAmount = tx.fiatAmount2 || "";
+        } else if (direction2 === "in") {
+          receivedQty2 = tx.amount2;
+          receivedCurrency2 = tx.currency2;
+          receivedFiatAmount = sumFiat(receivedFiatAmount, tx.fiatAmount2);
+        } else if (!sentQty) {
+          sentQty = tx.amount2;
+          sentCurrency = tx.currency2;
+          sentFiatAmount = tx.fiatAmount2 || "";
+        } else {
+          sentQty2 = tx.amount2;
+          sentCurrency2 = tx.currency2;
+          sentFiatAmount = sumFiat(sentFiatAmount, tx.fiatAmount2);
+        }
       }
     } else if (tx.type === "ibc_transfer") {
       // Determine direction based on from/to
@@ -84,23 +187,12 @@ function convertToStandardFormat(
       }
     }
 
-    // Build tag based on transaction type
-    const tagMap: Record<string, string> = {
-      send: "transfer",
-      receive: "transfer",
-      swap: "trade",
-      ibc_transfer: "transfer",
-      delegate: "staking",
-      undelegate: "staking",
-      claim_rewards: "staking",
-      pool_deposit: "liquidity",
-      pool_withdraw: "liquidity",
-      governance_vote: "governance",
-      unknown: "",
-    };
-
     // Build comprehensive notes for cost basis tracking
-    let notes = tx.memo || `${tx.type}`;
+    const selfTransfer = isSelfTransfer?.(tx) ?? false;
+    let notes = override?.notes || tx.memo || `${tx.type}`;
+    if (selfTransfer) {
+      notes = `${SELF_TRANSFER_NOTE}: ${notes}`;
+    }
     
     // Always include full transaction hash for matching
     if (!notes.includes(tx.hash)) {
@@ -114,6 +206,11 @@ function convertToStandardFormat(
       notes = `${notes} (${shortFrom}... -> ${shortTo}...)`;
     }
 
+    // The template has no fiat column for fees
+    if (tx.fee && tx.feeFiatAmount) {
+      notes = `${notes} (Fee: ${tx.feeFiatAmount} ${tx.fiatCurrency || "USD"})`;
+    }
+
     return {
       Date: date,
       "Received Quantity": receivedQty,
@@ -129,20 +226,29 @@ function convertToStandardFormat(
       "Fee Amount": tx.fee,
       "Fee Currency": tx.feeCurrency,
       Notes: notes,
-      Tag: tagMap[tx.type] || "",
+      // An edited tag wins over the self-transfer tag and the mapping
+      Tag:
+        override?.tag ??
+        (selfTransfer ? SELF_TRANSFER_TAG : getTag(tx, tagMapping)),
     };
   });
 }
 
 /**
  * Convert to trading/perpetuals format
+ * Realized gains fill the P&L column, on the first row of each hash
  */
 function convertToTradingFormat(
   transactions: ParsedTransaction[],
   walletAddress: string,
+  isSelfTransfer: SelfTransferMatcher,
+  timeZone: string,
+  overrides: TransactionOverrides,
+  realizedGains: RealizedGain[] = [],
 ): AwakenTaxTradingRow[] {
+  const pnlByHash = getPnLByHash(realizedGains);
   return transactions.map((tx, index) => {
-    const date = formatDateForTrading(tx.timestamp);
+    const date = formatDateForTrading(tx.timestamp, timeZone);
     const isSend = tx.type === "send" || tx.type === "delegate";
     const amount = isSend ? `-${tx.amount}` : tx.amount;
 
@@ -151,49 +257,72 @@ function convertToTradingFormat(
       receive: "open_position",
       swap: "close_position",
       delegate: "close_position",
+      // Staked coins coming back, e.g. NEAR a staking pool pays out
+      undelegate: "open_position",
       claim_rewards: "open_position",
       ibc_transfer: "transfer",
     };
 
+    const override = overrides[getTransactionKey(tx)];
+    const selfTransfer = isSelfTransfer?.(tx) ?? false;
+    const description = override?.notes || tx.memo || `${tx.type} transaction`;
+    const hashKey = `${tx.chain}:${tx.hash}`;
+    const pnl = pnlByHash.get(hashKey);
+    pnlByHash.delete(hashKey);
+
     return {
       Date: date,
       Asset: tx.currency || "UNKNOWN",
       Amount: amount,
       Fee: tx.fee,
-      "P&L": "",
+      "P&L": pnl === undefined ? "" : pnl.toFixed(2),
       "Payment Token": tx.feeCurrency || "",
       ID: `TXN${String(index + 1).padStart(3, "0")}`,
-      Notes: tx.memo || `${tx.type} transaction`,
-      Tag: tagMap[tx.type] || "other",
+      Notes: selfTransfer
+        ? `${SELF_TRANSFER_NOTE}: ${description}`
+        : description,
+      Tag:
+        override?.tag ??
+        (selfTransfer ? SELF_TRANSFER_TAG : tagMap[tx.type] || "other"),
       "Transaction Hash": tx.hash,
     };
   });
 }
 
 /**
- * Format date as required by Awaken Tax short format: M/D/YY H:MM
+ * Fiat value of one side of a row: its legs added up, or "" if unpriced
  */
-function formatDateForAwakenShort(date: Date): string {
-  const utcDate = new Date(date.toISOString());
+function sumFiat(fiat: string | undefined, fiat2: string | undefined): string {
+  if (!fiat) return "";
+  if (!fiat2) return fiat;
+  return (parseFloat(fiat) + parseFloat(fiat2)).toFixed(2);
+}
+
+/**
+ * Format date as required by Awaken Tax short format: M/D/YY H:MM, as
+ * wall-clock time in the given zone
+ */
+function formatDateForAwakenShort(date: Date, timeZone: string): string {
+  const parts = getDateParts(date, timeZone);
 
-  const month = utcDate.getUTCMonth() + 1;
-  const day = utcDate.getUTCDate();
-  const year = String(utcDate.getUTCFullYear()).slice(-2);
-  const hours = utcDate.getUTCHours();
-  const minutes = String(utcDate.getUTCMinutes()).padStart(2, "0");
+  const month = parts.month;
+  const day = parts.day;
+  const year = String(parts.year).slice(-2);
+  const hours = parts.hour;
+  const minutes = String(parts.minute).padStart(2, "0");
 
   return `${month}/${day}/${year} ${hours}:${minutes}`;
 }
 
 /**
- * Format date for trading format: YYYY-MM-DD
+ * Format date for trading format: YYYY-MM-DD in the given zone
  */
-function formatDateForTrading(date: Date): string {
-  const utcDate = new Date(date.toISOString());
+function formatDateForTrading(date: Date, timeZone: string): string {
+  const parts = getDateParts(date, timeZone);
 
-  const year = utcDate.getUTCFullYear();
-  const month = String(utcDate.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(utcDate.getUTCDate()).padStart(2, "0");
+  const year = parts.year;
+  const month = String(parts.month).padStart(2, "0");
+  const day = String(parts.day).padStart(2, "0");
 
   return `${year}-${month}-${day}`;
 }
@@ -202,7 +331,12 @@ function formatDateForTrading(date: Date): string {
  * Generate CSV content from row array
  */
 export function generateCSVContent(
-  rows: (AwakenTaxRow | AwakenTaxTradingRow)[],
+  rows: (
+    | AwakenTaxRow
+    | AwakenTaxTradingRow
+    | GainsReportRow
+    | TaxSummaryRow
+  )[],
 ): string {
   if (rows.length === 0) {
     return "";
@@ -233,11 +367,20 @@ export function generateCSVContent(
  * Download CSV file in browser
  */
 export function downloadCSV(csvContent: string, filename: string): void {
+  downloadBlob(
+    new Blob([csvContent], { type: "text/csv;charset=utf-8;" }),
+    filename,
+  );
+}
+
+/**
+ * Trigger browser download of any file, e.g. a zip of CSV exports
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
   if (typeof window === "undefined") {
     return;
   }
 
-  const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
   const link = document.createElement("a");
 
   const url = URL.createObjectURL(blob);
@@ -258,9 +401,11 @@ export function downloadCSV(csvContent: string, filename: string): void {
 export function generateFilename(
   walletAddress: string,
   format: CSVFormat = "standard",
+  incomplete = false,
 ): string {
   const date = new Date().toISOString().split("T")[0];
   const shortAddress = walletAddress.slice(0, 8);
   const formatSuffix = format === "trading" ? "-trading" : "";
-  return `awaken-${shortAddress}${formatSuffix}-${date}.csv`;
+  const incompleteSuffix = incomplete ? "-INCOMPLETE" : "";
+  return `awaken-${shortAddress}${formatSuffix}${incompleteSuffix}-${date}.csv`;
 }
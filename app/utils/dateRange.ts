@@ -0,0 +1,64 @@
+// Date-range filtering
+// The from/to dates of the form are whole days in the timezone setting,
+// matching the Date column of the export. The range is pushed into API
+// queries where the API can filter by time and applied again to the parsed
+// rows before they are shown or exported.
+
+import { DateRange } from "../types";
+import { getDayStart } from "./timeZone";
+
+function nextDay(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Range of two YYYY-MM-DD inputs in a zone, either may be empty; the to day
+ * is included. Returns undefined when neither is set
+ */
+export function parseDateRange(
+  from: string,
+  to: string,
+  timeZone: string,
+): DateRange | undefined {
+  const start = (day: string) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return undefined;
+    const date = getDayStart(day, timeZone);
+    return isNaN(date.getTime()) ? undefined : date;
+  };
+  const range: DateRange = {
+    from: start(from),
+    to: to ? start(nextDay(to)) : undefined,
+  };
+  return range.from || range.to ? range : undefined;
+}
+
+export function isInDateRange(date: Date, range?: DateRange): boolean {
+  if (!range) return true;
+  const time = new Date(date).getTime();
+  if (range.from && time < range.from.getTime()) return false;
+  if (range.to && time >= range.to.getTime()) return false;
+  return true;
+}
+
+/**
+ * Rows inside the range; the same array when there is no range
+ */
+export function filterByDateRange<T extends { timestamp: Date }>(
+  items: T[],
+  range?: DateRange,
+): T[] {
+  if (!range) return items;
+  return items.filter((item) => isInDateRange(item.timestamp, range));
+}
+
+/**
+ * Unix seconds of the range bounds, for APIs that filter by timestamp
+ */
+export function toUnixRange(range: DateRange): { from?: number; to?: number } {
+  return {
+    from: range.from ? Math.floor(range.from.getTime() / 1000) : undefined,
+    to: range.to ? Math.floor(range.to.getTime() / 1000) : undefined,
+  };
+}
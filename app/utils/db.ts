@@ -0,0 +1,122 @@
+// Minimal promise wrapper around the browser's IndexedDB
+// All persisted fetch state (checkpoints, cached transactions) lives in one
+// database; bump DB_VERSION and extend upgradeDatabase() to add a store.
+
+const DB_NAME = "awaken-tax-export";
+const DB_VERSION = 5;
+
+export const STORES = {
+  checkpoints: "checkpoints", // One record per chain+address being fetched
+  checkpointPages: "checkpointPages", // Raw items per page, keyed [checkpoint, source, seq]
+  wallets: "wallets", // Cached raw + parsed history per chain+address+adapter version
+  walletSummaries: "walletSummaries", // Small listing record for each cached wallet
+  prices: "prices", // USD daily close per asset, keyed [asset, date]
+  fxRates: "fxRates", // Units of a fiat currency per USD, keyed [currency, date]
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgradeDatabase(db: IDBDatabase): void {
+  for (const name of Object.values(STORES)) {
+    if (!db.objectStoreNames.contains(name)) {
+      db.createObjectStore(name);
+    }
+  }
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined";
+}
+
+/**
+ * Open (and upgrade if needed) the shared database, reusing one connection
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgradeDatabase(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run fn inside one transaction over the given stores and resolve once the
+ * transaction has committed
+ */
+export async function withTransaction<T>(
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // A failed request aborts the transaction too, so both are awaited
+  // together and done never rejects unhandled
+  const [result] = await Promise.all([fn(tx), done]);
+  return result;
+}
+
+export async function idbGet<T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+): Promise<T | undefined> {
+  return withTransaction([storeName], "readonly", (tx) =>
+    requestToPromise<T | undefined>(tx.objectStore(storeName).get(key)),
+  );
+}
+
+export async function idbPut<T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  value: T,
+): Promise<void> {
+  await withTransaction([storeName], "readwrite", (tx) =>
+    requestToPromise(tx.objectStore(storeName).put(value, key)),
+  );
+}
+
+export async function idbDelete(
+  storeName: StoreName,
+  key: IDBValidKey | IDBKeyRange,
+): Promise<void> {
+  await withTransaction([storeName], "readwrite", (tx) =>
+    requestToPromise(tx.objectStore(storeName).delete(key)),
+  );
+}
+
+/**
+ * Range covering every array key that starts with prefix, e.g. all
+ * [checkpointKey, source, seq] keys of one checkpoint
+ */
+export function prefixRange(prefix: IDBValidKey[]): IDBKeyRange {
+  // An empty array sorts after every string and number key component
+  return IDBKeyRange.bound(prefix, [...prefix, []]);
+}
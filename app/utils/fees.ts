@@ -0,0 +1,139 @@
+// Fee de-duplication
+// One on-chain transaction can become several parsed rows (a Celo call next to
+// its token transfers, one row per wallet of a portfolio transfer), and every
+// row used to carry the full gas fee. The export keeps each fee on exactly one
+// row per chain+hash; the verification report checks the exported totals
+// against an independent per-hash sum.
+
+import {
+  AwakenTaxRow,
+  ChainId,
+  FeeReportEntry,
+  ParsedTransaction,
+} from "../types";
+import { normalizeAddress } from "./selfTransfers";
+import { formatUnits, isDecimalAmount, parseUnits } from "./units";
+
+// Fees are summed as integers with this many decimals so totals stay exact
+// (NEAR has the most, 24)
+const FEE_SCALE = 24;
+
+function feeKey(tx: ParsedTransaction): string {
+  return `${tx.chain}:${tx.hash}`;
+}
+
+// Fees that are not decimal amounts (e.g. a mistyped edit) are skipped
+function hasFee(fee: string | undefined): boolean {
+  return !!fee && isDecimalAmount(fee) && parseUnits(fee, FEE_SCALE) !== BigInt(0);
+}
+
+/**
+ * Whether the wallets paid a row's fee: it was sent from one of them, added
+ * by hand, or has no sender because the wallet signed it but only received;
+ * a receiver's row can carry the fee its sender paid
+ */
+function isOwnFee(tx: ParsedTransaction, owned: Set<string>): boolean {
+  return (
+    hasFee(tx.fee) &&
+    (!!tx.manual || !tx.from || owned.has(normalizeAddress(tx.from)))
+  );
+}
+
+/**
+ * Clear the fee on every row but one for each chain+hash, across all wallets,
+ * and on rows whose fee none of the wallets paid
+ * The row kept is the first one in the wallet that paid the fee (the sender),
+ * else the first row seen
+ */
+export function dedupeFees(
+  wallets: Array<{ address: string; transactions: ParsedTransaction[] }>,
+): ParsedTransaction[][] {
+  const keepers = new Map<string, { wallet: number; row: number; paid: boolean }>();
+  const owned = new Set(wallets.map((w) => normalizeAddress(w.address)));
+
+  wallets.forEach((wallet, walletIndex) => {
+    const own = normalizeAddress(wallet.address);
+    wallet.transactions.forEach((tx, rowIndex) => {
+      if (!isOwnFee(tx, owned)) return;
+      const key = feeKey(tx);
+      const current = keepers.get(key);
+      const paid = normalizeAddress(tx.from) === own;
+      if (!current || (paid && !current.paid)) {
+        keepers.set(key, { wallet: walletIndex, row: rowIndex, paid });
+      }
+    });
+  });
+
+  let cleared = 0;
+  const result = wallets.map((wallet, walletIndex) =>
+    wallet.transactions.map((tx, rowIndex) => {
+      if (!hasFee(tx.fee)) return tx;
+      const keeper = keepers.get(feeKey(tx));
+      if (keeper?.wallet === walletIndex && keeper.row === rowIndex) return tx;
+      cleared++;
+      return { ...tx, fee: "" };
+    }),
+  );
+
+  if (cleared > 0) {
+    console.log(`[Fees] Removed ${cleared} duplicate or unpaid fees`);
+  }
+  return result;
+}
+
+/**
+ * Total fees per chain and fee currency of an export, next to the sum of one
+ * fee per hash the wallets paid, computed from the parsed transactions
+ * rows[i] must be the standard-format row exported for transactions[i]
+ */
+export function buildFeeReport(
+  transactions: ParsedTransaction[],
+  rows: AwakenTaxRow[],
+  walletAddresses: string[],
+): FeeReportEntry[] {
+  const owned = new Set(walletAddresses.map(normalizeAddress));
+  const entries = new Map<
+    string,
+    { chain: ChainId; currency: string; exported: bigint; perHash: Map<string, bigint> }
+  >();
+  const getEntry = (chain: ChainId, currency: string) => {
+    const key = `${chain}:${currency}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { chain, currency, exported: BigInt(0), perHash: new Map() };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  // Independent sum: the largest fee seen on any row of a hash, counted once
+  transactions.forEach((tx) => {
+    if (!isOwnFee(tx, owned)) return;
+    const entry = getEntry(tx.chain, tx.feeCurrency);
+    const fee = parseUnits(tx.fee, FEE_SCALE);
+    const seen = entry.perHash.get(tx.hash);
+    if (seen === undefined || fee > seen) entry.perHash.set(tx.hash, fee);
+  });
+
+  rows.forEach((row, i) => {
+    const tx = transactions[i];
+    if (!tx || !hasFee(row["Fee Amount"])) return;
+    const entry = getEntry(tx.chain, row["Fee Currency"]);
+    entry.exported += parseUnits(row["Fee Amount"], FEE_SCALE);
+  });
+
+  return Array.from(entries.values()).map((entry) => {
+    const expected = Array.from(entry.perHash.values()).reduce(
+      (sum, fee) => sum + fee,
+      BigInt(0),
+    );
+    return {
+      chain: entry.chain,
+      currency: entry.currency,
+      transactionCount: entry.perHash.size,
+      exportedTotal: formatUnits(entry.exported, FEE_SCALE),
+      expectedTotal: formatUnits(expected, FEE_SCALE),
+      matches: entry.exported === expected,
+    };
+  });
+}
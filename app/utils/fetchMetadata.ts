@@ -0,0 +1,220 @@
+import {
+  ChainId,
+  DateRange,
+  FetchCursor,
+  FetchMetadata,
+  SourceCursor,
+  SourceFetchStats,
+  SyncCursor,
+  TruncationReason,
+} from "../types";
+
+type DatedTransaction = { timestamp: string | Date; height?: string | number };
+
+/**
+ * Create an empty stats record for one paginated source
+ */
+export function createSourceStats(source: string, label: string): SourceFetchStats {
+  return {
+    source,
+    label,
+    count: 0,
+    pagesFetched: 0,
+    truncated: false,
+  };
+}
+
+/**
+ * Mark a source as cut short, recording why and where to resume
+ */
+export function markTruncated(
+  stats: SourceFetchStats,
+  reason: TruncationReason,
+  nextCursor: SourceCursor,
+  error?: string,
+): void {
+  stats.truncated = true;
+  stats.truncationReason = reason;
+  stats.nextCursor = nextCursor;
+  if (error) {
+    stats.error = error;
+  }
+}
+
+/**
+ * Human readable explanation of a truncated source
+ */
+function describeTruncation(source: SourceFetchStats): string {
+  if (source.truncationReason === "page_limit") {
+    return `${source.label}: stopped at the ${source.pagesFetched}-page safety limit, the rest of the history was not fetched`;
+  }
+  return `${source.label}: stopped after ${source.pagesFetched} pages because of an error (${source.error || "unknown error"}), the rest of the history was not fetched`;
+}
+
+/**
+ * Earliest and latest transaction dates, or undefined for an empty list
+ */
+function getDateRange(transactions: DatedTransaction[]): {
+  firstTransactionDate?: string;
+  lastTransactionDate?: string;
+} {
+  const times = transactions
+    .map((tx) => new Date(tx.timestamp).getTime())
+    .filter((t) => !isNaN(t));
+  if (times.length === 0) return {};
+  return {
+    firstTransactionDate: new Date(Math.min(...times)).toISOString(),
+    lastTransactionDate: new Date(Math.max(...times)).toISOString(),
+  };
+}
+
+/**
+ * Highest block and timestamp among the transactions, or undefined when none
+ * of them carries a block height
+ */
+export function getSyncCursor(
+  transactions: DatedTransaction[],
+): SyncCursor | undefined {
+  let block = 0;
+  let time = 0;
+  for (const tx of transactions) {
+    const height = Number(tx.height);
+    if (!isNaN(height) && height > block) block = height;
+    const t = new Date(tx.timestamp).getTime();
+    if (!isNaN(t) && t > time) time = t;
+  }
+  if (block === 0) return undefined;
+  return { block: String(block), timestamp: new Date(time).toISOString() };
+}
+
+/**
+ * Build the typed metadata returned by every adapter fetch
+ * Derives totals, date range, truncation and warnings from the per-source stats
+ */
+export function buildFetchMetadata(params: {
+  address: string;
+  chain: ChainId;
+  dataSource: string;
+  startedAt: Date;
+  sources: SourceFetchStats[];
+  transactions: DatedTransaction[];
+  warnings?: string[];
+  since?: SyncCursor;
+  dateRange?: DateRange;
+}): FetchMetadata {
+  const { address, chain, dataSource, startedAt, sources, transactions, since } =
+    params;
+  const { dateRange } = params;
+  const completedAt = new Date();
+
+  const warnings = [...(params.warnings || [])];
+  for (const source of sources) {
+    if (source.truncated) {
+      warnings.push(describeTruncation(source));
+    } else if (source.error) {
+      warnings.push(`${source.label}: ${source.error}`);
+    }
+  }
+
+  return {
+    address,
+    chain,
+    dataSource,
+    totalFetched: transactions.length,
+    pagesFetched: sources.reduce((sum, s) => sum + s.pagesFetched, 0),
+    sources,
+    truncated: sources.some((s) => s.truncated),
+    warnings,
+    ...getDateRange(transactions),
+    timings: {
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    },
+    since,
+    dateRange,
+    // Nothing new since the cursor leaves the high-water mark where it was;
+    // a date-range fetch is not the full history and gets no cursor
+    syncCursor: dateRange ? undefined : (getSyncCursor(transactions) ?? since),
+  };
+}
+
+/**
+ * Collect the resume cursors of all truncated sources
+ * Returns null when the fetch is complete and there is nothing to resume
+ */
+export function getResumeCursor(metadata: FetchMetadata): FetchCursor | null {
+  const cursor: FetchCursor = {};
+  for (const source of metadata.sources) {
+    if (source.truncated && source.nextCursor) {
+      cursor[source.source] = source.nextCursor;
+    }
+  }
+  return Object.keys(cursor).length > 0 ? cursor : null;
+}
+
+/**
+ * Combine the metadata of a resumed fetch with the fetch it continued
+ * Resumed sources add their counts and pages and replace the truncation state
+ */
+export function mergeResumedMetadata(
+  previous: FetchMetadata,
+  resumed: FetchMetadata,
+  transactions: DatedTransaction[],
+): FetchMetadata {
+  const resumedBySource = new Map(resumed.sources.map((s) => [s.source, s]));
+
+  const sources = previous.sources.map((prev) => {
+    const next = resumedBySource.get(prev.source);
+    if (!next) return prev;
+    return {
+      ...next,
+      count: prev.count + next.count,
+      pagesFetched: prev.pagesFetched + next.pagesFetched,
+    };
+  });
+
+  const merged = buildFetchMetadata({
+    address: previous.address,
+    chain: previous.chain,
+    dataSource: previous.dataSource,
+    startedAt: new Date(previous.timings.startedAt),
+    sources,
+    transactions,
+    since: previous.since,
+    dateRange: previous.dateRange,
+  });
+  merged.timings.durationMs =
+    previous.timings.durationMs + resumed.timings.durationMs;
+  return merged;
+}
+
+/**
+ * Describe an incremental fetch merged into the stored history of the wallet
+ * Totals, date range and sync cursor cover the merged set; sources and
+ * warnings stay those of the incremental fetch
+ */
+export function mergeSyncedMetadata(
+  metadata: FetchMetadata,
+  transactions: DatedTransaction[],
+  newTransactions: number,
+): FetchMetadata {
+  return {
+    ...metadata,
+    totalFetched: transactions.length,
+    ...getDateRange(transactions),
+    syncCursor: getSyncCursor(transactions) ?? metadata.syncCursor,
+    newTransactions,
+  };
+}
+
+/**
+ * Short note for exports of a truncated fetch, or "" when complete
+ */
+export function getIncompleteHistoryNote(metadata: FetchMetadata): string {
+  if (!metadata.truncated) return "";
+  const labels = metadata.sources
+    .filter((s) => s.truncated)
+    .map((s) => s.label);
+  return `INCOMPLETE HISTORY: not all transactions were fetched (${labels.join(", ")})`;
+}
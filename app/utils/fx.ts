@@ -0,0 +1,187 @@
+// Reporting currency and FX rates
+// Prices are looked up in USD; the pricing pass converts them to the
+// reporting currency with daily rates from a local table imported from CSV.
+// The currency setting is kept in localStorage like the API keys.
+
+import { FiatCurrency, FxRate } from "../types";
+import {
+  STORES,
+  isIndexedDBAvailable,
+  requestToPromise,
+  withTransaction,
+} from "./db";
+import { splitCSVLine, toPriceDate } from "./priceTable";
+
+const STORAGE_KEY = "reporting-currency";
+
+export const FIAT_CURRENCIES: FiatCurrency[] = [
+  "USD",
+  "EUR",
+  "GBP",
+  "CHF",
+  "CAD",
+  "AUD",
+  "JPY",
+];
+
+// A missing day (weekend, holiday) falls back to the last rate before it
+const MAX_RATE_AGE_DAYS = 7;
+
+export interface FxTableSummary {
+  count: number;
+  currencies: FiatCurrency[];
+}
+
+function isFiatCurrency(value: string): value is FiatCurrency {
+  return (FIAT_CURRENCIES as string[]).includes(value);
+}
+
+/**
+ * Currency of the fiat columns, USD unless the user picked another
+ */
+export function getReportingCurrency(): FiatCurrency {
+  if (typeof window === "undefined") return "USD";
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && isFiatCurrency(stored) ? stored : "USD";
+  } catch (e) {
+    console.error("[FX] Error reading reporting currency:", e);
+    return "USD";
+  }
+}
+
+export function saveReportingCurrency(currency: FiatCurrency): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, currency);
+  } catch (e) {
+    console.error("[FX] Error saving reporting currency:", e);
+  }
+}
+
+function previousDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Rate of currency per USD for each date that has one, looking back up to a
+ * week for days without a rate; USD always converts 1:1
+ */
+export async function getFxRates(
+  currency: FiatCurrency,
+  dates: string[],
+): Promise<Map<string, number>> {
+  const rates = new Map<string, number>();
+  if (currency === "USD") {
+    dates.forEach((date) => rates.set(date, 1));
+    return rates;
+  }
+  if (!isIndexedDBAvailable() || dates.length === 0) return rates;
+
+  try {
+    await withTransaction([STORES.fxRates], "readonly", async (tx) => {
+      const store = tx.objectStore(STORES.fxRates);
+      for (const date of new Set(dates)) {
+        let day = date;
+        for (let age = 0; age <= MAX_RATE_AGE_DAYS; age++) {
+          const rate = await requestToPromise<FxRate | undefined>(
+            store.get([currency, day]),
+          );
+          if (rate) {
+            rates.set(date, rate.rate);
+            break;
+          }
+          day = previousDay(day);
+        }
+      }
+    });
+  } catch (e) {
+    console.error(`[FX] Error reading ${currency} rates:`, e);
+  }
+  return rates;
+}
+
+/**
+ * Import daily rates from CSV with a header naming the columns date,
+ * currency and rate (units of currency per 1 USD), e.g.
+ *   date,currency,rate
+ *   2024-01-31,EUR,0.9248
+ */
+export async function importFxCSV(
+  content: string,
+): Promise<{ imported: number; skipped: number }> {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return { imported: 0, skipped: 0 };
+
+  const header = splitCSVLine(lines[0]).map((h) => h.toLowerCase());
+  const dateCol = header.indexOf("date");
+  const currencyCol = header.indexOf("currency");
+  const rateCol = header.indexOf("rate");
+  if (dateCol < 0 || currencyCol < 0 || rateCol < 0) {
+    throw new Error("FX CSV needs a header with date, currency and rate columns");
+  }
+
+  const rates: FxRate[] = [];
+  let skipped = 0;
+  for (const line of lines.slice(1)) {
+    const fields = splitCSVLine(line);
+    const date = toPriceDate(fields[dateCol] || "");
+    const currency = (fields[currencyCol] || "").toUpperCase();
+    const rate = parseFloat(fields[rateCol] || "");
+    if (!date || !isFiatCurrency(currency) || isNaN(rate) || rate <= 0) {
+      skipped++;
+      continue;
+    }
+    rates.push({ currency, date, rate });
+  }
+
+  if (rates.length > 0 && isIndexedDBAvailable()) {
+    await withTransaction([STORES.fxRates], "readwrite", async (tx) => {
+      const store = tx.objectStore(STORES.fxRates);
+      for (const rate of rates) {
+        store.put(rate, [rate.currency, rate.date]);
+      }
+    });
+  }
+  console.log(`[FX] Imported ${rates.length} rates, skipped ${skipped} lines`);
+  return { imported: rates.length, skipped };
+}
+
+/**
+ * Number of stored rates and the currencies they cover
+ */
+export async function getFxTableSummary(): Promise<FxTableSummary> {
+  if (!isIndexedDBAvailable()) return { count: 0, currencies: [] };
+
+  try {
+    const rates = await withTransaction([STORES.fxRates], "readonly", (tx) =>
+      requestToPromise<FxRate[]>(tx.objectStore(STORES.fxRates).getAll()),
+    );
+    return {
+      count: rates.length,
+      currencies: Array.from(new Set(rates.map((r) => r.currency))),
+    };
+  } catch (e) {
+    console.error("[FX] Error reading FX table:", e);
+    return { count: 0, currencies: [] };
+  }
+}
+
+/**
+ * Remove every stored FX rate
+ */
+export async function clearFxRates(): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await withTransaction([STORES.fxRates], "readwrite", (tx) =>
+      requestToPromise(tx.objectStore(STORES.fxRates).clear()),
+    );
+  } catch (e) {
+    console.error("[FX] Error clearing FX table:", e);
+  }
+}
@@ -0,0 +1,180 @@
+// IBC denom traces
+// Cosmos chains name an asset that arrived over IBC "ibc/<hash>". Its trace
+// (channel path and base denom) comes from the bundled asset list
+// (config/ibcAssets.ts), else from the chain's denom_traces endpoint, with
+// symbol and decimals from the chain's bank denom metadata; traces fetched
+// once are kept in localStorage and shared by every Cosmos adapter. Decimals
+// are never guessed: a denom no source has them for keeps its raw amount.
+// Parsing is synchronous, so adapters resolve the denoms of a fetch before
+// returning it.
+
+import { ChainId, IbcDenomTrace } from "../types";
+import { CHAIN_CONFIGS } from "../config/chains";
+import { IBC_ASSETS } from "../config/ibcAssets";
+
+const STORAGE_KEY = "ibc-denom-traces-v2";
+// Held decimals guessed from denom names
+const LEGACY_STORAGE_KEY = "ibc-denom-traces";
+
+const IBC_DENOM = /ibc\/[0-9A-F]{64}/gi;
+
+// Traces fetched so far, by chain and hash
+let cache: Record<string, IbcDenomTrace> | null = null;
+
+function getCache(): Record<string, IbcDenomTrace> {
+  if (cache) return cache;
+  cache = {};
+  if (typeof window === "undefined") return cache;
+
+  try {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) cache = JSON.parse(stored) as Record<string, IbcDenomTrace>;
+  } catch (e) {
+    console.error("[IBC] Error reading denom traces:", e);
+  }
+  return cache;
+}
+
+function saveCache(): void {
+  if (typeof window === "undefined" || !cache) return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    console.error("[IBC] Error saving denom traces:", e);
+  }
+}
+
+function getHash(denom: string): string {
+  return denom.slice(4).toUpperCase();
+}
+
+/**
+ * Trace of an "ibc/<hash>" denom on a chain, if the asset list or an earlier
+ * lookup has it
+ */
+export function getIbcDenom(
+  chain: ChainId,
+  denom: string,
+): IbcDenomTrace | undefined {
+  if (!denom.startsWith("ibc/")) return undefined;
+  const hash = getHash(denom);
+  return IBC_ASSETS[chain]?.[hash] || getCache()[`${chain}:${hash}`];
+}
+
+/**
+ * Whether a denom is an IBC asset of the bundled asset list, whose symbol
+ * names the asset it really is
+ */
+export function isListedIbcDenom(chain: ChainId, denom: string): boolean {
+  return denom.startsWith("ibc/") && !!IBC_ASSETS[chain]?.[getHash(denom)];
+}
+
+/**
+ * Whether a denom is an IBC denom whose decimals are unknown, so its amount
+ * is kept raw
+ */
+export function isUnresolvedIbcDenom(chain: ChainId, denom: string): boolean {
+  return (
+    denom.startsWith("ibc/") && getIbcDenom(chain, denom)?.decimals === undefined
+  );
+}
+
+/**
+ * Symbol and decimals of a denom from the chain's bank metadata, at the
+ * exponent of its display unit
+ */
+async function fetchDenomMetadata(
+  endpoint: string,
+  denom: string,
+): Promise<{ symbol: string; decimals: number } | null> {
+  try {
+    const response = await fetch(
+      `${endpoint}/cosmos/bank/v1beta1/denoms_metadata_by_query_string?denom=${encodeURIComponent(denom)}`,
+      { headers: { Accept: "application/json" } },
+    );
+    if (!response.ok) return null;
+    const data = await response.json();
+    const metadata = data.metadata;
+    const units: Array<{ denom: string; exponent?: number }> =
+      metadata?.denom_units || [];
+    const display = units.find((u) => u.denom === metadata?.display);
+    if (!display) return null;
+    return {
+      symbol: metadata.symbol || display.denom.toUpperCase(),
+      decimals: display.exponent || 0,
+    };
+  } catch (e) {
+    console.error(`[IBC] Error reading metadata of ${denom} at ${endpoint}:`, e);
+    return null;
+  }
+}
+
+async function fetchDenomTrace(
+  chain: ChainId,
+  hash: string,
+): Promise<IbcDenomTrace | null> {
+  for (const endpoint of CHAIN_CONFIGS[chain]?.apiEndpoints || []) {
+    try {
+      const response = await fetch(
+        `${endpoint}/ibc/apps/transfer/v1/denom_traces/${hash}`,
+        { headers: { Accept: "application/json" } },
+      );
+      if (!response.ok) continue;
+      const data = await response.json();
+      const trace = data.denom_trace;
+      if (!trace?.base_denom) continue;
+
+      const metadata = await fetchDenomMetadata(endpoint, `ibc/${hash}`);
+      return {
+        path: trace.path || "",
+        baseDenom: trace.base_denom,
+        symbol: metadata?.symbol || trace.base_denom,
+        decimals: metadata?.decimals,
+      };
+    } catch (e) {
+      console.error(`[IBC] Error resolving ${hash} at ${endpoint}:`, e);
+    }
+  }
+  return null;
+}
+
+/**
+ * Every "ibc/<hash>" denom that appears in raw transactions
+ */
+export function findIbcDenoms(raw: unknown[]): string[] {
+  const found = new Set<string>();
+  for (const tx of raw) {
+    for (const match of JSON.stringify(tx).match(IBC_DENOM) || []) {
+      found.add(`ibc/${getHash(match)}`);
+    }
+  }
+  return Array.from(found);
+}
+
+/**
+ * Look up the traces of the IBC denoms in a fetch that are not known yet, so
+ * parsing can name them; denoms no endpoint resolves keep their hash, and
+ * those still without decimals are looked up again on the next fetch
+ */
+export async function resolveIbcDenoms(
+  chain: ChainId,
+  raw: unknown[],
+): Promise<void> {
+  const missing = findIbcDenoms(raw).filter((d) =>
+    isUnresolvedIbcDenom(chain, d),
+  );
+  if (missing.length === 0) return;
+
+  let resolved = 0;
+  for (const denom of missing) {
+    const hash = getHash(denom);
+    const trace = await fetchDenomTrace(chain, hash);
+    if (!trace) continue;
+    getCache()[`${chain}:${hash}`] = trace;
+    resolved++;
+  }
+  saveCache();
+  console.log(`[IBC] Resolved ${resolved} of ${missing.length} denoms on ${chain}`);
+}
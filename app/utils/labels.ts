@@ -0,0 +1,462 @@
+// Awaken tags and transaction edits
+// The standard CSV tags each row from its transaction type. Users can change
+// the tag of a type, add rules that tag by contract address or method (text
+// in the memo), and edit single transactions from the results table: type,
+// tag, notes, amounts and currencies, exclusion, splitting into several rows,
+// and manual rows such as OTC trades. Everything is kept in localStorage like
+// the API keys with an audit trail of the edits, and is applied when rows are
+// exported, never to the stored history.
+
+import {
+  AssetMovement,
+  ChainId,
+  EditLogEntry,
+  ParsedTransaction,
+  TagMapping,
+  TagRule,
+  TransactionDiff,
+  TransactionOverride,
+  TransactionOverrides,
+  TransactionType,
+} from "../types";
+import { getLegDirections, getLinkedRows } from "./movements";
+import { normalizeAddress } from "./selfTransfers";
+
+const MAPPING_STORAGE_KEY = "tag-mapping";
+const OVERRIDES_STORAGE_KEY = "transaction-overrides";
+const EDIT_LOG_STORAGE_KEY = "transaction-edit-log";
+const MANUAL_STORAGE_KEY = "manual-transactions";
+
+// Oldest audit entries are dropped past this many
+const MAX_LOG_ENTRIES = 1000;
+
+export const DEFAULT_TAGS: Record<TransactionType, string> = {
+  send: "transfer",
+  receive: "transfer",
+  swap: "trade",
+  ibc_transfer: "transfer",
+  delegate: "staking",
+  undelegate: "staking",
+  claim_rewards: "staking",
+  pool_deposit: "liquidity",
+  pool_withdraw: "liquidity",
+  governance_vote: "governance",
+  btc_delegate: "staking",
+  btc_undelegate: "staking",
+  unknown: "",
+};
+
+export const TRANSACTION_TYPES = Object.keys(DEFAULT_TAGS) as TransactionType[];
+
+// Suggestions for tag inputs; any text is accepted
+export const KNOWN_TAGS = Array.from(
+  new Set([...Object.values(DEFAULT_TAGS).filter(Boolean), "self_transfer"]),
+);
+
+const EMPTY_MAPPING: TagMapping = { types: {}, rules: [] };
+
+export function getTagMapping(): TagMapping {
+  if (typeof window === "undefined") return EMPTY_MAPPING;
+
+  try {
+    const stored = localStorage.getItem(MAPPING_STORAGE_KEY);
+    if (!stored) return EMPTY_MAPPING;
+    const parsed = JSON.parse(stored) as Partial<TagMapping>;
+    return { types: parsed.types || {}, rules: parsed.rules || [] };
+  } catch (e) {
+    console.error("[Labels] Error reading tag mapping:", e);
+    return EMPTY_MAPPING;
+  }
+}
+
+export function saveTagMapping(mapping: TagMapping): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(MAPPING_STORAGE_KEY, JSON.stringify(mapping));
+  } catch (e) {
+    console.error("[Labels] Error saving tag mapping:", e);
+  }
+}
+
+export function getTransactionOverrides(): TransactionOverrides {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(OVERRIDES_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as TransactionOverrides) : {};
+  } catch (e) {
+    console.error("[Labels] Error reading transaction overrides:", e);
+    return {};
+  }
+}
+
+export function saveTransactionOverrides(overrides: TransactionOverrides): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (e) {
+    console.error("[Labels] Error saving transaction overrides:", e);
+  }
+}
+
+/**
+ * Stable identity of a parsed row: its hash, type, counterparties and leg
+ * Amounts and symbols are left out, since their formatting can change.
+ */
+export function getRowKey(tx: ParsedTransaction): string {
+  const from = normalizeAddress(tx.from);
+  const to = normalizeAddress(tx.to);
+  return `${tx.chain}:${tx.hash}:${tx.type}:${from}>${to}:${tx.leg ?? 0}`;
+}
+
+/**
+ * Rows with their leg numbered in order, so rows of one hash that share
+ * type, from and to keep apart
+ */
+export function numberLegs(
+  transactions: ParsedTransaction[],
+): ParsedTransaction[] {
+  const counts = new Map<string, number>();
+  return transactions.map((tx) => {
+    const base = getRowKey({ ...tx, leg: 0 });
+    const leg = counts.get(base) || 0;
+    counts.set(base, leg + 1);
+    return tx.leg === leg ? tx : { ...tx, leg };
+  });
+}
+
+/**
+ * Key of a transaction's edits, its row identity; the parsed type stays in
+ * the key when the type is edited. Edited rows keep the key they came from.
+ */
+export function getTransactionKey(tx: ParsedTransaction): string {
+  return tx.editKey || getRowKey(tx);
+}
+
+/**
+ * Overrides with the edits saved under a row's earlier key, its hash, symbol
+ * and amount, moved to the key of every row that key matched
+ * Returns the same object when there is nothing to move.
+ */
+export function migrateTransactionOverrides(
+  overrides: TransactionOverrides,
+  transactions: ParsedTransaction[],
+): TransactionOverrides {
+  let next = overrides;
+  const moved = new Set<string>();
+  for (const tx of transactions) {
+    if (tx.editKey) continue;
+    const legacy = `${tx.chain}:${tx.hash}:${tx.currency}:${tx.amount}`;
+    const key = getTransactionKey(tx);
+    if (!overrides[legacy] || overrides[key]) continue;
+    if (next === overrides) next = { ...overrides };
+    next[key] = overrides[legacy];
+    moved.add(legacy);
+  }
+  moved.forEach((legacy) => delete next[legacy]);
+  return next;
+}
+
+/**
+ * Overrides with the edit of one transaction set, or removed when empty
+ */
+export function setTransactionOverride(
+  overrides: TransactionOverrides,
+  key: string,
+  override: TransactionOverride,
+): TransactionOverrides {
+  const next = { ...overrides };
+  const cleaned: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(override)) {
+    if (value === undefined || value === "" || value === false) continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    cleaned[field] = value;
+  }
+
+  if (Object.keys(cleaned).length > 0) {
+    next[key] = cleaned as TransactionOverride;
+  } else {
+    delete next[key];
+  }
+  return next;
+}
+
+/**
+ * Legs of a row whose amounts were edited, in the directions of the parsed
+ * legs they replace; the other legs are exported as linked rows
+ */
+function getEditedMovements(
+  tx: ParsedTransaction,
+  row: ParsedTransaction,
+): AssetMovement[] | undefined {
+  if (!tx.movements?.length) return undefined;
+  const [direction, direction2] = getLegDirections(tx);
+  const legs: AssetMovement[] = [
+    {
+      direction,
+      amount: row.amount,
+      currency: row.currency,
+      contract: row.currencyContract,
+    },
+  ];
+  if (row.amount2 && row.currency2) {
+    legs.push({
+      direction: direction2,
+      amount: row.amount2,
+      currency: row.currency2,
+      contract: row.currency2Contract,
+    });
+  }
+  return legs;
+}
+
+/**
+ * Transactions as they are exported: excluded rows dropped, edited fields
+ * set, split rows expanded and legs past amount2 moved to linked rows
+ * Rows already edited are passed through, so applying twice changes nothing.
+ */
+export function applyTransactionEdits(
+  transactions: ParsedTransaction[],
+  overrides: TransactionOverrides,
+): ParsedTransaction[] {
+  return transactions.flatMap((tx) => {
+    if (tx.editKey) return [tx];
+    const key = getTransactionKey(tx);
+    const override = overrides[key];
+    if (override?.excluded) return [];
+    const linked = getLinkedRows(tx, key);
+    if (!override && linked.length === 0) return [tx];
+
+    const edited: ParsedTransaction = {
+      ...tx,
+      editKey: key,
+      type: override?.type || tx.type,
+    };
+    const editsAmount =
+      override?.amount !== undefined || override?.currency !== undefined;
+    const editsAmount2 =
+      override?.amount2 !== undefined || override?.currency2 !== undefined;
+    if (editsAmount) {
+      edited.amount = override.amount ?? tx.amount;
+      edited.currency = override.currency ?? tx.currency;
+      edited.fiatAmount = override.fiatAmount;
+      if (edited.currency !== tx.currency) edited.currencyContract = undefined;
+    }
+    if (editsAmount2) {
+      edited.amount2 = override.amount2 ?? tx.amount2;
+      edited.currency2 = override.currency2 ?? tx.currency2;
+      edited.fiatAmount2 = override.fiatAmount2;
+      if (edited.currency2 !== tx.currency2) edited.currency2Contract = undefined;
+    }
+    if (override?.fiatCurrency && !edited.fiatCurrency) {
+      edited.fiatCurrency = override.fiatCurrency;
+    }
+    // The parsed legs would still carry the old amounts
+    if (editsAmount || editsAmount2) {
+      edited.movements = getEditedMovements(tx, edited);
+    }
+    if (!override?.splits?.length) return [edited, ...linked];
+
+    const splits = override.splits.map((split, i) => {
+      const row: ParsedTransaction = {
+        ...edited,
+        type: split.type || edited.type,
+        amount: split.amount,
+        currency: split.currency,
+        amount2: split.amount2,
+        currency2: split.currency2,
+        fiatAmount: undefined,
+        fiatAmount2: undefined,
+        currencyContract:
+          split.currency === tx.currency ? tx.currencyContract : undefined,
+        currency2Contract:
+          split.currency2 === tx.currency2 ? tx.currency2Contract : undefined,
+        // The fee was paid once, so it stays on the first row
+        fee: i === 0 ? edited.fee : "",
+        feeCurrency: i === 0 ? edited.feeCurrency : "",
+        feeFiatAmount: i === 0 ? edited.feeFiatAmount : undefined,
+      };
+      return { ...row, movements: getEditedMovements(tx, row) };
+    });
+    return [...splits, ...linked];
+  });
+}
+
+/**
+ * Fields an edit changes, with the value each had before
+ */
+export function getTransactionDiff(
+  tx: ParsedTransaction,
+  override: TransactionOverride | undefined,
+): TransactionDiff[] {
+  if (!override) return [];
+  const diff: TransactionDiff[] = [];
+  const add = (field: string, original: string, edited: string | undefined) => {
+    if (edited !== undefined && edited !== original) {
+      diff.push({ field, original: original || "—", edited: edited || "—" });
+    }
+  };
+
+  add("excluded", "no", override.excluded ? "yes" : undefined);
+  add("type", tx.type, override.type);
+  add("amount", tx.amount, override.amount);
+  add("currency", tx.currency, override.currency);
+  add("amount 2", tx.amount2 || "", override.amount2);
+  add("currency 2", tx.currency2 || "", override.currency2);
+  add("tag", "", override.tag);
+  add("notes", tx.memo, override.notes);
+  if (override.splits?.length) {
+    add(
+      "rows",
+      "1 row",
+      override.splits
+        .map((s) =>
+          [s.type, s.amount, s.currency, s.amount2, s.currency2]
+            .filter(Boolean)
+            .join(" "),
+        )
+        .join("; "),
+    );
+  }
+  return diff;
+}
+
+export function getEditLog(): EditLogEntry[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(EDIT_LOG_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as EditLogEntry[]) : [];
+  } catch (e) {
+    console.error("[Labels] Error reading edit log:", e);
+    return [];
+  }
+}
+
+/**
+ * Add an entry to the audit trail and return the whole trail
+ */
+export function appendEditLog(
+  entry: Omit<EditLogEntry, "at">,
+): EditLogEntry[] {
+  const log = [...getEditLog(), { ...entry, at: new Date().toISOString() }]
+    .slice(-MAX_LOG_ENTRIES);
+  if (typeof window === "undefined") return log;
+
+  try {
+    localStorage.setItem(EDIT_LOG_STORAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error("[Labels] Error saving edit log:", e);
+  }
+  return log;
+}
+
+/**
+ * Audit entry of a change from one edit of a transaction to another
+ */
+export function describeEdit(
+  tx: ParsedTransaction,
+  before: TransactionOverride | undefined,
+  after: TransactionOverride | undefined,
+): Omit<EditLogEntry, "at"> {
+  const key = getTransactionKey(tx);
+  if (!after) {
+    return { key, action: "reset", detail: "Edits removed" };
+  }
+
+  const action: EditLogEntry["action"] =
+    !!after.excluded !== !!before?.excluded
+      ? after.excluded
+        ? "exclude"
+        : "include"
+      : (after.splits?.length || 0) !== (before?.splits?.length || 0)
+        ? "split"
+        : "edit";
+  const detail = getTransactionDiff(tx, after)
+    .map((d) => `${d.field}: ${d.original} → ${d.edited}`)
+    .join(", ");
+  return { key, action, detail };
+}
+
+/**
+ * Key of a wallet's manual rows
+ */
+export function getManualWalletKey(chain: ChainId, address: string): string {
+  return `${chain}:${normalizeAddress(address)}`;
+}
+
+/**
+ * Rows added by hand, per wallet
+ */
+export function getManualTransactions(): Record<string, ParsedTransaction[]> {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(MANUAL_STORAGE_KEY);
+    if (!stored) return {};
+    const parsed = JSON.parse(stored) as Record<string, ParsedTransaction[]>;
+    // Dates come back from JSON as strings
+    for (const rows of Object.values(parsed)) {
+      rows.forEach((tx) => (tx.timestamp = new Date(tx.timestamp)));
+    }
+    return parsed;
+  } catch (e) {
+    console.error("[Labels] Error reading manual transactions:", e);
+    return {};
+  }
+}
+
+export function saveManualTransactions(
+  manual: Record<string, ParsedTransaction[]>,
+): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(MANUAL_STORAGE_KEY, JSON.stringify(manual));
+  } catch (e) {
+    console.error("[Labels] Error saving manual transactions:", e);
+  }
+}
+
+/**
+ * A wallet's transactions followed by its manual rows
+ */
+export function withManualTransactions(
+  transactions: ParsedTransaction[],
+  manual: Record<string, ParsedTransaction[]>,
+  chain: ChainId,
+  address: string,
+): ParsedTransaction[] {
+  const rows = manual[getManualWalletKey(chain, address)];
+  return rows?.length ? [...transactions, ...rows] : transactions;
+}
+
+function matchesRule(tx: ParsedTransaction, rule: TagRule): boolean {
+  const contract = rule.contract?.trim().toLowerCase();
+  const method = rule.method?.trim().toLowerCase();
+  if (!contract && !method) return false;
+
+  if (contract) {
+    const addresses = [
+      tx.to,
+      tx.from,
+      tx.currencyContract,
+      tx.currency2Contract,
+    ].map((a) => a?.toLowerCase());
+    if (!addresses.includes(contract)) return false;
+  }
+  if (method && !tx.memo.toLowerCase().includes(method)) return false;
+  return true;
+}
+
+/**
+ * Awaken tag of a transaction: the first matching rule, else the tag of its
+ * type, else the default
+ */
+export function getTag(tx: ParsedTransaction, mapping: TagMapping): string {
+  const rule = mapping.rules.find((r) => matchesRule(tx, r));
+  if (rule) return rule.tag;
+  return mapping.types[tx.type] ?? DEFAULT_TAGS[tx.type] ?? "";
+}
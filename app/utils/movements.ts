@@ -0,0 +1,125 @@
+// Multi-leg transactions
+// A parsed transaction holds two assets (amount and amount2), so adapters
+// list every leg of a transaction that moves more than one asset in
+// `movements`. The legs amount and amount2 do not already carry are exported
+// as linked rows: same hash and date, no fee, and the edit key of the
+// transaction they came from so its tag and notes edits apply to them too.
+
+import { AssetMovement, ParsedTransaction, TransactionType } from "../types";
+
+/**
+ * Legs of a transaction that amount and amount2 do not carry
+ */
+export function getExtraMovements(tx: ParsedTransaction): AssetMovement[] {
+  if (!tx.movements?.length) return [];
+  const extra = [...tx.movements];
+  const carried: Array<[string | undefined, string | undefined]> = [
+    [tx.amount, tx.currency],
+    [tx.amount2, tx.currency2],
+  ];
+  for (const [amount, currency] of carried) {
+    const index = extra.findIndex(
+      (m) => m.amount === amount && m.currency === currency,
+    );
+    if (index >= 0) extra.splice(index, 1);
+  }
+  return extra;
+}
+
+/**
+ * Direction of the amount and amount2 legs, from movements; legs movements
+ * do not list follow the swap convention, amount sent and amount2 received
+ */
+export function getLegDirections(
+  tx: ParsedTransaction,
+): [AssetMovement["direction"], AssetMovement["direction"]] {
+  const rest = [...(tx.movements || [])];
+  const find = (
+    amount: string | undefined,
+    currency: string | undefined,
+    fallback: AssetMovement["direction"],
+  ) => {
+    const index = rest.findIndex(
+      (m) => m.amount === amount && m.currency === currency,
+    );
+    if (index < 0) return fallback;
+    return rest.splice(index, 1)[0].direction;
+  };
+  return [find(tx.amount, tx.currency, "out"), find(tx.amount2, tx.currency2, "in")];
+}
+
+/**
+ * Pairs of legs sharing a row: a sent and a received leg, the rest two of
+ * one direction
+ */
+function pairLegs(
+  legs: AssetMovement[],
+): Array<[AssetMovement, AssetMovement | undefined]> {
+  const sent = legs.filter((m) => m.direction === "out");
+  const received = legs.filter((m) => m.direction === "in");
+  const pairs: Array<[AssetMovement, AssetMovement | undefined]> = [];
+  while (sent.length > 0 && received.length > 0) {
+    pairs.push([sent.shift()!, received.shift()!]);
+  }
+  const rest = sent.length > 0 ? sent : received;
+  for (let i = 0; i < rest.length; i += 2) {
+    pairs.push([rest[i], rest[i + 1]]);
+  }
+  return pairs;
+}
+
+/**
+ * Rows for the extra legs of a transaction, two legs each: a sent and a
+ * received leg as a swap, the rest as sends or receives, unless the legs
+ * name the type of their row
+ */
+export function getLinkedRows(
+  tx: ParsedTransaction,
+  editKey: string,
+): ParsedTransaction[] {
+  const extra = getExtraMovements(tx);
+  if (extra.length === 0) return [];
+
+  const byType = new Map<TransactionType | undefined, AssetMovement[]>();
+  for (const m of extra) {
+    byType.set(m.type, [...(byType.get(m.type) || []), m]);
+  }
+  const pairs: Array<
+    [TransactionType | undefined, AssetMovement, AssetMovement | undefined]
+  > = [];
+  byType.forEach((legs, type) => {
+    for (const [first, second] of pairLegs(legs)) {
+      pairs.push([type, first, second]);
+    }
+  });
+
+  return pairs.map(([named, first, second], i) => {
+    const type: TransactionType =
+      named ||
+      (second && second.direction !== first.direction
+        ? "swap"
+        : first.direction === "out"
+          ? "send"
+          : "receive");
+    return {
+      ...tx,
+      type,
+      editKey,
+      amount: first.amount,
+      currency: first.currency,
+      currencyContract: first.contract,
+      fiatAmount: first.fiatAmount,
+      amount2: second?.amount,
+      currency2: second?.currency,
+      currency2Contract: second?.contract,
+      fiatAmount2: second?.fiatAmount,
+      // The fee is charged on the transaction's own row
+      fee: "",
+      feeCurrency: "",
+      feeFiatAmount: undefined,
+      // Its own legs only, so their directions are known
+      movements: second ? [first, second] : [first],
+      memo: `Linked row ${i + 2} of ${pairs.length + 1}: ${tx.memo}`,
+    };
+  });
+}
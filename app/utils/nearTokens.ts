@@ -0,0 +1,116 @@
+// NEAR token metadata
+// NEP-141 amounts are integers in each token's own decimals, which only the
+// token contract's ft_metadata view knows. Metadata comes from the bundled
+// token list (config/nearTokens.ts), else from a view call over NEAR RPC;
+// metadata fetched once is kept in localStorage. Parsing is synchronous, so
+// the adapter resolves the tokens of a fetch before returning it.
+
+import { NearTokenMetadata } from "../types";
+import { CHAIN_CONFIGS } from "../config/chains";
+import { NEAR_TOKENS } from "../config/nearTokens";
+
+const STORAGE_KEY = "near-token-metadata";
+
+// base64 of "{}", the arguments of ft_metadata
+const EMPTY_ARGS = "e30=";
+
+// Metadata fetched so far, by contract
+let cache: Record<string, NearTokenMetadata> | null = null;
+
+function getCache(): Record<string, NearTokenMetadata> {
+  if (cache) return cache;
+  cache = {};
+  if (typeof window === "undefined") return cache;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) cache = JSON.parse(stored) as Record<string, NearTokenMetadata>;
+  } catch (e) {
+    console.error("[NEAR] Error reading token metadata:", e);
+  }
+  return cache;
+}
+
+function saveCache(): void {
+  if (typeof window === "undefined" || !cache) return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    console.error("[NEAR] Error saving token metadata:", e);
+  }
+}
+
+/**
+ * Metadata of a token contract, if the token list or an earlier lookup has it
+ */
+export function getTokenMetadata(
+  contract: string,
+): NearTokenMetadata | undefined {
+  const key = contract.toLowerCase();
+  return NEAR_TOKENS[key] || getCache()[key];
+}
+
+async function fetchTokenMetadata(
+  contract: string,
+): Promise<NearTokenMetadata | null> {
+  for (const endpoint of CHAIN_CONFIGS.near?.rpcEndpoints || []) {
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: "ft_metadata",
+          method: "query",
+          params: {
+            request_type: "call_function",
+            finality: "final",
+            account_id: contract,
+            method_name: "ft_metadata",
+            args_base64: EMPTY_ARGS,
+          },
+        }),
+      });
+      if (!response.ok) continue;
+      const data = await response.json();
+      // Contracts without ft_metadata answer with an error, not a retry
+      if (data.error || data.result?.error) return null;
+      const bytes: number[] = data.result?.result || [];
+      // Icons are inlined as data URLs, too long to spread into fromCharCode
+      const metadata = JSON.parse(
+        new TextDecoder().decode(new Uint8Array(bytes)),
+      );
+      if (typeof metadata.decimals === "number") {
+        return {
+          symbol: metadata.symbol || contract,
+          decimals: metadata.decimals,
+        };
+      }
+    } catch (e) {
+      console.error(`[NEAR] Error reading ft_metadata of ${contract} at ${endpoint}:`, e);
+    }
+  }
+  return null;
+}
+
+/**
+ * Look up the metadata of the token contracts in a fetch that are not known
+ * yet, so parsing can format their amounts; tokens no endpoint resolves keep
+ * their contract as symbol and their raw amount
+ */
+export async function resolveTokenMetadata(contracts: string[]): Promise<void> {
+  const missing = Array.from(new Set(contracts.map((c) => c.toLowerCase())))
+    .filter((c) => !getTokenMetadata(c));
+  if (missing.length === 0) return;
+
+  let resolved = 0;
+  for (const contract of missing) {
+    const metadata = await fetchTokenMetadata(contract);
+    if (!metadata) continue;
+    getCache()[contract] = metadata;
+    resolved++;
+  }
+  saveCache();
+  console.log(`[NEAR] Resolved ${resolved} of ${missing.length} token contracts`);
+}
@@ -0,0 +1,144 @@
+// Multi-wallet portfolio
+// The wallet list is kept in localStorage so a recurring export only needs one
+// click; exports combine every fetched wallet into one Awaken CSV or bundle one
+// CSV per wallet into a zip.
+
+import {
+  AwakenTaxRow,
+  ChainId,
+  ParsedTransaction,
+  PortfolioWallet,
+  WalletResult,
+} from "../types";
+import { convertToAwakenCSV, generateCSVContent } from "./csvExport";
+import { dedupeFees } from "./fees";
+import { applyTransactionEdits, getTransactionOverrides } from "./labels";
+import { findSelfTransferHashes } from "./selfTransfers";
+import { createZip } from "./zip";
+
+const STORAGE_KEY = "portfolio-wallets";
+
+/**
+ * Wallets saved in the portfolio
+ */
+export function getPortfolioWallets(): PortfolioWallet[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("[Portfolio] Error reading wallets:", e);
+    return [];
+  }
+}
+
+/**
+ * Replace the saved portfolio wallets
+ */
+export function savePortfolioWallets(wallets: PortfolioWallet[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(wallets));
+  } catch (e) {
+    console.error("[Portfolio] Error saving wallets:", e);
+  }
+}
+
+export function isSameWallet(a: PortfolioWallet, b: PortfolioWallet): boolean {
+  return a.chain === b.chain && a.address === b.address;
+}
+
+/**
+ * Filename of a single wallet export
+ */
+export function getWalletFilename(
+  chain: ChainId,
+  address: string,
+  incomplete = false,
+): string {
+  const date = new Date().toISOString().split("T")[0];
+  const incompleteSuffix = incomplete ? "-INCOMPLETE" : "";
+  return `${chain}-transactions-${address.slice(0, 8)}${incompleteSuffix}-${date}.csv`;
+}
+
+/**
+ * Results with the saved transaction edits applied, before fees are deduped
+ * across wallets
+ */
+function withEdits(results: WalletResult[]): WalletResult[] {
+  const overrides = getTransactionOverrides();
+  return results.map((result) => ({
+    ...result,
+    transactions: applyTransactionEdits(result.transactions, overrides),
+  }));
+}
+
+/**
+ * Convert every wallet to Awaken rows, tagging transfers between the
+ * portfolio's own wallets as self-transfers and charging a fee shared by two
+ * wallets only once
+ */
+function toRowsByWallet(results: WalletResult[]): AwakenTaxRow[][] {
+  const edited = withEdits(results);
+  const ownAddresses = edited.map((r) => r.address);
+  const selfTransferHashes = findSelfTransferHashes(edited);
+  const transactionsByWallet = dedupeFees(edited);
+  return edited.map(
+    (result, i) =>
+      convertToAwakenCSV(transactionsByWallet[i], result.address, "standard", {
+        fetchMetadata: result.metadata ?? undefined,
+        ownAddresses,
+        selfTransferHashes,
+      }) as AwakenTaxRow[],
+  );
+}
+
+/**
+ * One Awaken CSV with the rows of every wallet that loaded
+ */
+export function buildCombinedCSV(results: WalletResult[]): string {
+  return generateCSVContent(toRowsByWallet(results).flat());
+}
+
+/**
+ * Zip archive with one Awaken CSV per wallet that loaded
+ */
+export function buildPortfolioZip(results: WalletResult[]): Blob {
+  const rowsByWallet = toRowsByWallet(results);
+  return createZip(
+    results
+      .map((result, i) => ({ result, rows: rowsByWallet[i] }))
+      .filter(({ rows }) => rows.length > 0)
+      .map(({ result, rows }) => ({
+        name: getWalletFilename(
+          result.chain,
+          result.address,
+          result.metadata?.truncated,
+        ),
+        content: generateCSVContent(rows),
+      })),
+  );
+}
+
+/**
+ * Whether any wallet of the portfolio is missing data
+ */
+export function isPortfolioIncomplete(results: WalletResult[]): boolean {
+  return results.some((r) => r.error || r.metadata?.truncated);
+}
+
+/**
+ * Rows of the combined export with the transaction each was built from, for
+ * the fee report and fiat totals
+ */
+export function buildPortfolioRows(results: WalletResult[]): {
+  transactions: ParsedTransaction[];
+  rows: AwakenTaxRow[];
+} {
+  return {
+    transactions: withEdits(results).flatMap((r) => r.transactions),
+    rows: toRowsByWallet(results).flat(),
+  };
+}
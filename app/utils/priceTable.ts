@@ -0,0 +1,229 @@
+// Local daily-close price table
+// USD closes are kept per asset and UTC day in IndexedDB. The table is filled
+// from CSV imports and from remote price sources, and answers price queries
+// first so exports can be priced offline.
+
+import { DailyPrice, PriceQuery, PriceSource } from "../types";
+import { isKnownAsset } from "../services/registry";
+import {
+  STORES,
+  isIndexedDBAvailable,
+  requestToPromise,
+  withTransaction,
+} from "./db";
+
+export interface PriceTableSummary {
+  count: number;
+  assets: number;
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+export interface PriceImportResult {
+  imported: number;
+  skipped: number; // Lines without a valid date, asset or close
+}
+
+/**
+ * Keys a query can match in the table, most specific first
+ * Remote closes are saved under the symbol, so a token contract only falls
+ * back to it when it is known; a token faking a known symbol is not priced.
+ */
+function assetKeys(query: PriceQuery): string[] {
+  const keys: string[] = [];
+  if (query.contract) keys.push(query.contract.toLowerCase());
+  if (
+    query.symbol &&
+    (!query.contract || isKnownAsset(query.chain, query.symbol, query.contract))
+  ) {
+    keys.push(query.symbol.toUpperCase());
+  }
+  return keys;
+}
+
+/**
+ * UTC day (YYYY-MM-DD) of a date or date string, or null if it is invalid
+ */
+export function toPriceDate(value: Date | string): string | null {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return value.trim();
+  }
+  const date = typeof value === "string" ? new Date(value.trim()) : value;
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Store daily closes, replacing existing ones for the same asset and day
+ */
+export async function savePrices(prices: DailyPrice[]): Promise<void> {
+  if (!isIndexedDBAvailable() || prices.length === 0) return;
+
+  try {
+    await withTransaction([STORES.prices], "readwrite", async (tx) => {
+      const store = tx.objectStore(STORES.prices);
+      for (const price of prices) {
+        store.put(price, [price.asset, price.date]);
+      }
+    });
+  } catch (e) {
+    console.error("[Prices] Error saving prices:", e);
+  }
+}
+
+/**
+ * Price source backed by the local table
+ */
+export const localPriceSource: PriceSource = {
+  id: "local",
+  name: "Local price table",
+  async getPrices(queries) {
+    const prices = new Map<PriceQuery, number>();
+    if (!isIndexedDBAvailable() || queries.length === 0) return prices;
+
+    try {
+      await withTransaction([STORES.prices], "readonly", async (tx) => {
+        const store = tx.objectStore(STORES.prices);
+        for (const query of queries) {
+          for (const asset of assetKeys(query)) {
+            const price = await requestToPromise<DailyPrice | undefined>(
+              store.get([asset, query.date]),
+            );
+            if (price) {
+              prices.set(query, price.close);
+              break;
+            }
+          }
+        }
+      });
+    } catch (e) {
+      console.error("[Prices] Error reading prices:", e);
+    }
+    return prices;
+  },
+};
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+export function splitCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Import daily closes from CSV with a header row naming the columns
+ * date, close (or price) and symbol and/or contract, e.g.
+ *   date,symbol,close
+ *   2024-01-31,CELO,0.71
+ */
+export async function importPriceCSV(
+  content: string,
+): Promise<PriceImportResult> {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return { imported: 0, skipped: 0 };
+
+  const header = splitCSVLine(lines[0]).map((h) => h.toLowerCase());
+  const column = (...names: string[]) =>
+    header.findIndex((h) => names.includes(h));
+  const dateCol = column("date", "day", "timestamp");
+  const closeCol = column("close", "price", "usd");
+  const symbolCol = column("symbol", "asset", "currency");
+  const contractCol = column("contract", "address");
+  if (dateCol < 0 || closeCol < 0 || (symbolCol < 0 && contractCol < 0)) {
+    throw new Error(
+      "Price CSV needs a header with date, close and symbol or contract columns",
+    );
+  }
+
+  const prices: DailyPrice[] = [];
+  let skipped = 0;
+  for (const line of lines.slice(1)) {
+    const fields = splitCSVLine(line);
+    const date = toPriceDate(fields[dateCol] || "");
+    const close = parseFloat(fields[closeCol] || "");
+    const contract = contractCol >= 0 ? fields[contractCol] : "";
+    const symbol = symbolCol >= 0 ? fields[symbolCol] : "";
+
+    if (!date || isNaN(close) || (!contract && !symbol)) {
+      skipped++;
+      continue;
+    }
+    if (contract) {
+      prices.push({ asset: contract.toLowerCase(), date, close, source: "csv" });
+    }
+    if (symbol) {
+      prices.push({ asset: symbol.toUpperCase(), date, close, source: "csv" });
+    }
+  }
+
+  await savePrices(prices);
+  console.log(
+    `[Prices] Imported ${prices.length} daily closes, skipped ${skipped} lines`,
+  );
+  return { imported: prices.length, skipped };
+}
+
+/**
+ * Size and date range of the local table
+ */
+export async function getPriceTableSummary(): Promise<PriceTableSummary> {
+  const empty = { count: 0, assets: 0, firstDate: null, lastDate: null };
+  if (!isIndexedDBAvailable()) return empty;
+
+  try {
+    const prices = await withTransaction([STORES.prices], "readonly", (tx) =>
+      requestToPromise<DailyPrice[]>(tx.objectStore(STORES.prices).getAll()),
+    );
+    if (prices.length === 0) return empty;
+
+    const dates = prices.map((p) => p.date).sort();
+    return {
+      count: prices.length,
+      assets: new Set(prices.map((p) => p.asset)).size,
+      firstDate: dates[0],
+      lastDate: dates[dates.length - 1],
+    };
+  } catch (e) {
+    console.error("[Prices] Error reading price table:", e);
+    return empty;
+  }
+}
+
+/**
+ * Remove every price of the local table
+ */
+export async function clearPriceTable(): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await withTransaction([STORES.prices], "readwrite", (tx) =>
+      requestToPromise(tx.objectStore(STORES.prices).clear()),
+    );
+  } catch (e) {
+    console.error("[Prices] Error clearing price table:", e);
+  }
+}
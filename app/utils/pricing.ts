@@ -0,0 +1,333 @@
+// Historical pricing
+// Fills the fiat value of every leg of a parsed transaction (amount, amount2,
+// the fee and extra legs of multi-leg transactions) from the USD daily close of its asset on the day of the
+// transaction, converted to the reporting currency (see fx.ts). Price sources
+// are asked in order, each only for the legs the earlier ones could not price;
+// remote prices are written to the local table so the next export works
+// offline. Quotes a chain API already returned (Tezos, Ronin) are kept and
+// converted.
+
+import {
+  AwakenTaxRow,
+  DailyPrice,
+  FiatCurrency,
+  FiatTotals,
+  ParsedTransaction,
+  PriceQuery,
+  PriceSource,
+  TransactionOverride,
+} from "../types";
+import { coinGeckoPriceSource } from "../services/coingecko-client";
+import { getFxRates, getReportingCurrency } from "./fx";
+import { applyTransactionEdits, getTransactionKey } from "./labels";
+import { getExtraMovements } from "./movements";
+import { localPriceSource, savePrices, toPriceDate } from "./priceTable";
+
+type FiatField = "fiatAmount" | "fiatAmount2" | "feeFiatAmount";
+
+const FIAT_FIELDS: FiatField[] = ["fiatAmount", "fiatAmount2", "feeFiatAmount"];
+
+interface Leg {
+  row: number;
+  field?: FiatField;
+  movement?: number; // Index in tx.movements, for an extra leg
+  amount: number;
+  query: PriceQuery;
+}
+
+/**
+ * Cents, or more decimals for dust such as most gas fees
+ */
+function formatFiat(value: number): string {
+  return value >= 0.01 ? value.toFixed(2) : value.toFixed(6);
+}
+
+/**
+ * Price sources in the order they are asked
+ */
+export function getPriceSources(): PriceSource[] {
+  return [localPriceSource, coinGeckoPriceSource];
+}
+
+function queryKey(query: PriceQuery): string {
+  return `${query.chain}|${query.contract?.toLowerCase() || ""}|${query.symbol.toUpperCase()}|${query.date}|${query.manual ? "manual" : ""}`;
+}
+
+/**
+ * Legs of a transaction that still need a fiat value
+ */
+function getUnpricedLegs(tx: ParsedTransaction, row: number): Leg[] {
+  const date = toPriceDate(new Date(tx.timestamp));
+  if (!date) return [];
+  // Currencies the user entered: edits clear the contract of a changed one
+  const entered = (contract?: string) =>
+    !!tx.manual || (!!tx.editKey && !contract);
+
+  const candidates: Array<{
+    field?: FiatField;
+    movement?: number;
+    fiat?: string;
+    amount?: string;
+    symbol?: string;
+    contract?: string;
+    manual?: boolean;
+  }> = [
+    {
+      field: "fiatAmount",
+      amount: tx.amount,
+      symbol: tx.currency,
+      contract: tx.currencyContract,
+      manual: entered(tx.currencyContract),
+    },
+    {
+      field: "fiatAmount2",
+      amount: tx.amount2,
+      symbol: tx.currency2,
+      contract: tx.currency2Contract,
+      manual: entered(tx.currency2Contract),
+    },
+    {
+      field: "feeFiatAmount",
+      amount: tx.fee,
+      symbol: tx.feeCurrency,
+      manual: tx.manual,
+    },
+    ...getExtraMovements(tx).map((m) => ({
+      movement: tx.movements!.indexOf(m),
+      fiat: m.fiatAmount,
+      amount: m.amount,
+      symbol: m.currency,
+      contract: m.contract,
+    })),
+  ];
+
+  const legs: Leg[] = [];
+  for (const {
+    field,
+    movement,
+    fiat,
+    amount,
+    symbol,
+    contract,
+    manual,
+  } of candidates) {
+    const priced = field ? tx[field] : fiat;
+    // NFT legs ("1 (ID: 42)", "PUNK#42") have no daily close
+    if (priced || !amount || !symbol || symbol.includes("#")) continue;
+    if (!/^-?\d*\.?\d+$/.test(amount)) continue;
+    const value = Math.abs(parseFloat(amount));
+    if (value === 0) continue;
+    legs.push({
+      row,
+      field,
+      movement,
+      amount: value,
+      query: { chain: tx.chain, symbol, contract, date, manual },
+    });
+  }
+  return legs;
+}
+
+/**
+ * Fill the missing fiat values of every row, leg and fee in the reporting
+ * currency, converting values a chain API returned in another currency
+ * Returns new transaction objects; a value without an FX rate for its day is
+ * left empty rather than mixed into the wrong currency
+ */
+export async function priceTransactions(
+  transactions: ParsedTransaction[],
+  currency: FiatCurrency = getReportingCurrency(),
+  sources: PriceSource[] = getPriceSources(),
+): Promise<ParsedTransaction[]> {
+  const legs = transactions.flatMap(getUnpricedLegs);
+  const needsConversion = (tx: ParsedTransaction) =>
+    !!tx.fiatCurrency &&
+    tx.fiatCurrency !== currency &&
+    (FIAT_FIELDS.some((field) => tx[field]) ||
+      !!tx.movements?.some((m) => m.fiatAmount));
+  if (legs.length === 0 && !transactions.some(needsConversion)) {
+    return transactions;
+  }
+
+  // One query per asset and day, however many legs share it
+  const queries = new Map<string, PriceQuery>();
+  for (const leg of legs) {
+    const key = queryKey(leg.query);
+    if (!queries.has(key)) queries.set(key, leg.query);
+  }
+
+  const prices = new Map<string, number>();
+  for (const source of sources) {
+    const missing = Array.from(queries.entries())
+      .filter(([key]) => !prices.has(key))
+      .map(([, query]) => query);
+    if (missing.length === 0) break;
+
+    const found = await source.getPrices(missing);
+    const fetched: DailyPrice[] = [];
+    found.forEach((close, query) => {
+      prices.set(queryKey(query), close);
+      if (source.id !== localPriceSource.id) {
+        fetched.push({
+          asset: query.contract?.toLowerCase() || query.symbol.toUpperCase(),
+          date: query.date,
+          close,
+          source: source.id,
+        });
+      }
+    });
+    await savePrices(fetched);
+    if (found.size > 0) {
+      console.log(`[Pricing] ${source.name}: ${found.size} daily closes`);
+    }
+  }
+
+  // Rates per currency and day: the reporting currency and any currency an
+  // API quoted in (Tezos and Ronin quote USD)
+  const dates = transactions
+    .map((tx) => toPriceDate(new Date(tx.timestamp)))
+    .filter((date): date is string => date !== null);
+  const currencies = new Set<FiatCurrency>([currency]);
+  transactions.filter(needsConversion).forEach((tx) => {
+    currencies.add(tx.fiatCurrency as FiatCurrency);
+  });
+  const rates = new Map<FiatCurrency, Map<string, number>>();
+  for (const code of currencies) {
+    rates.set(code, await getFxRates(code, dates));
+  }
+
+  // Value in the reporting currency of an amount in `from` on `date`
+  const convert = (value: number, from: FiatCurrency, date: string) => {
+    const fromRate = rates.get(from)?.get(date);
+    const toRate = rates.get(currency)?.get(date);
+    if (fromRate === undefined || toRate === undefined) return null;
+    return (value / fromRate) * toRate;
+  };
+
+  let missingRates = 0;
+  const priced = transactions.map((tx) => {
+    if (!needsConversion(tx)) return { ...tx };
+    const date = toPriceDate(new Date(tx.timestamp)) || "";
+    const converted = { ...tx, fiatCurrency: currency };
+    for (const field of FIAT_FIELDS) {
+      if (!tx[field]) continue;
+      const value = convert(
+        parseFloat(tx[field]!),
+        tx.fiatCurrency as FiatCurrency,
+        date,
+      );
+      if (value === null) missingRates++;
+      converted[field] = value === null ? "" : formatFiat(value);
+    }
+    converted.movements = tx.movements?.map((m) => {
+      if (!m.fiatAmount) return m;
+      const value = convert(
+        parseFloat(m.fiatAmount),
+        tx.fiatCurrency as FiatCurrency,
+        date,
+      );
+      if (value === null) missingRates++;
+      return { ...m, fiatAmount: value === null ? "" : formatFiat(value) };
+    });
+    return converted;
+  });
+
+  let pricedLegs = 0;
+  for (const leg of legs) {
+    const close = prices.get(queryKey(leg.query));
+    if (close === undefined) continue;
+    const value = convert(leg.amount * close, "USD", leg.query.date);
+    if (value === null) {
+      missingRates++;
+      continue;
+    }
+    const tx = priced[leg.row];
+    if (leg.field) {
+      tx[leg.field] = formatFiat(value);
+    } else if (tx.movements && leg.movement !== undefined) {
+      // Copied, since the priced row shares the array with its source
+      tx.movements = tx.movements.map((m, i) =>
+        i === leg.movement ? { ...m, fiatAmount: formatFiat(value) } : m,
+      );
+    }
+    tx.fiatCurrency = currency;
+    pricedLegs++;
+  }
+
+  if (missingRates > 0) {
+    console.warn(
+      `[Pricing] ${missingRates} values left empty: no USD/${currency} rate for their day`,
+    );
+  }
+  console.log(`[Pricing] Priced ${pricedLegs} of ${legs.length} legs in ${currency}`);
+  return priced;
+}
+
+/**
+ * An edit with the fiat value of the amounts it changes, priced like parsed
+ * rows; edits are applied on export, after the history was priced
+ */
+export async function priceTransactionOverride(
+  tx: ParsedTransaction,
+  override: TransactionOverride,
+): Promise<TransactionOverride> {
+  const edit: TransactionOverride = { ...override };
+  delete edit.fiatAmount;
+  delete edit.fiatAmount2;
+  delete edit.fiatCurrency;
+  const editsAmount = edit.amount !== undefined || edit.currency !== undefined;
+  const editsAmount2 =
+    edit.amount2 !== undefined || edit.currency2 !== undefined;
+  if (!editsAmount && !editsAmount2) return edit;
+
+  const [edited] = applyTransactionEdits([tx], {
+    [getTransactionKey(tx)]: { ...edit, excluded: false, splits: undefined },
+  });
+  const [priced] = await priceTransactions([edited]);
+  if (editsAmount) edit.fiatAmount = priced.fiatAmount;
+  if (editsAmount2) edit.fiatAmount2 = priced.fiatAmount2;
+  if (edit.fiatAmount || edit.fiatAmount2) {
+    edit.fiatCurrency = priced.fiatCurrency;
+  }
+  return edit;
+}
+
+/**
+ * Fiat totals of an export; rows[i] must be the standard-format row exported
+ * for transactions[i], so fees removed by de-duplication are not counted
+ * The currency is the one the rows were priced in, which may predate a change
+ * of the reporting currency setting
+ */
+export function getFiatTotals(
+  transactions: ParsedTransaction[],
+  rows: AwakenTaxRow[],
+): FiatTotals {
+  const currency =
+    transactions.find((tx) => tx.fiatCurrency)?.fiatCurrency ||
+    getReportingCurrency();
+  let received = 0;
+  let sent = 0;
+  let fees = 0;
+  let unpricedRows = 0;
+
+  rows.forEach((row, i) => {
+    const tx = transactions[i];
+    received += parseFloat(row["Received Fiat Amount"]) || 0;
+    sent += parseFloat(row["Sent Fiat Amount"]) || 0;
+    if (row["Fee Amount"] && tx?.feeFiatAmount) {
+      fees += parseFloat(tx.feeFiatAmount) || 0;
+    }
+    const unpriced =
+      (row["Received Quantity"] && !row["Received Fiat Amount"]) ||
+      (row["Sent Quantity"] && !row["Sent Fiat Amount"]);
+    if (unpriced) unpricedRows++;
+  });
+
+  return {
+    currency,
+    received: received.toFixed(2),
+    sent: sent.toFixed(2),
+    fees: fees.toFixed(2),
+    unpricedRows,
+  };
+}
@@ -0,0 +1,74 @@
+// Internal transfer detection
+// A transfer between two wallets of the same user is neither a disposal nor an
+// acquisition. Without this, a send from wallet A and the matching receive in
+// wallet B would show up as a sale and a purchase and create phantom gains.
+
+import { ParsedTransaction } from "../types";
+
+const TRANSFER_TYPES: ReadonlySet<ParsedTransaction["type"]> = new Set([
+  "send",
+  "receive",
+  "ibc_transfer",
+]);
+
+/**
+ * Canonical form for comparing addresses across explorers
+ * EVM explorers mix checksum casing, and Ronin shows 0x addresses as ronin:
+ */
+export function normalizeAddress(address: string): string {
+  return address.trim().toLowerCase().replace(/^ronin:/, "0x");
+}
+
+/**
+ * Hashes that appear as an outgoing transfer in one own wallet and as an
+ * incoming transfer in another
+ */
+export function findSelfTransferHashes(
+  wallets: Array<{ address: string; transactions: ParsedTransaction[] }>,
+): Set<string> {
+  const sentBy = new Map<string, Set<string>>();
+  const receivedBy = new Map<string, Set<string>>();
+
+  for (const wallet of wallets) {
+    const own = normalizeAddress(wallet.address);
+    for (const tx of wallet.transactions) {
+      if (!TRANSFER_TYPES.has(tx.type)) continue;
+      const isOutgoing =
+        tx.type === "send" ||
+        (tx.type === "ibc_transfer" && normalizeAddress(tx.from) === own);
+      const index = isOutgoing ? sentBy : receivedBy;
+      if (!index.has(tx.hash)) index.set(tx.hash, new Set());
+      index.get(tx.hash)!.add(own);
+    }
+  }
+
+  const hashes = new Set<string>();
+  for (const [hash, senders] of sentBy) {
+    const receivers = Array.from(receivedBy.get(hash) || []);
+    const betweenWallets = receivers.some((receiver) =>
+      Array.from(senders).some((sender) => sender !== receiver),
+    );
+    if (betweenWallets) hashes.add(hash);
+  }
+  return hashes;
+}
+
+/**
+ * Build the predicate convertToAwakenCSV uses to spot self-transfers, or null
+ * when no other own wallet is known
+ */
+export function createSelfTransferMatcher(
+  ownAddresses: string[] = [],
+  selfTransferHashes?: Set<string>,
+): ((tx: ParsedTransaction) => boolean) | null {
+  const own = new Set(ownAddresses.map(normalizeAddress));
+  if (own.size < 2 && !selfTransferHashes?.size) return null;
+
+  return (tx) => {
+    if (!TRANSFER_TYPES.has(tx.type)) return false;
+    if (selfTransferHashes?.has(tx.hash)) return true;
+    const from = normalizeAddress(tx.from);
+    const to = normalizeAddress(tx.to);
+    return from !== to && own.has(from) && own.has(to);
+  };
+}
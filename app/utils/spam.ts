@@ -0,0 +1,163 @@
+// Spam and scam tokens
+// Celo and Ronin wallets collect airdropped junk tokens and NFTs, and
+// address-poisoning transfers of zero tokens. Rows are classified per wallet
+// from the user's allow and deny lists, the tokens adapters know and a few
+// heuristics; spam rows are hidden from the table by default and left out of
+// every export. The lists are kept in localStorage like the API keys.
+
+import { ParsedTransaction, SpamLists, SpamReason } from "../types";
+import { isKnownAsset } from "../services/registry";
+import { getTransactionKey } from "./labels";
+import { normalizeAddress } from "./selfTransfers";
+
+const STORAGE_KEY = "spam-lists";
+
+const ZERO_ADDRESS = /^0x0{40}$/i;
+const URL_PATTERN =
+  /(https?:|www\.|t\.me\/|\.(com|io|org|net|xyz|app|site|top|fi|gift|claim)\b)/i;
+// Symbol adapters fall back to when a token has none (truncated contract)
+const ADDRESS_SYMBOL = /^0x[0-9a-f]{8}$/i;
+const ZERO_AMOUNT = /^0+(\.0+)?$/;
+
+export const SPAM_REASONS: Record<SpamReason, string> = {
+  deny_list: "Marked as spam",
+  zero_value: "Zero-value token transfer",
+  url_symbol: "URL in token symbol",
+  unsolicited: "Unsolicited mint or unknown token",
+};
+
+const EMPTY_LISTS: SpamLists = { allow: [], deny: [] };
+
+export function getSpamLists(): SpamLists {
+  if (typeof window === "undefined") return EMPTY_LISTS;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return EMPTY_LISTS;
+    const parsed = JSON.parse(stored) as Partial<SpamLists>;
+    return { allow: parsed.allow || [], deny: parsed.deny || [] };
+  } catch (e) {
+    console.error("[Spam] Error reading spam lists:", e);
+    return EMPTY_LISTS;
+  }
+}
+
+export function saveSpamLists(lists: SpamLists): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(lists));
+  } catch (e) {
+    console.error("[Spam] Error saving spam lists:", e);
+  }
+}
+
+/**
+ * Id a token is marked by: its contract when known, else its symbol
+ */
+export function getSpamTokenId(tx: ParsedTransaction): string {
+  return (tx.currencyContract || tx.currency).toLowerCase();
+}
+
+/**
+ * Lists with a token moved to the deny list (spam) or the allow list
+ */
+export function markToken(
+  lists: SpamLists,
+  tokenId: string,
+  spam: boolean,
+): SpamLists {
+  const allow = lists.allow.filter((id) => id !== tokenId);
+  const deny = lists.deny.filter((id) => id !== tokenId);
+  return spam
+    ? { allow, deny: [...deny, tokenId] }
+    : { allow: [...allow, tokenId], deny };
+}
+
+/**
+ * Lists with a token taken off both lists
+ */
+export function unmarkToken(lists: SpamLists, tokenId: string): SpamLists {
+  return {
+    allow: lists.allow.filter((id) => id !== tokenId),
+    deny: lists.deny.filter((id) => id !== tokenId),
+  };
+}
+
+function tokenIds(tx: ParsedTransaction): string[] {
+  return [tx.currencyContract, tx.currency, tx.currency2Contract, tx.currency2]
+    .filter((id): id is string => !!id)
+    .map((id) => id.toLowerCase());
+}
+
+/**
+ * Spam rows of one wallet with the reason each was flagged, by
+ * getTransactionKey; manual rows and allowed tokens are never spam
+ */
+export function classifySpam(
+  transactions: ParsedTransaction[],
+  walletAddress: string,
+  lists: SpamLists,
+): Map<string, SpamReason> {
+  const wallet = normalizeAddress(walletAddress);
+  const allow = new Set(lists.allow);
+  const deny = new Set(lists.deny);
+  // Hashes the wallet sent something real in; a zero-value "send" can be
+  // forged by a poisoning contract
+  const signed = new Set(
+    transactions
+      .filter(
+        (tx) =>
+          normalizeAddress(tx.from) === wallet && !ZERO_AMOUNT.test(tx.amount),
+      )
+      .map((tx) => `${tx.chain}:${tx.hash}`),
+  );
+
+  const spam = new Map<string, SpamReason>();
+  for (const tx of transactions) {
+    if (tx.manual) continue;
+    const ids = tokenIds(tx);
+    if (ids.some((id) => allow.has(id))) continue;
+
+    let reason: SpamReason | null = null;
+    if (ids.some((id) => deny.has(id))) {
+      reason = "deny_list";
+    } else if (isKnownAsset(tx.chain, tx.currency, tx.currencyContract)) {
+      continue;
+    } else if (
+      (tx.type === "send" || tx.type === "receive") &&
+      ZERO_AMOUNT.test(tx.amount) &&
+      !tx.amount2
+    ) {
+      reason = "zero_value";
+    } else if ([tx.currency, tx.currency2].some((s) => s && URL_PATTERN.test(s))) {
+      reason = "url_symbol";
+    } else if (
+      tx.type === "receive" &&
+      !signed.has(`${tx.chain}:${tx.hash}`) &&
+      (ZERO_ADDRESS.test(tx.from) ||
+        ADDRESS_SYMBOL.test(tx.currency) ||
+        tx.amount.includes("(ID:"))
+    ) {
+      reason = "unsolicited";
+    }
+
+    if (reason) spam.set(getTransactionKey(tx), reason);
+  }
+
+  if (spam.size > 0) {
+    console.log(`[Spam] Flagged ${spam.size} rows of ${walletAddress}`);
+  }
+  return spam;
+}
+
+/**
+ * Transactions without the rows flagged as spam
+ */
+export function removeSpam(
+  transactions: ParsedTransaction[],
+  spam: Map<string, SpamReason>,
+): ParsedTransaction[] {
+  if (spam.size === 0) return transactions;
+  return transactions.filter((tx) => !spam.has(getTransactionKey(tx)));
+}
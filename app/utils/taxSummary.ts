@@ -0,0 +1,298 @@
+// Tax-year summary
+// One-page overview of a wallet's year for an accountant to check before the
+// CSV goes into Awaken: staking income, disposals, fees, row counts per type
+// and the addresses the wallet dealt with most. The year runs from Jan 1 to
+// Dec 31 in the timezone setting (see timeZone.ts), not in UTC.
+
+import {
+  AssetTotal,
+  CounterpartyTotal,
+  ParsedTransaction,
+  TaxSummaryRow,
+  TaxYearSummary,
+  TransactionType,
+} from "../types";
+import { dedupeFees } from "./fees";
+import { getReportingCurrency } from "./fx";
+import { createSelfTransferMatcher, normalizeAddress } from "./selfTransfers";
+import { getDateParts } from "./timeZone";
+import { formatUnits, parseUnits } from "./units";
+
+// Quantities are summed as integers with this many decimals (NEAR has 24)
+const QUANTITY_SCALE = 24;
+const TOP_COUNTERPARTIES = 10;
+
+interface Totals {
+  quantity: bigint;
+  fiat: number;
+  unpricedRows: number;
+}
+
+/**
+ * Calendar year of a date in an IANA timezone, e.g. "America/New_York"
+ */
+function getYearInTimeZone(date: Date, timeZone: string): number {
+  return getDateParts(date, timeZone).year;
+}
+
+/**
+ * Years with at least one transaction, latest first
+ */
+export function getTaxYears(
+  transactions: ParsedTransaction[],
+  timeZone: string,
+): number[] {
+  const years = new Set(
+    transactions.map((tx) => getYearInTimeZone(tx.timestamp, timeZone)),
+  );
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+function addLeg(
+  totals: Map<string, Totals>,
+  amount: string | undefined,
+  currency: string | undefined,
+  fiat: string | undefined,
+): void {
+  if (!amount || !currency) return;
+  let quantity: bigint;
+  try {
+    quantity = parseUnits(amount.replace(/^-/, ""), QUANTITY_SCALE);
+  } catch {
+    return; // NFT ids and other non-numeric amounts
+  }
+
+  const current = totals.get(currency) || {
+    quantity: BigInt(0),
+    fiat: 0,
+    unpricedRows: 0,
+  };
+  current.quantity += quantity;
+  if (fiat) {
+    current.fiat += parseFloat(fiat) || 0;
+  } else {
+    current.unpricedRows++;
+  }
+  totals.set(currency, current);
+}
+
+function toAssetTotals(totals: Map<string, Totals>): AssetTotal[] {
+  return Array.from(totals.entries())
+    .map(([currency, total]) => ({
+      currency,
+      quantity: formatUnits(total.quantity, QUANTITY_SCALE),
+      fiatAmount: total.fiat.toFixed(2),
+      unpricedRows: total.unpricedRows,
+    }))
+    .sort((a, b) => parseFloat(b.fiatAmount) - parseFloat(a.fiatAmount));
+}
+
+/**
+ * Summary of one tax year over the given wallets, or over one wallet when a
+ * single one is passed; transfers between ownAddresses are not disposals
+ */
+export function buildTaxYearSummary(
+  wallets: Array<{ address: string; transactions: ParsedTransaction[] }>,
+  year: number,
+  timeZone: string,
+  ownAddresses: string[] = [],
+): TaxYearSummary {
+  const own = new Set(
+    [...ownAddresses, ...wallets.map((w) => w.address)].map(normalizeAddress),
+  );
+  const isSelfTransfer = createSelfTransferMatcher(Array.from(own));
+
+  const income = new Map<string, Totals>();
+  const disposals = new Map<string, Totals>();
+  const fees = new Map<string, Totals>();
+  const countsByType: Partial<Record<TransactionType, number>> = {};
+  const counterparties = new Map<string, CounterpartyTotal>();
+  let transactionCount = 0;
+  let disposalCount = 0;
+  let fiatCurrency = "";
+
+  const countCounterparty = (address: string, field: "sent" | "received") => {
+    const key = normalizeAddress(address);
+    if (!key || own.has(key)) return;
+    const current = counterparties.get(key) || { address, sent: 0, received: 0 };
+    current[field]++;
+    counterparties.set(key, current);
+  };
+
+  dedupeFees(wallets).forEach((transactions, walletIndex) => {
+    const wallet = normalizeAddress(wallets[walletIndex].address);
+    for (const tx of transactions) {
+      if (getYearInTimeZone(tx.timestamp, timeZone) !== year) continue;
+      transactionCount++;
+      countsByType[tx.type] = (countsByType[tx.type] || 0) + 1;
+      fiatCurrency = fiatCurrency || tx.fiatCurrency || "";
+      addLeg(fees, tx.fee, tx.feeCurrency, tx.feeFiatAmount);
+      if (tx.status !== "success") continue;
+
+      const outgoing =
+        tx.type === "send" ||
+        (tx.type === "ibc_transfer" && normalizeAddress(tx.from) === wallet);
+      const incoming =
+        tx.type === "receive" ||
+        (tx.type === "ibc_transfer" && !outgoing);
+
+      if (tx.type === "claim_rewards") {
+        addLeg(income, tx.amount, tx.currency, tx.fiatAmount);
+        addLeg(income, tx.amount2, tx.currency2, tx.fiatAmount2);
+      } else if (tx.type === "swap") {
+        disposalCount++;
+        addLeg(disposals, tx.amount, tx.currency, tx.fiatAmount);
+      } else if (outgoing && !isSelfTransfer?.(tx)) {
+        disposalCount++;
+        addLeg(disposals, tx.amount, tx.currency, tx.fiatAmount);
+        addLeg(disposals, tx.amount2, tx.currency2, tx.fiatAmount2);
+      }
+
+      if (outgoing) countCounterparty(tx.to, "sent");
+      if (incoming) countCounterparty(tx.from, "received");
+    }
+  });
+
+  const topCounterparties = Array.from(counterparties.values())
+    .sort((a, b) => b.sent + b.received - (a.sent + a.received))
+    .slice(0, TOP_COUNTERPARTIES);
+
+  console.log(
+    `[TaxSummary] ${year} (${timeZone}): ${transactionCount} transactions`,
+  );
+  return {
+    year,
+    timeZone,
+    address: wallets.length === 1 ? wallets[0].address : "",
+    fiatCurrency: fiatCurrency || getReportingCurrency(),
+    transactionCount,
+    income: toAssetTotals(income),
+    disposals: toAssetTotals(disposals),
+    disposalCount,
+    fees: toAssetTotals(fees),
+    countsByType,
+    topCounterparties,
+  };
+}
+
+function unpricedNote(total: AssetTotal): string {
+  return total.unpricedRows > 0
+    ? `${total.unpricedRows} rows without a fiat value`
+    : "";
+}
+
+/**
+ * Summary as CSV rows, one section after the other
+ */
+export function buildTaxSummaryRows(summary: TaxYearSummary): TaxSummaryRow[] {
+  const assetRows = (section: string, totals: AssetTotal[]) =>
+    totals.map((total) => ({
+      Section: section,
+      Item: total.currency,
+      Quantity: total.quantity,
+      "Fiat Amount": total.fiatAmount,
+      Notes: unpricedNote(total),
+    }));
+
+  return [
+    {
+      Section: "Summary",
+      Item: `Tax year ${summary.year}`,
+      Quantity: String(summary.transactionCount),
+      "Fiat Amount": "",
+      Notes: `${summary.address || "All wallets"}; ${summary.timeZone}; fiat in ${summary.fiatCurrency}`,
+    },
+    ...assetRows("Income", summary.income),
+    {
+      Section: "Disposals",
+      Item: "Transactions",
+      Quantity: String(summary.disposalCount),
+      "Fiat Amount": "",
+      Notes: "",
+    },
+    ...assetRows("Disposals", summary.disposals),
+    ...assetRows("Fees", summary.fees),
+    ...Object.entries(summary.countsByType).map(([type, count]) => ({
+      Section: "Transactions",
+      Item: type,
+      Quantity: String(count),
+      "Fiat Amount": "",
+      Notes: "",
+    })),
+    ...summary.topCounterparties.map((c) => ({
+      Section: "Counterparties",
+      Item: c.address,
+      Quantity: String(c.sent + c.received),
+      "Fiat Amount": "",
+      Notes: `${c.sent} sent, ${c.received} received`,
+    })),
+  ];
+}
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Standalone printable HTML page of the summary
+ */
+export function buildTaxSummaryHTML(summary: TaxYearSummary): string {
+  const table = (headers: string[], rows: string[][]) =>
+    rows.length === 0
+      ? "<p>None</p>"
+      : `<table><thead><tr>${headers
+          .map((h) => `<th>${escapeHTML(h)}</th>`)
+          .join("")}</tr></thead><tbody>${rows
+          .map(
+            (row) =>
+              `<tr>${row.map((cell) => `<td>${escapeHTML(cell)}</td>`).join("")}</tr>`,
+          )
+          .join("")}</tbody></table>`;
+  const assetTable = (totals: AssetTotal[]) =>
+    table(
+      ["Asset", "Quantity", `Value (${summary.fiatCurrency})`, "Notes"],
+      totals.map((t) => [t.currency, t.quantity, t.fiatAmount, unpricedNote(t)]),
+    );
+  const title = `Tax year ${summary.year} summary`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; margin: 24px; color: #111; }
+  h1 { font-size: 18px; margin-bottom: 4px; }
+  h2 { font-size: 14px; margin: 20px 0 6px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 3px 6px; text-align: left; }
+  .meta { color: #555; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+<p class="meta">${escapeHTML(summary.address || "All wallets")} • ${escapeHTML(summary.timeZone)} • ${summary.transactionCount} transactions • Generated ${new Date().toISOString().slice(0, 10)}</p>
+<h2>Staking income</h2>
+${assetTable(summary.income)}
+<h2>Disposals (${summary.disposalCount} transactions)</h2>
+${assetTable(summary.disposals)}
+<h2>Fees</h2>
+${assetTable(summary.fees)}
+<h2>Transactions by type</h2>
+${table(
+  ["Type", "Count"],
+  Object.entries(summary.countsByType).map(([type, count]) => [type, String(count)]),
+)}
+<h2>Top counterparties</h2>
+${table(
+  ["Address", "Sent", "Received"],
+  summary.topCounterparties.map((c) => [c.address, String(c.sent), String(c.received)]),
+)}
+</body>
+</html>`;
+}
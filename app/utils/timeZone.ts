@@ -0,0 +1,157 @@
+// Timezone of dates
+// Awaken reads the Date column as wall-clock time, so the user picks the IANA
+// zone it is written in (UTC by default). The same zone formats the results
+// table and sets the days of the date range and the tax-year boundaries. The
+// setting is kept in localStorage like the API keys.
+
+const STORAGE_KEY = "time-zone";
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+}
+
+// Formatters are costly to build and every exported row needs one
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Zone of exported dates, UTC unless the user picked another
+ */
+export function getTimeZone(): string {
+  if (typeof window === "undefined") return DEFAULT_TIME_ZONE;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && isValidTimeZone(stored) ? stored : DEFAULT_TIME_ZONE;
+  } catch (e) {
+    console.error("[TimeZone] Error reading time zone:", e);
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+export function saveTimeZone(timeZone: string): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, timeZone);
+  } catch (e) {
+    console.error("[TimeZone] Error saving time zone:", e);
+  }
+}
+
+/**
+ * IANA zones the browser knows, UTC first
+ */
+export function getTimeZones(): string[] {
+  const zones = Intl.supportedValuesOf("timeZone").filter(
+    (zone) => zone !== DEFAULT_TIME_ZONE,
+  );
+  return [DEFAULT_TIME_ZONE, ...zones];
+}
+
+/**
+ * Wall-clock fields of a date in a zone
+ */
+export function getDateParts(date: Date, timeZone: string): DateParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(date))) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of the zone from UTC at a date, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getDateParts(date, timeZone);
+  const wallClock = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second,
+  );
+  // The parts have no milliseconds
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant of a YYYY-MM-DD day and HH:MM wall-clock time in a zone
+ */
+export function parseDateTime(
+  day: string,
+  time: string,
+  timeZone: string,
+): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  const [hour, minute] = (time || "00:00").split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, date, hour || 0, minute || 0);
+  const first = guess - getTimeZoneOffset(new Date(guess), timeZone);
+  // The offset can differ at the instant itself (DST change in between)
+  return new Date(guess - getTimeZoneOffset(new Date(first), timeZone));
+}
+
+/**
+ * Instant a YYYY-MM-DD day starts in a zone
+ */
+export function getDayStart(day: string, timeZone: string): Date {
+  return parseDateTime(day, "00:00", timeZone);
+}
+
+/**
+ * YYYY-MM-DD of a date in a zone
+ */
+export function formatDay(date: Date, timeZone: string): string {
+  const { year, month, day } = getDateParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * YYYY-MM-DD HH:MM of a date in a zone, for the results table
+ */
+export function formatDateTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getDateParts(date, timeZone);
+  return `${formatDay(date, timeZone)} ${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
@@ -0,0 +1,183 @@
+// Local transaction cache
+// Keeps the raw and parsed history of every fully fetched wallet, keyed by
+// chain, address and adapter version, together with the highest block/timestamp
+// seen. The next export only asks the APIs for newer transactions
+// (options.since) and merges them into the cached set; bumping an adapter's
+// version makes its cached wallets miss so they are fetched from scratch.
+
+import { ChainId, ParsedTransaction, SyncCursor } from "../types";
+import {
+  STORES,
+  idbGet,
+  isIndexedDBAvailable,
+  requestToPromise,
+  withTransaction,
+} from "./db";
+
+export interface StoredWalletSummary {
+  key: string;
+  chain: ChainId;
+  address: string;
+  adapterVersion: number;
+  syncCursor: SyncCursor;
+  transactionCount: number;
+  sizeBytes: number; // Approximate, from the serialized raw and parsed history
+  updatedAt: string;
+}
+
+export interface StoredWallet extends StoredWalletSummary {
+  transactions: unknown[]; // Raw adapter output, newest first
+  parsed: ParsedTransaction[];
+}
+
+function walletKey(
+  chain: ChainId,
+  address: string,
+  adapterVersion: number,
+): string {
+  return `${chain}:${address}:v${adapterVersion}`;
+}
+
+/**
+ * Drop transactions that are not in a block after the since cursor
+ * reachedSince tells a newest-first pager that older pages hold nothing new
+ */
+export function keepNewerThan<T extends { height: string }>(
+  items: T[],
+  since?: SyncCursor,
+): { items: T[]; reachedSince: boolean } {
+  if (!since) return { items, reachedSince: false };
+  const sinceBlock = Number(since.block);
+  const newer = items.filter((item) => Number(item.height) > sinceBlock);
+  return { items: newer, reachedSince: newer.length < items.length };
+}
+
+/**
+ * Merge newly fetched raw transactions into the stored history
+ * Duplicates (e.g. a boundary block fetched twice) are dropped; newer
+ * transactions come first
+ */
+export function mergeStoredTransactions<T>(
+  newer: T[],
+  stored: T[],
+): { transactions: T[]; added: number } {
+  const seen = new Set<string>();
+  const transactions: T[] = [];
+  for (const tx of [...newer, ...stored]) {
+    const key = JSON.stringify(tx);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    transactions.push(tx);
+  }
+  return { transactions, added: transactions.length - stored.length };
+}
+
+/**
+ * Load the cached history of chain+address for the current adapter version,
+ * or null if there is none
+ */
+export async function loadStoredWallet(
+  chain: ChainId,
+  address: string,
+  adapterVersion: number,
+): Promise<StoredWallet | null> {
+  if (!isIndexedDBAvailable()) return null;
+  const key = walletKey(chain, address, adapterVersion);
+
+  try {
+    return (await idbGet<StoredWallet>(STORES.wallets, key)) ?? null;
+  } catch (e) {
+    console.error(`[TransactionStore] Error loading ${key}:`, e);
+    return null;
+  }
+}
+
+/**
+ * Replace the cached history of chain+address
+ * Only call this with a complete history, otherwise the next sync would
+ * start after a gap
+ */
+export async function saveStoredWallet(params: {
+  chain: ChainId;
+  address: string;
+  adapterVersion: number;
+  syncCursor: SyncCursor;
+  transactions: unknown[];
+  parsed: ParsedTransaction[];
+}): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+  const { chain, address, adapterVersion, transactions, parsed } = params;
+  const key = walletKey(chain, address, adapterVersion);
+
+  const summary: StoredWalletSummary = {
+    key,
+    chain,
+    address,
+    adapterVersion,
+    syncCursor: params.syncCursor,
+    transactionCount: parsed.length,
+    sizeBytes: JSON.stringify(transactions).length + JSON.stringify(parsed).length,
+    updatedAt: new Date().toISOString(),
+  };
+  const record: StoredWallet = { ...summary, transactions, parsed };
+
+  try {
+    await withTransaction(
+      [STORES.wallets, STORES.walletSummaries],
+      "readwrite",
+      async (tx) => {
+        tx.objectStore(STORES.wallets).put(record, key);
+        tx.objectStore(STORES.walletSummaries).put(summary, key);
+      },
+    );
+  } catch (e) {
+    console.error(`[TransactionStore] Error saving ${key}:`, e);
+  }
+}
+
+/**
+ * Summaries of every cached wallet, most recently updated first
+ */
+export async function listStoredWallets(): Promise<StoredWalletSummary[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  try {
+    const summaries = await withTransaction(
+      [STORES.walletSummaries],
+      "readonly",
+      (tx) =>
+        requestToPromise<StoredWalletSummary[]>(
+          tx.objectStore(STORES.walletSummaries).getAll(),
+        ),
+    );
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (e) {
+    console.error("[TransactionStore] Error listing cached wallets:", e);
+    return [];
+  }
+}
+
+/**
+ * Purge one cached wallet by its key, or every cached wallet
+ */
+export async function deleteStoredWallets(key?: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await withTransaction(
+      [STORES.wallets, STORES.walletSummaries],
+      "readwrite",
+      async (tx) => {
+        for (const store of [STORES.wallets, STORES.walletSummaries]) {
+          if (key) {
+            tx.objectStore(store).delete(key);
+          } else {
+            tx.objectStore(store).clear();
+          }
+        }
+      },
+    );
+  } catch (e) {
+    console.error(`[TransactionStore] Error purging ${key ?? "all wallets"}:`, e);
+  }
+}
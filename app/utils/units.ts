@@ -0,0 +1,101 @@
+// Exact decimal amounts
+// Chains report amounts as integers in their smallest unit (wei, utia, mutez,
+// yoctoNEAR). Converting with floats loses precision on large balances and
+// turns dust into 0.000000, so every parser formats with BigInt instead and
+// keeps full precision through to the CSV; only the UI rounds for display.
+
+const INTEGER = /^-?\d+$/;
+const DECIMAL = /^(-?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Integer in the smallest unit from an API value; decimal or exponent strings
+ * (e.g. "1e21") are accepted and truncated to an integer
+ */
+export function toBigInt(value: string | number | bigint): bigint {
+  if (typeof value === "bigint") return value;
+  const text = String(value).trim();
+  if (INTEGER.test(text)) return BigInt(text);
+  return parseUnits(text, 0);
+}
+
+/**
+ * Exact decimal string of an integer amount in the smallest unit,
+ * e.g. formatUnits("1500000", 6) === "1.5"; trailing zeros are dropped
+ */
+export function formatUnits(
+  value: string | number | bigint,
+  decimals: number,
+): string {
+  const raw = toBigInt(value);
+  const negative = raw < BigInt(0);
+  const digits = (negative ? -raw : raw).toString();
+
+  let formatted = digits;
+  if (decimals > 0) {
+    const padded = digits.padStart(decimals + 1, "0");
+    const whole = padded.slice(0, -decimals);
+    const fraction = padded.slice(-decimals).replace(/0+$/, "");
+    formatted = fraction ? `${whole}.${fraction}` : whole;
+  }
+  return negative ? `-${formatted}` : formatted;
+}
+
+/**
+ * Whether a string is a decimal amount parseUnits accepts; the pattern alone
+ * also matches a lone sign or nothing at all
+ */
+export function isDecimalAmount(value: string): boolean {
+  const match = DECIMAL.exec(value.trim());
+  return !!match && !!(match[2] || match[3]);
+}
+
+/**
+ * Integer amount in the smallest unit of a decimal string,
+ * e.g. parseUnits("1.5", 6) === 1500000n; extra fraction digits are truncated
+ */
+export function parseUnits(value: string, decimals: number): bigint {
+  const match = DECIMAL.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+
+  const [, sign, whole = "", fraction = "", exponent = "0"] = match;
+  const shift = decimals + parseInt(exponent, 10);
+  const digits = whole + fraction;
+  const point = whole.length + shift; // Position of the decimal point in digits
+
+  let integer: string;
+  if (point <= 0) {
+    integer = "0";
+  } else if (point >= digits.length) {
+    integer = digits + "0".repeat(point - digits.length);
+  } else {
+    integer = digits.slice(0, point);
+  }
+
+  const raw = BigInt(integer || "0");
+  return sign === "-" ? -raw : raw;
+}
+
+/**
+ * Round a decimal string for display (half up); null keeps full precision
+ * Non-numeric values such as "1 (ID: 42)" or "" are returned unchanged
+ */
+export function formatDisplayAmount(
+  value: string,
+  maxDecimals: number | null,
+): string {
+  if (maxDecimals === null || !isDecimalAmount(value)) return value;
+
+  const scaled = parseUnits(value, maxDecimals + 1);
+  const negative = scaled < BigInt(0);
+  const abs = negative ? -scaled : scaled;
+  const rounded = (abs + BigInt(5)) / BigInt(10);
+  const isZero = !/[1-9]/.test(value.split(/e/i)[0]);
+  if (rounded === BigInt(0) && !isZero) {
+    // Dust: say so instead of showing 0, keeping the sign of a negative one
+    const unit = formatUnits(1, maxDecimals);
+    return value.trim().startsWith("-") ? `>-${unit}` : `<${unit}`;
+  }
+  return formatUnits(negative ? -rounded : rounded, maxDecimals);
+}